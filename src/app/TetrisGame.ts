@@ -3,25 +3,55 @@
  */
 
 import { GameSession } from '@/app/session/GameSession';
+import { VersusSession } from '@/app/session/VersusSession';
+import type { GameOverData } from '@/app/session/gameSessionHandlers';
 import {
   initializeHTMLTranslations,
   setupLanguageToggle,
   setupMusicCredits,
 } from '@/app/setup/domTranslations';
-import { setupHighScoreForm, setupPlayAgainButton } from '@/app/setup/gameOverUI';
+import {
+  setupHighScoreForm,
+  setupPlayAgainButton,
+  setupReplayButtons,
+} from '@/app/setup/gameOverUI';
+import { createCustomModeModal } from '@/app/setup/customModeModal';
+import { createDemoControls } from '@/app/setup/demoControls';
 import { createModeSelectionModal } from '@/app/setup/modeSelectionModal';
+import { createPuzzleSelectionModal } from '@/app/setup/puzzleSelectionModal';
+import { createReplayControls } from '@/app/setup/replayControls';
+import { createReplaySelectionModal } from '@/app/setup/replaySelectionModal';
+import {
+  createReplayExportModal,
+  createReplayImportModal,
+  getReplayCodeFromHash,
+} from '@/app/setup/replayTransferModal';
 import type { GameStateSnapshot, SettingsUIContext } from '@/app/setup/setupSettingsUI';
 import { setupSettingsUI } from '@/app/setup/setupSettingsUI';
+import { createVersusScreen } from '@/app/setup/versusScreen';
+import { createVersusWinnerModal } from '@/app/setup/versusWinnerModal';
 import { GameMode } from '@/types/index';
+import type { Replay } from '@/types/index';
 import { APP_VERSION, MAX_HIGH_SCORES } from '@constants/config';
+import type { GameEngineOptions } from '@core/GameEngine';
+import {
+  createCustomModeConfig,
+  getGameModeLabelKey,
+  isRankedByTime,
+  isRankedMode,
+  setCustomModeConfig,
+} from '@core/GameModes';
+import { getBuiltInPuzzles } from '@core/Puzzle';
 import { i18n } from '@i18n/i18n';
 import { AnimationEngine } from '@rendering/AnimationEngine';
 import { CanvasRenderer } from '@rendering/CanvasRenderer';
 import { ThemeManager } from '@rendering/ThemeManager';
 import { AudioManager } from '@ui/AudioManager';
+import { CustomModePresetManager } from '@ui/CustomModePresetManager';
 import { FPSCounter } from '@ui/FPSCounter';
 import { HighScoreManager } from '@ui/HighScoreManager';
 import { type MusicCredits, MusicManager } from '@ui/MusicManager';
+import { ReplayManager } from '@ui/ReplayManager';
 import { UIManager } from '@ui/UIManager';
 
 function debounce<T extends (...args: unknown[]) => void>(
@@ -51,12 +81,17 @@ export class TetrisGame {
   private uiManager!: UIManager;
   private audioManager!: AudioManager;
   private highScoreManager!: HighScoreManager;
+  private customModePresetManager!: CustomModePresetManager;
+  private replayManager!: ReplayManager;
   private musicManager!: MusicManager;
   private fpsCounter!: FPSCounter;
 
   private resizeHandler!: () => void;
+  private removePlaybackControls: (() => void) | null = null;
   private currentMode: GameMode = GameMode.CLASSIC;
   private displayedScoreMode: GameMode = GameMode.CLASSIC;
+  private finesseEnabled = false;
+  private hintsEnabled = false;
 
   constructor() {
     this.init().catch(console.error);
@@ -71,6 +106,8 @@ export class TetrisGame {
     this.uiManager = new UIManager();
     this.audioManager = new AudioManager();
     this.highScoreManager = new HighScoreManager();
+    this.customModePresetManager = new CustomModePresetManager();
+    this.replayManager = new ReplayManager();
 
     const musicCredits: MusicCredits = {
       source: 'Pixabay',
@@ -108,10 +145,157 @@ export class TetrisGame {
 
     this.updateHighScoresDisplay(GameMode.CLASSIC);
 
+    if (!(await this.openSharedReplay())) {
+      this.showModeSelection();
+    }
+  }
+
+  /**
+   * Import and play the replay of a share link (#replay=<code>). Returns false if there is none.
+   */
+  private async openSharedReplay(): Promise<boolean> {
+    const code = getReplayCodeFromHash(window.location.hash);
+    if (!code) return false;
+
+    history.replaceState(null, '', window.location.pathname + window.location.search);
+    try {
+      const saved = await this.replayManager.importReplay(code);
+      this.watchReplay(saved.replay);
+      return true;
+    } catch (error) {
+      console.error('Failed to open shared replay:', error);
+      this.uiManager.showNotification(
+        i18n.t('replays.importFailed', {
+          reason: error instanceof Error ? error.message : String(error),
+        }),
+        'error',
+        3000
+      );
+      return false;
+    }
+  }
+
+  private showReplayImport(): void {
+    createReplayImportModal({
+      onImport: async (data): Promise<void> => {
+        await this.replayManager.importReplay(data);
+        this.uiManager.showNotification(i18n.t('replays.imported'), 'success', 2000);
+      },
+    });
+  }
+
+  private showModeSelection(): void {
     createModeSelectionModal({
       appVersion: APP_VERSION,
-      onClassic: () => void this.startGame(GameMode.CLASSIC),
-      onUltra: () => void this.startGame(GameMode.ULTRA),
+      onSelectMode: (mode, startLevel): void => {
+        if (mode === GameMode.PUZZLE) {
+          this.showPuzzleSelection();
+        } else if (mode === GameMode.CUSTOM) {
+          this.showCustomMode();
+        } else {
+          void this.startGame(mode, { startLevel });
+        }
+      },
+      onShowReplays: () => this.showReplays(),
+      onShowDemo: () => this.watchDemo(),
+      onShowVersus: () => this.startVersus(),
+    });
+  }
+
+  /**
+   * Let the AI play in place of the game until the player exits
+   */
+  private watchDemo(): void {
+    this.session?.quit();
+    this.session = this.createSession();
+    this.session.startDemo();
+    this.removePlaybackControls = createDemoControls({ onExit: () => this.quit() });
+  }
+
+  /**
+   * Open the two-player split screen over the game; exiting returns to mode selection
+   */
+  private startVersus(): void {
+    this.session?.quit();
+    this.session = null;
+
+    const exit = (): void => {
+      session.quit();
+      screen.remove();
+      this.showModeSelection();
+    };
+    const screen = createVersusScreen({ onExit: exit });
+
+    const session = new VersusSession({
+      views: screen.views,
+      audioManager: this.audioManager,
+      colorBlindMode: this.renderer.isColorBlindMode(),
+      onPauseChange: (paused): void => screen.setPaused(paused),
+      onWinner: (winner, results): void => {
+        createVersusWinnerModal({
+          winner,
+          results,
+          onRematch: () => session.rematch(),
+          onExit: exit,
+        });
+      },
+    });
+
+    session.start();
+  }
+
+  private showReplays(): void {
+    createReplaySelectionModal({
+      replays: this.replayManager.getReplays(),
+      onPlayReplay: (saved) => this.watchReplay(saved.replay),
+      onDeleteReplay: (saved): void => {
+        this.replayManager.deleteReplay(saved.id);
+      },
+      onBack: () => this.showModeSelection(),
+    });
+  }
+
+  /**
+   * Play a replay back in place of the game, with the replay control bar instead of keyboard input.
+   */
+  private watchReplay(replay: Replay): void {
+    this.uiManager.hidePause();
+    this.uiManager.hideModal('game-over-modal');
+    this.session?.quit();
+
+    this.session = this.createSession();
+    try {
+      const player = this.session.startReplay(replay, () =>
+        this.uiManager.showNotification(i18n.t('replays.finished'), 'info', 2000)
+      );
+      this.removePlaybackControls = createReplayControls({
+        player,
+        onExit: () => this.quit(),
+      });
+    } catch (error) {
+      console.error('Failed to play replay:', error);
+      this.session = null;
+      this.showModeSelection();
+    }
+  }
+
+  private showCustomMode(): void {
+    createCustomModeModal({
+      presetManager: this.customModePresetManager,
+      uiManager: this.uiManager,
+      onStart: (settings): void => {
+        setCustomModeConfig(createCustomModeConfig(settings));
+        void this.startGame(GameMode.CUSTOM);
+      },
+      onBack: () => this.showModeSelection(),
+    });
+  }
+
+  private showPuzzleSelection(): void {
+    createPuzzleSelectionModal({
+      puzzles: getBuiltInPuzzles(),
+      onSelectPuzzle: (puzzle) => void this.startGame(GameMode.PUZZLE, { puzzle }),
+      onBack: () => this.showModeSelection(),
     });
   }
 
@@ -131,7 +315,7 @@ export class TetrisGame {
         return {
           board: state.board,
           currentPiece: state.currentPiece,
-          nextPiece: state.nextPiece,
+          nextPieces: state.nextPieces,
           holdPiece: state.holdPiece,
           ghostPiece,
         };
@@ -143,18 +327,28 @@ export class TetrisGame {
       updateHighScoresDisplay: (mode: GameMode) => this.updateHighScoresDisplay(mode),
       getCurrentMode: () => this.currentMode,
       restart: (mode: GameMode) => this.restart(mode),
-      togglePause: () => this.session?.getEngine()?.togglePause(),
+      togglePause: () => this.session?.togglePause(),
+      setFinesseMode: (enabled: boolean): void => {
+        this.finesseEnabled = enabled;
+        this.session?.setFinesseEnabled(enabled);
+      },
+      setHintMode: (enabled: boolean): void => {
+        this.hintsEnabled = enabled;
+        this.session?.setHintsEnabled(enabled);
+      },
       onModeSelectionClick: (): void => {
         if (this.session) {
           this.session.quit();
           this.session = null;
         }
+        this.closePlaybackControls();
         this.uiManager.hidePause();
         const gameOverModal = document.getElementById('game-over-modal');
         if (gameOverModal) gameOverModal.style.display = 'none';
         const modeSelectModal = document.getElementById('mode-select-modal');
         if (modeSelectModal) modeSelectModal.style.display = 'none';
       },
+      onImportReplay: () => this.showReplayImport(),
     };
   }
 
@@ -176,7 +370,7 @@ export class TetrisGame {
     window.addEventListener('orientationchange', this.resizeHandler);
   }
 
-  private async startGame(mode: GameMode): Promise<void> {
+  private async startGame(mode: GameMode, options: GameEngineOptions = {}): Promise<void> {
     this.currentMode = mode;
 
     this.uiManager.hidePause();
@@ -204,7 +398,14 @@ export class TetrisGame {
     this.musicManager.play();
     this.syncMusicButton();
 
-    this.session = new GameSession({
+    this.session = this.createSession();
+    this.session.setFinesseEnabled(this.finesseEnabled);
+    this.session.setHintsEnabled(this.hintsEnabled);
+    this.session.start(mode, options);
+  }
+
+  private createSession(): GameSession {
+    return new GameSession({
       renderer: this.renderer,
       animationEngine: this.animationEngine,
       uiManager: this.uiManager,
@@ -220,24 +421,33 @@ export class TetrisGame {
         onQuit: (): void => this.quit(),
       },
     });
-    this.session.start(mode);
   }
 
-  private handleGameOver(data: {
-    score: number;
-    lines: number;
-    level: number;
-    duration: number;
-  }): void {
+  private handleGameOver(data: GameOverData): void {
     this.musicManager.stop();
 
     const mode = this.session?.getEngine()?.getState().gameMode ?? GameMode.CLASSIC;
+    const replay = this.session?.getReplay() ?? null;
+    const finesse = this.session?.getFinesseStats() ?? null;
+    const assisted = this.session?.isAssisted() ?? false;
+
+    // Puzzles are not ranked: report the result and go back to the puzzle list
+    if (mode === GameMode.PUZZLE) {
+      this.handlePuzzleOver(data);
+      return;
+    }
+
+    // Custom rules and games played with hints are not ranked: show the results without the form
+    const ranked = isRankedMode(mode) && !assisted;
 
-    const isHighScore = this.highScoreManager.isHighScore(mode, data.score);
+    // Time-ranked modes (Sprint) only rank finished runs
+    const rankedByTime = isRankedByTime(mode);
+    const time = rankedByTime && data.completed ? data.duration : undefined;
+    const isHighScore = ranked && this.highScoreManager.isHighScore(mode, data.score, time);
 
-    const scores = this.highScoreManager.getHighScores(mode);
+    const scores = ranked ? this.highScoreManager.getHighScores(mode) : [];
     const lastScore = scores.length >= MAX_HIGH_SCORES ? scores[scores.length - 1] : null;
-    const minScoreRequired = lastScore ? lastScore.score + 1 : 0;
+    const minScoreRequired = lastScore && !rankedByTime ? lastScore.score + 1 : 0;
 
     setTimeout(() => {
       this.uiManager.showGameOver(
@@ -248,6 +458,7 @@ export class TetrisGame {
         isHighScore,
         minScoreRequired
       );
+      this.uiManager.showFinesseResult(finesse?.percentage ?? null);
 
       if (!isHighScore && minScoreRequired > 0) {
         const notHighScoreText = document.getElementById('not-high-score-text');
@@ -258,12 +469,28 @@ export class TetrisGame {
         }
       }
 
+      if (!ranked) {
+        const inputContainer = document.getElementById('high-score-input-container');
+        if (inputContainer) inputContainer.style.display = 'none';
+      }
+
+      if (assisted) {
+        const notHighScoreMessage = document.getElementById('not-high-score-message');
+        const notHighScoreText = document.getElementById('not-high-score-text');
+        if (notHighScoreMessage && notHighScoreText) {
+          notHighScoreText.textContent = i18n.t('hints.unranked');
+          notHighScoreMessage.style.display = 'block';
+        }
+      }
+
       setTimeout(() => {
+        if (!ranked) return;
         setupHighScoreForm({
           mode,
           score: data.score,
           lines: data.lines,
           level: data.level,
+          time,
           isHighScore,
           highScoreManager: this.highScoreManager,
           uiManager: this.uiManager,
@@ -272,6 +499,17 @@ export class TetrisGame {
         });
       }, 100);
 
+      if (replay) {
+        setupReplayButtons({
+          onSaveReplay: (): void => {
+            this.replayManager.saveReplay(replay, data.score, data.lines);
+            this.uiManager.showNotification(i18n.t('replays.saved'), 'success', 2000);
+          },
+          onWatchReplay: () => this.watchReplay(replay),
+          onExportReplay: () => createReplayExportModal({ replay }),
+        });
+      }
+
       setupPlayAgainButton(() => {
         this.uiManager.hideModal('game-over-modal');
         this.restart(this.currentMode);
@@ -279,6 +517,20 @@ export class TetrisGame {
     }, 1500);
   }
 
+  private handlePuzzleOver(data: GameOverData): void {
+    if (data.completed) {
+      this.uiManager.showNotification(i18n.t('puzzles.solved'), 'success', 2000);
+    } else {
+      this.uiManager.showNotification(i18n.t('puzzles.failed'), 'error', 2000);
+    }
+
+    setTimeout(() => {
+      this.session?.quit();
+      this.session = null;
+      this.showPuzzleSelection();
+    }, 1500);
+  }
+
   private updateHighScoresDisplay(mode: GameMode): void {
     const highScoresElement = document.getElementById('highScores');
     const modeTextElement = document.getElementById('highscores-mode-text');
@@ -288,8 +540,7 @@ export class TetrisGame {
     }
 
     if (modeTextElement) {
-      const modeLabel = mode === GameMode.CLASSIC ? i18n.t('modes.classic') : i18n.t('modes.ultra');
-      modeTextElement.textContent = modeLabel;
+      modeTextElement.textContent = i18n.t(getGameModeLabelKey(mode));
     }
   }
 
@@ -302,15 +553,17 @@ export class TetrisGame {
   private quit(): void {
     this.session?.quit();
     this.session = null;
+    this.closePlaybackControls();
 
     this.uiManager.hidePause();
     this.musicManager.stop();
 
-    createModeSelectionModal({
-      appVersion: APP_VERSION,
-      onClassic: () => void this.startGame(GameMode.CLASSIC),
-      onUltra: () => void this.startGame(GameMode.ULTRA),
-    });
+    this.showModeSelection();
+  }
+
+  private closePlaybackControls(): void {
+    this.removePlaybackControls?.();
+    this.removePlaybackControls = null;
   }
 
   private syncMusicButton(): void {
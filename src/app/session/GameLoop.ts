@@ -1,8 +1,12 @@
 /**
  * Game loop: runs update (engine + animations) and render (board, stats, previews) every frame.
+ * The engine is stepped in fixed FRAME_TIME ticks so games can be replayed exactly.
  * Can be started and stopped; used by GameSession.
  */
 
+import type { Tetromino } from '@/types/index';
+import { FRAME_TIME } from '@constants/config';
+import { FixedStepAccumulator } from '@core/GameClock';
 import type { GameEngine } from '@core/GameEngine';
 import type { AnimationEngine } from '@rendering/AnimationEngine';
 import type { CanvasRenderer } from '@rendering/CanvasRenderer';
@@ -15,12 +19,17 @@ export interface GameLoopDeps {
   renderer: CanvasRenderer;
   uiManager: UIManager;
   fpsCounter: FPSCounter;
+  /** Moves the game forward each frame instead of fixed-step engine updates (replays) */
+  advance?: (deltaTime: number) => void;
+  /** Suggested placement drawn under the pieces, null when hints are off */
+  getHint?: () => Tetromino | null;
 }
 
 export class GameLoop {
   private deps: GameLoopDeps;
   private frameId: number | null = null;
   private lastFrameTime: number = 0;
+  private accumulator = new FixedStepAccumulator();
 
   constructor(deps: GameLoopDeps) {
     this.deps = deps;
@@ -28,6 +37,7 @@ export class GameLoop {
 
   start(): void {
     this.lastFrameTime = performance.now();
+    this.accumulator.reset();
     this.tick();
   }
 
@@ -46,22 +56,30 @@ export class GameLoop {
 
     fpsCounter.update();
 
-    gameEngine.update(deltaTime);
+    if (this.deps.advance) {
+      this.deps.advance(deltaTime);
+    } else {
+      const steps = this.accumulator.add(deltaTime);
+      for (let i = 0; i < steps; i++) {
+        gameEngine.update(FRAME_TIME);
+      }
+    }
     animationEngine.update(deltaTime);
 
     const state = gameEngine.getState();
     uiManager.updateGameStats(state, gameEngine.getElapsedTime());
 
     const ghostPiece = gameEngine.getGhostPosition();
-    renderer.render(state.board, state.currentPiece, ghostPiece);
+    const hintPiece = state.isGameOver ? null : (this.deps.getHint?.() ?? null);
+    renderer.render(state.board, state.currentPiece, ghostPiece, hintPiece);
 
     const ctx = renderer.getContext();
     animationEngine.render(ctx);
 
-    if (state.nextPiece) {
+    if (state.nextPieces.length > 0) {
       const nextCanvas = document.getElementById('next-canvas') as HTMLCanvasElement;
       if (nextCanvas) {
-        renderer.drawPreviewPiece(state.nextPiece, nextCanvas);
+        renderer.drawPreviewQueue(state.nextPieces, nextCanvas);
       }
     }
 
@@ -1,10 +1,19 @@
 /**
- * One play session: owns GameEngine, InputHandler, and GameLoop.
- * Exposes start(mode), restart(mode), quit() and gives access to engine/input for UI context.
+ * One play session: owns GameEngine, InputHandler, GameLoop, the replay being recorded or played,
+ * the finesse tracker when finesse mode is on and the placement hint when hints are on.
+ * Exposes start(mode, options), startReplay(replay), startDemo(), restart(mode), quit() and gives
+ * access to engine/input for UI context.
  */
 
 import { GameMode } from '@/types/index';
-import { GameEngine } from '@core/GameEngine';
+import type { Replay, Tetromino } from '@/types/index';
+import { AI_ACTION_INTERVAL, FRAME_TIME } from '@constants/config';
+import { AIPlayer } from '@core/AIPlayer';
+import { FinesseTracker, type FinesseStats } from '@core/Finesse';
+import { FixedStepAccumulator, FixedStepClock } from '@core/GameClock';
+import { GameEngine, type GameEngineOptions } from '@core/GameEngine';
+import { PlacementHint } from '@core/Hint';
+import { ReplayPlayer, ReplayRecorder } from '@core/Replay';
 import { getDropSpeed } from '@core/ScoringSystem';
 import { InputHandler } from '@input/InputHandler';
 import { AnimationEngine } from '@rendering/AnimationEngine';
@@ -15,6 +24,7 @@ import { UIManager } from '@ui/UIManager';
 import { GameLoop } from './GameLoop';
 import {
   bindInputToGame,
+  getFinesseFaultMessage,
   registerGameEventHandlers,
   type GameOverData,
 } from './gameSessionHandlers';
@@ -39,21 +49,33 @@ export class GameSession {
   private gameEngine: GameEngine | null = null;
   private inputHandler: InputHandler | null = null;
   private loop: GameLoop | null = null;
+  private recorder: ReplayRecorder | null = null;
+  private replayPlayer: ReplayPlayer | null = null;
+  private isDemo = false;
+  private finesse: FinesseTracker | null = null;
+  private finesseEnabled = false;
+  private hintsEnabled = false;
+  private hintsUsed = false;
 
   constructor(deps: GameSessionDeps) {
     this.deps = deps;
   }
 
-  /** Start a new game in the given mode. */
-  start(mode: GameMode): void {
+  /** Start a new game in the given mode (start level or puzzle go in the options). */
+  start(mode: GameMode, options: GameEngineOptions = {}): void {
     const { renderer, animationEngine, uiManager, audioManager, fpsCounter, callbacks } = this.deps;
 
-    this.gameEngine = new GameEngine(mode);
+    this.gameEngine = new GameEngine(mode, { clock: new FixedStepClock(), ...options });
+    this.recorder = new ReplayRecorder(this.gameEngine);
     this.inputHandler = new InputHandler();
+    if (this.finesseEnabled) {
+      this.attachFinesse();
+    }
 
     bindInputToGame(this.inputHandler, this.gameEngine, audioManager, {
       onRestart: callbacks.onRestart,
       onQuit: callbacks.onQuit,
+      onPress: (action) => this.finesse?.recordPress(action),
     });
 
     registerGameEventHandlers({
@@ -68,25 +90,105 @@ export class GameSession {
 
     this.updateInputSpeedScaling();
 
+    const engine = this.gameEngine;
+    const hint = new PlacementHint();
+    this.hintsUsed = this.hintsEnabled;
+
+    this.loop = new GameLoop({
+      gameEngine: engine,
+      animationEngine,
+      renderer,
+      uiManager,
+      fpsCounter,
+      getHint: (): Tetromino | null => (this.hintsEnabled ? hint.get(engine.getState()) : null),
+    });
+    this.loop.start();
+  }
+
+  /** Play a replay back without keyboard input; onFinished runs when its game ends. */
+  startReplay(replay: Replay, onFinished: () => void): ReplayPlayer {
+    const { renderer, animationEngine, uiManager, audioManager, fpsCounter } = this.deps;
+
+    const player = new ReplayPlayer(replay);
+    this.replayPlayer = player;
+    this.gameEngine = player.getEngine();
+
+    registerGameEventHandlers({
+      gameEngine: this.gameEngine,
+      audioManager,
+      animationEngine,
+      renderer,
+      uiManager,
+      onGameOver: onFinished,
+      onLevelUp: () => undefined,
+    });
+
     this.loop = new GameLoop({
       gameEngine: this.gameEngine,
       animationEngine,
       renderer,
       uiManager,
       fpsCounter,
+      advance: (deltaTime): void => player.update(deltaTime),
+    });
+    this.loop.start();
+
+    return player;
+  }
+
+  /** Let the AI play Classic games silently (attract mode), starting over whenever it tops out. */
+  startDemo(): void {
+    const { renderer, animationEngine, uiManager, fpsCounter } = this.deps;
+
+    const engine = new GameEngine(GameMode.CLASSIC, { clock: new FixedStepClock() });
+    const ai = new AIPlayer(engine, { actionInterval: AI_ACTION_INTERVAL });
+    const accumulator = new FixedStepAccumulator();
+    this.gameEngine = engine;
+    this.isDemo = true;
+
+    this.loop = new GameLoop({
+      gameEngine: engine,
+      animationEngine,
+      renderer,
+      uiManager,
+      fpsCounter,
+      advance: (deltaTime): void => {
+        const steps = accumulator.add(deltaTime);
+        for (let i = 0; i < steps; i++) {
+          if (engine.getState().isGameOver) {
+            engine.restart();
+            ai.reset();
+          }
+          ai.update();
+          engine.update(FRAME_TIME);
+        }
+      },
     });
     this.loop.start();
   }
 
   /** Restart the current game (same or new mode). Call after stopping music/UI if needed. */
   restart(mode: GameMode): void {
-    if (!this.loop || !this.gameEngine) return;
+    if (!this.loop || !this.gameEngine || this.replayPlayer || this.isDemo) return;
 
     this.loop.stop();
     this.gameEngine.restart(mode);
+    this.recorder?.reset();
+    this.finesse?.reset();
+    this.hintsUsed = this.hintsEnabled;
     this.loop.start();
   }
 
+  /** Pause or resume the game, or the replay being played. */
+  togglePause(): void {
+    if (this.isDemo) return;
+    if (this.replayPlayer) {
+      this.replayPlayer.togglePause();
+    } else {
+      this.gameEngine?.togglePause();
+    }
+  }
+
   /** Stop the session and clear references. */
   quit(): void {
     if (this.loop) {
@@ -95,7 +197,43 @@ export class GameSession {
     }
     this.deps.animationEngine.clearAll();
     this.gameEngine = null;
+    this.inputHandler?.destroy();
     this.inputHandler = null;
+    this.recorder = null;
+    this.replayPlayer?.close();
+    this.replayPlayer = null;
+    this.isDemo = false;
+    this.finesse = null;
+    this.hintsUsed = false;
+  }
+
+  /** Turn finesse mode on or off, for the game being played and the next ones. */
+  setFinesseEnabled(enabled: boolean): void {
+    this.finesseEnabled = enabled;
+    if (!enabled) {
+      this.finesse?.detach();
+      this.finesse = null;
+    } else if (!this.finesse && this.recorder) {
+      this.attachFinesse();
+    }
+  }
+
+  /** Show or hide the hint; a game that shows it even once is marked as assisted. */
+  setHintsEnabled(enabled: boolean): void {
+    this.hintsEnabled = enabled;
+    if (enabled && this.recorder) {
+      this.hintsUsed = true;
+    }
+  }
+
+  /** Whether hints were shown during the current game (assisted games are not ranked). */
+  isAssisted(): boolean {
+    return this.hintsUsed;
+  }
+
+  /** Finesse of the game played so far, null when finesse mode is off. */
+  getFinesseStats(): FinesseStats | null {
+    return this.finesse?.getStats() ?? null;
   }
 
   getEngine(): GameEngine | null {
@@ -106,6 +244,22 @@ export class GameSession {
     return this.inputHandler;
   }
 
+  /** Replay of the game recorded so far, null while playing a replay back. */
+  getReplay(): Replay | null {
+    return this.recorder?.getReplay() ?? null;
+  }
+
+  /** Track the finesse of the game being played, showing the optimal keys after each fault. */
+  private attachFinesse(): void {
+    if (!this.gameEngine) return;
+
+    const { uiManager } = this.deps;
+    this.finesse = new FinesseTracker(this.gameEngine, {
+      onFault: (fault): void =>
+        uiManager.showNotification(getFinesseFaultMessage(fault), 'warning', 2000),
+    });
+  }
+
   private updateInputSpeedScaling(): void {
     if (!this.gameEngine || !this.inputHandler) return;
 
@@ -0,0 +1,162 @@
+/**
+ * Local versus session: two GameEngines, each with its own InputHandler, CanvasRenderer and stats,
+ * stepped together by one frame loop. The VersusMatch sends garbage across and reports the winner.
+ */
+
+import { GameEventType, GameMode } from '@/types/index';
+import { FRAME_TIME, VERSUS_CONTROLS } from '@constants/config';
+import { FixedStepAccumulator, FixedStepClock } from '@core/GameClock';
+import { GameEngine } from '@core/GameEngine';
+import { getRandomizerType } from '@core/GameModes';
+import { createPieceGenerator, generateSeed } from '@core/PieceGenerator';
+import { VersusMatch } from '@core/Versus';
+import { InputHandler } from '@input/InputHandler';
+import { CanvasRenderer } from '@rendering/CanvasRenderer';
+import type { AudioManager } from '@ui/AudioManager';
+import {
+  renderVersusStats,
+  type VersusPlayerStats,
+  type VersusPlayerView,
+} from '@/app/setup/versusScreen';
+import { bindInputToGame } from './gameSessionHandlers';
+
+export interface VersusSessionDeps {
+  views: [VersusPlayerView, VersusPlayerView];
+  audioManager: AudioManager;
+  colorBlindMode: boolean;
+  onWinner: (winner: number, results: [VersusPlayerStats, VersusPlayerStats]) => void;
+  onPauseChange: (paused: boolean) => void;
+}
+
+/** Both players play Classic rules on the same piece sequence. */
+function createVersusEngine(seed: number): GameEngine {
+  return new GameEngine(GameMode.CLASSIC, {
+    generator: createPieceGenerator(getRandomizerType(GameMode.CLASSIC), seed),
+    clock: new FixedStepClock(),
+  });
+}
+
+export class VersusSession {
+  private deps: VersusSessionDeps;
+  private players: [GameEngine, GameEngine];
+  private renderers: [CanvasRenderer, CanvasRenderer];
+  private inputs: InputHandler[] = [];
+  private match: VersusMatch;
+  private accumulator = new FixedStepAccumulator();
+  private frameId: number | null = null;
+  private lastFrameTime = 0;
+  private paused = false;
+  private resizeHandler = (): void => this.renderers.forEach((renderer) => renderer.autoResize());
+
+  constructor(deps: VersusSessionDeps) {
+    this.deps = deps;
+
+    const seed = generateSeed();
+    this.players = [createVersusEngine(seed), createVersusEngine(seed)];
+    this.renderers = [
+      new CanvasRenderer(deps.views[0].canvas),
+      new CanvasRenderer(deps.views[1].canvas),
+    ];
+    this.match = new VersusMatch(this.players, {
+      onWinner: (winner): void => this.finish(winner),
+    });
+  }
+
+  /** Bind each player's keys and start the frame loop. */
+  start(): void {
+    const { audioManager, colorBlindMode } = this.deps;
+
+    this.players.forEach((engine, index) => {
+      const input = new InputHandler(VERSUS_CONTROLS[index]);
+      bindInputToGame(input, engine, audioManager, {
+        onRestart: () => undefined,
+        onQuit: () => undefined,
+      });
+      // Pause stops both players, whoever presses it
+      input.on('pause', () => this.togglePause());
+      this.inputs.push(input);
+
+      engine.addEventListener(GameEventType.LINE_CLEARED, () => audioManager.play('lineClear'));
+    });
+
+    this.renderers.forEach((renderer) => renderer.setColorBlindMode(colorBlindMode));
+    this.resizeHandler();
+    window.addEventListener('resize', this.resizeHandler);
+
+    this.lastFrameTime = performance.now();
+    this.frameId = requestAnimationFrame(this.tick);
+  }
+
+  /** Play again on a new shared seed. */
+  rematch(): void {
+    this.match.restart();
+    this.accumulator.reset();
+    this.setPaused(false);
+  }
+
+  /** Pause or resume both players (ignored once the match is decided). */
+  togglePause(): void {
+    if (this.match.isOver()) return;
+    this.setPaused(!this.paused);
+  }
+
+  /** Stop the loop and release both players' keys. */
+  quit(): void {
+    if (this.frameId !== null) {
+      cancelAnimationFrame(this.frameId);
+      this.frameId = null;
+    }
+    window.removeEventListener('resize', this.resizeHandler);
+    this.inputs.forEach((input) => input.destroy());
+    this.inputs = [];
+  }
+
+  private setPaused(paused: boolean): void {
+    this.paused = paused;
+    this.players.forEach((engine) => (paused ? engine.pause() : engine.resume()));
+    this.accumulator.reset();
+    this.deps.onPauseChange(paused);
+  }
+
+  private getStats(engine: GameEngine): VersusPlayerStats {
+    const { score, lines, level } = engine.getState();
+    return { score, lines, level, garbage: engine.getPendingGarbage() };
+  }
+
+  private finish(winner: number): void {
+    this.deps.audioManager.play('gameOver');
+    this.deps.onWinner(winner, [this.getStats(this.players[0]), this.getStats(this.players[1])]);
+  }
+
+  private tick = (): void => {
+    const currentTime = performance.now();
+    const deltaTime = currentTime - this.lastFrameTime;
+    this.lastFrameTime = currentTime;
+
+    // Both players take every step together so neither gets ahead
+    if (!this.paused && !this.match.isOver()) {
+      const steps = this.accumulator.add(deltaTime);
+      for (let i = 0; i < steps && !this.match.isOver(); i++) {
+        this.players.forEach((engine) => engine.update(FRAME_TIME));
+      }
+    }
+
+    this.players.forEach((engine, index) => {
+      const renderer = this.renderers[index];
+      const view = this.deps.views[index];
+      if (!renderer || !view) return;
+
+      const state = engine.getState();
+      renderer.render(state.board, state.currentPiece, engine.getGhostPosition());
+      if (state.nextPieces.length > 0) {
+        renderer.drawPreviewQueue(state.nextPieces, view.nextCanvas);
+      }
+      if (state.holdPiece) {
+        renderer.drawPreviewPiece(state.holdPiece, view.holdCanvas);
+      }
+      renderVersusStats(view, this.getStats(engine));
+    });
+
+    this.frameId = requestAnimationFrame(this.tick);
+  };
+}
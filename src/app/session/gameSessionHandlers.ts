@@ -3,8 +3,11 @@
  * Used by GameSession to wire GameEngine + InputHandler without coupling to TetrisGame.
  */
 
-import { GameEventType, GameMode } from '@/types/index';
+import { GameEventType, GameMode, TSpinType } from '@/types/index';
+import type { GameAction } from '@/types/index';
+import type { FinesseFault } from '@core/Finesse';
 import type { GameEngine } from '@core/GameEngine';
+import { formatPreciseTime, isRankedByTime } from '@core/GameModes';
 import { i18n } from '@i18n/i18n';
 import type { InputHandler } from '@input/InputHandler';
 import type { AnimationEngine } from '@rendering/AnimationEngine';
@@ -15,6 +18,8 @@ import type { UIManager } from '@ui/UIManager';
 export interface BindInputCallbacks {
   onRestart: (mode: GameMode) => void;
   onQuit: () => void;
+  /** Each key press the engine took, once per press: a held key's auto-repeats are left out */
+  onPress?: (action: GameAction) => void;
 }
 
 export function bindInputToGame(
@@ -23,27 +28,39 @@ export function bindInputToGame(
   audioManager: AudioManager,
   callbacks: BindInputCallbacks
 ): void {
-  const { onRestart, onQuit } = callbacks;
+  const { onRestart, onQuit, onPress } = callbacks;
 
-  inputHandler.on('moveLeft', () => {
-    if (gameEngine.moveLeft()) audioManager.play('move');
+  const dispatch = (action: GameAction, repeat: boolean): boolean => {
+    const taken = gameEngine.dispatch(action);
+    if (taken && !repeat) onPress?.(action);
+    return taken;
+  };
+
+  inputHandler.on('moveLeft', (repeat) => {
+    if (dispatch('moveLeft', repeat)) audioManager.play('move');
   });
-  inputHandler.on('moveRight', () => {
-    if (gameEngine.moveRight()) audioManager.play('move');
+  inputHandler.on('moveRight', (repeat) => {
+    if (dispatch('moveRight', repeat)) audioManager.play('move');
   });
-  inputHandler.on('moveDown', () => {
-    gameEngine.moveDown();
+  inputHandler.on('moveDown', (repeat) => {
+    dispatch('moveDown', repeat);
     audioManager.play('move');
   });
-  inputHandler.on('rotate', () => {
-    if (gameEngine.rotate()) audioManager.play('rotate');
+  inputHandler.on('rotate', (repeat) => {
+    if (dispatch('rotate', repeat)) audioManager.play('rotate');
+  });
+  inputHandler.on('rotateCCW', (repeat) => {
+    if (dispatch('rotateCCW', repeat)) audioManager.play('rotate');
   });
-  inputHandler.on('hardDrop', () => {
-    gameEngine.hardDrop();
+  inputHandler.on('rotate180', (repeat) => {
+    if (dispatch('rotate180', repeat)) audioManager.play('rotate');
+  });
+  inputHandler.on('hardDrop', (repeat) => {
+    dispatch('hardDrop', repeat);
     audioManager.play('drop');
   });
-  inputHandler.on('hold', () => {
-    if (gameEngine.hold()) audioManager.play('hold');
+  inputHandler.on('hold', (repeat) => {
+    if (dispatch('hold', repeat)) audioManager.play('hold');
   });
   inputHandler.on('pause', () => gameEngine.togglePause());
   inputHandler.on('restart', () => onRestart(gameEngine.getState().gameMode));
@@ -55,6 +72,7 @@ export interface GameOverData {
   lines: number;
   level: number;
   duration: number;
+  completed: boolean; // ended by the mode's goal (time up, line goal) rather than a top out
 }
 
 export interface RegisterEventHandlersDeps {
@@ -67,6 +85,51 @@ export interface RegisterEventHandlersDeps {
   onLevelUp: () => void;
 }
 
+const CLEAR_NAME_KEYS: Record<number, string> = {
+  1: 'achievements.single',
+  2: 'achievements.double',
+  3: 'achievements.triple',
+};
+
+/**
+ * Announcement text for a T-spin, e.g. "T-SPIN DOUBLE!"
+ */
+function getTSpinMessage(type: TSpinType, lines: number): string {
+  const isMini = type === TSpinType.MINI;
+  const clearKey = CLEAR_NAME_KEYS[lines];
+
+  if (!clearKey) {
+    return i18n.t(isMini ? 'achievements.miniTSpin' : 'achievements.tSpin');
+  }
+
+  return i18n.t(isMini ? 'achievements.miniTSpinClear' : 'achievements.tSpinClear', {
+    clear: i18n.t(clearKey),
+  });
+}
+
+const ACTION_SYMBOLS: Record<GameAction, string> = {
+  moveLeft: '←',
+  moveRight: '→',
+  moveDown: '↓',
+  rotate: '↻',
+  rotateCCW: '↺',
+  rotate180: '180°',
+  hardDrop: '⤓',
+  hold: 'H',
+};
+
+/**
+ * Finesse fault notice with the optimal keys, e.g. "Finesse fault on T: ↻ → ⤓ (4 keys, 2 needed)"
+ */
+export function getFinesseFaultMessage(fault: FinesseFault): string {
+  return i18n.t('finesse.fault', {
+    piece: fault.type,
+    keys: fault.optimal.map((action) => ACTION_SYMBOLS[action]).join(' '),
+    used: fault.used.length,
+    needed: fault.needed,
+  });
+}
+
 export function registerGameEventHandlers(deps: RegisterEventHandlersDeps): void {
   const { gameEngine, audioManager, animationEngine, renderer, uiManager, onGameOver, onLevelUp } =
     deps;
@@ -77,6 +140,17 @@ export function registerGameEventHandlers(deps: RegisterEventHandlersDeps): void
     animationEngine.animateLineClear([data.count], renderer.getCellSize());
   });
 
+  gameEngine.addEventListener(GameEventType.T_SPIN, (event) => {
+    const data = event.data as { type: TSpinType; lines: number };
+    uiManager.showAchievement(getTSpinMessage(data.type, data.lines));
+  });
+
+  gameEngine.addEventListener(GameEventType.PERFECT_CLEAR, () => {
+    audioManager.play('levelUp');
+    animationEngine.animatePerfectClear(renderer.getCanvas());
+    uiManager.showAchievement(i18n.t('achievements.perfectClear'));
+  });
+
   gameEngine.addEventListener(GameEventType.LEVEL_UP, (event) => {
     audioManager.play('levelUp');
     animationEngine.animateLevelUp(renderer.getCanvas());
@@ -103,4 +177,25 @@ export function registerGameEventHandlers(deps: RegisterEventHandlersDeps): void
   gameEngine.addEventListener(GameEventType.TIME_UP, () => {
     uiManager.showNotification(i18n.t('messages.timeUp'), 'error', 3000);
   });
+
+  gameEngine.addEventListener(GameEventType.GARBAGE_INCOMING, () => {
+    uiManager.showNotification(i18n.t('messages.garbageIncoming'), 'warning', 1000);
+  });
+
+  gameEngine.addEventListener(GameEventType.SPLIT, (event) => {
+    const data = event.data as { lines: number; time: number };
+    uiManager.showNotification(
+      i18n.t('messages.sprintSplit', { lines: data.lines, time: formatPreciseTime(data.time) }),
+      'info',
+      1500
+    );
+  });
+
+  gameEngine.addEventListener(GameEventType.GOAL_REACHED, (event) => {
+    const data = event.data as { lines: number; time: number };
+    const message = isRankedByTime(gameEngine.getState().gameMode)
+      ? i18n.t('messages.timedGoalComplete', { time: formatPreciseTime(data.time) })
+      : i18n.t('messages.lineGoalComplete', { lines: data.lines });
+    uiManager.showAchievement(message);
+  });
 }
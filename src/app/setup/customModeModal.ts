@@ -0,0 +1,238 @@
+/**
+ * Custom mode modal: rules form, named presets and start/back buttons.
+ */
+
+import { RandomizerType, SpeedCurvePreset } from '@/types/index';
+import type { CustomModeSettings } from '@/types/index';
+import {
+  CUSTOM_MAX_BOARD_HEIGHT,
+  CUSTOM_MAX_BOARD_WIDTH,
+  CUSTOM_MAX_LINE_GOAL,
+  CUSTOM_MAX_TIME_LIMIT,
+  CUSTOM_MIN_BOARD_HEIGHT,
+  CUSTOM_MIN_BOARD_WIDTH,
+  CUSTOM_PRESET_NAME_MAX_LENGTH,
+  DEFAULT_CUSTOM_MODE_SETTINGS,
+  MAX_LEVEL,
+  MAX_PREVIEW_COUNT,
+  MIN_PREVIEW_COUNT,
+} from '@constants/config';
+import { normalizeCustomModeSettings } from '@core/GameModes';
+import { i18n } from '@i18n/i18n';
+import type { CustomModePresetManager } from '@ui/CustomModePresetManager';
+import type { UIManager } from '@ui/UIManager';
+
+export interface CreateCustomModeModalOptions {
+  presetManager: CustomModePresetManager;
+  uiManager: UIManager;
+  onStart: (settings: CustomModeSettings) => void;
+  onBack: () => void;
+}
+
+type NumberSetting =
+  'boardWidth' | 'boardHeight' | 'startLevel' | 'timeLimit' | 'lineGoal' | 'previewCount';
+type ToggleSetting = 'holdEnabled' | 'ghostEnabled';
+
+const NUMBER_FIELDS: Array<{ key: NumberSetting; labelKey: string; min: number; max: number }> = [
+  {
+    key: 'boardWidth',
+    labelKey: 'custom.boardWidth',
+    min: CUSTOM_MIN_BOARD_WIDTH,
+    max: CUSTOM_MAX_BOARD_WIDTH,
+  },
+  {
+    key: 'boardHeight',
+    labelKey: 'custom.boardHeight',
+    min: CUSTOM_MIN_BOARD_HEIGHT,
+    max: CUSTOM_MAX_BOARD_HEIGHT,
+  },
+  { key: 'startLevel', labelKey: 'custom.startLevel', min: 0, max: MAX_LEVEL },
+  { key: 'timeLimit', labelKey: 'custom.timeLimit', min: 0, max: CUSTOM_MAX_TIME_LIMIT },
+  { key: 'lineGoal', labelKey: 'custom.lineGoal', min: 0, max: CUSTOM_MAX_LINE_GOAL },
+  {
+    key: 'previewCount',
+    labelKey: 'custom.previewCount',
+    min: MIN_PREVIEW_COUNT,
+    max: MAX_PREVIEW_COUNT,
+  },
+];
+
+const TOGGLE_FIELDS: Array<{ key: ToggleSetting; labelKey: string }> = [
+  { key: 'holdEnabled', labelKey: 'custom.hold' },
+  { key: 'ghostEnabled', labelKey: 'custom.ghost' },
+];
+
+const RANDOMIZERS = [RandomizerType.BAG, RandomizerType.CLASSIC, RandomizerType.HISTORY];
+
+function renderOptions(values: string[], labelPrefix: string): string {
+  return values
+    .map((value) => `<option value="${value}">${i18n.t(`${labelPrefix}.${value}`)}</option>`)
+    .join('');
+}
+
+function renderPresetOptions(presetManager: CustomModePresetManager): string {
+  const saved = presetManager
+    .getPresets()
+    .map((preset) => `<option value="${preset.name}">${preset.name}</option>`)
+    .join('');
+  return `<option value="">${i18n.t('custom.newPreset')}</option>${saved}`;
+}
+
+function renderForm(): string {
+  const numberFields = NUMBER_FIELDS.map(
+    ({ key, labelKey, min, max }) => `
+          <label for="custom-${key}">
+            <span>${i18n.t(labelKey)}</span>
+            <input type="number" id="custom-${key}" min="${min}" max="${max}" step="1">
+          </label>`
+  ).join('');
+  const toggleFields = TOGGLE_FIELDS.map(
+    ({ key, labelKey }) => `
+          <label for="custom-${key}" class="custom-mode-toggle">
+            <span>${i18n.t(labelKey)}</span>
+            <input type="checkbox" id="custom-${key}">
+          </label>`
+  ).join('');
+
+  return `
+        <div class="custom-mode-form">
+          <label for="custom-preset">
+            <span>${i18n.t('custom.preset')}</span>
+            <select id="custom-preset"></select>
+          </label>
+          <label for="custom-name">
+            <span>${i18n.t('custom.presetName')}</span>
+            <input type="text" id="custom-name" maxlength="${CUSTOM_PRESET_NAME_MAX_LENGTH}">
+          </label>${numberFields}
+          <label for="custom-speedCurve">
+            <span>${i18n.t('custom.speedCurve')}</span>
+            <select id="custom-speedCurve">${renderOptions(Object.values(SpeedCurvePreset), 'custom.speedCurves')}</select>
+          </label>
+          <label for="custom-randomizer">
+            <span>${i18n.t('custom.randomizer')}</span>
+            <select id="custom-randomizer">${renderOptions(RANDOMIZERS, 'custom.randomizers')}</select>
+          </label>${toggleFields}
+        </div>`;
+}
+
+function getField<T extends HTMLElement>(modal: HTMLElement, key: string): T | null {
+  return modal.querySelector<T>(`#custom-${key}`);
+}
+
+/**
+ * Read the form into settings clamped to the builder limits
+ */
+function readSettings(modal: HTMLElement): CustomModeSettings {
+  const settings: Record<string, unknown> = {};
+
+  NUMBER_FIELDS.forEach(({ key }) => {
+    const input = getField<HTMLInputElement>(modal, key);
+    if (input) settings[key] = Number(input.value);
+  });
+  TOGGLE_FIELDS.forEach(({ key }) => {
+    const input = getField<HTMLInputElement>(modal, key);
+    if (input) settings[key] = input.checked;
+  });
+  settings.speedCurve = getField<HTMLSelectElement>(modal, 'speedCurve')?.value;
+  settings.randomizer = getField<HTMLSelectElement>(modal, 'randomizer')?.value;
+
+  return normalizeCustomModeSettings(settings);
+}
+
+function fillForm(modal: HTMLElement, settings: CustomModeSettings): void {
+  NUMBER_FIELDS.forEach(({ key }) => {
+    const input = getField<HTMLInputElement>(modal, key);
+    if (input) input.value = settings[key].toString();
+  });
+  TOGGLE_FIELDS.forEach(({ key }) => {
+    const input = getField<HTMLInputElement>(modal, key);
+    if (input) input.checked = settings[key];
+  });
+
+  const speedCurve = getField<HTMLSelectElement>(modal, 'speedCurve');
+  if (speedCurve) speedCurve.value = settings.speedCurve;
+  const randomizer = getField<HTMLSelectElement>(modal, 'randomizer');
+  if (randomizer) randomizer.value = settings.randomizer;
+}
+
+/**
+ * Creates the custom mode modal, appends it to document.body, and wires presets + buttons.
+ */
+export function createCustomModeModal(options: CreateCustomModeModalOptions): void {
+  const { presetManager, uiManager, onStart, onBack } = options;
+
+  const modal = document.createElement('div');
+  modal.className = 'modal active';
+  modal.id = 'custom-mode-modal';
+
+  modal.innerHTML = `
+    <div class="modal-content start-modal">
+      <h2 class="modal-title">${i18n.t('modes.custom')}</h2>
+      <h3 class="modal-section-title">${i18n.t('custom.title')}</h3>${renderForm()}
+      <div class="modal-buttons">
+        <button class="game-button" id="custom-save">${i18n.t('custom.savePreset')}</button>
+        <button class="game-button" id="custom-delete">${i18n.t('custom.deletePreset')}</button>
+      </div>
+      <div class="modal-buttons">
+        <button class="game-button" id="custom-back">${i18n.t('buttons.back')}</button>
+        <button class="game-button" id="custom-start">${i18n.t('custom.start')}</button>
+      </div>
+    </div>
+  `;
+
+  document.body.appendChild(modal);
+
+  const presetSelect = getField<HTMLSelectElement>(modal, 'preset');
+  const nameInput = getField<HTMLInputElement>(modal, 'name');
+
+  const refreshPresets = (selected: string): void => {
+    if (!presetSelect) return;
+    presetSelect.innerHTML = renderPresetOptions(presetManager);
+    presetSelect.value = selected;
+  };
+
+  refreshPresets('');
+  fillForm(modal, DEFAULT_CUSTOM_MODE_SETTINGS);
+
+  presetSelect?.addEventListener('change', () => {
+    const preset = presetManager.getPreset(presetSelect.value);
+    fillForm(modal, preset?.settings ?? DEFAULT_CUSTOM_MODE_SETTINGS);
+    if (nameInput) nameInput.value = preset?.name ?? '';
+  });
+
+  modal.querySelector('#custom-save')?.addEventListener('click', () => {
+    const preset = presetManager.savePreset(nameInput?.value ?? '', readSettings(modal));
+    if (!preset) {
+      uiManager.showNotification(i18n.t('custom.presetNameRequired'), 'warning', 2000);
+      return;
+    }
+
+    refreshPresets(preset.name);
+    fillForm(modal, preset.settings);
+    uiManager.showNotification(
+      i18n.t('custom.presetSaved', { name: preset.name }),
+      'success',
+      2000
+    );
+  });
+
+  modal.querySelector('#custom-delete')?.addEventListener('click', () => {
+    const name = presetSelect?.value ?? '';
+    if (!presetManager.deletePreset(name)) return;
+
+    refreshPresets('');
+    if (nameInput) nameInput.value = '';
+    uiManager.showNotification(i18n.t('custom.presetDeleted', { name }), 'info', 2000);
+  });
+
+  modal.querySelector('#custom-start')?.addEventListener('click', () => {
+    const settings = readSettings(modal);
+    modal.remove();
+    onStart(settings);
+  });
+
+  modal.querySelector('#custom-back')?.addEventListener('click', () => {
+    modal.remove();
+    onBack();
+  });
+}
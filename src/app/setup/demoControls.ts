@@ -0,0 +1,45 @@
+/**
+ * AI demo controls: label and exit button shown while the AI plays on its own.
+ */
+
+import { i18n } from '@i18n/i18n';
+
+export interface CreateDemoControlsOptions {
+  onExit: () => void;
+}
+
+/**
+ * Creates the demo bar, appends it to document.body, and wires its exit button and the Escape key.
+ * Returns a function that removes the bar.
+ */
+export function createDemoControls(options: CreateDemoControlsOptions): () => void {
+  const { onExit } = options;
+
+  const bar = document.createElement('div');
+  bar.className = 'demo-controls';
+  bar.id = 'demo-controls';
+
+  bar.innerHTML = `
+    <span class="demo-controls-title">${i18n.t('demo.playing')}</span>
+    <button class="game-button" id="demo-exit">${i18n.t('demo.exit')}</button>
+  `;
+
+  document.body.appendChild(bar);
+
+  const onKeyDown = (event: KeyboardEvent): void => {
+    if (event.key === 'Escape') exit();
+  };
+  const remove = (): void => {
+    window.removeEventListener('keydown', onKeyDown);
+    bar.remove();
+  };
+  const exit = (): void => {
+    remove();
+    onExit();
+  };
+
+  window.addEventListener('keydown', onKeyDown);
+  bar.querySelector('#demo-exit')?.addEventListener('click', exit);
+
+  return remove;
+}
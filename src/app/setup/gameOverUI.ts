@@ -1,8 +1,9 @@
 /**
- * Game over UI: high score form and Play Again button.
+ * Game over UI: high score form, replay buttons and Play Again button.
  */
 
-import { GameMode } from '@/types/index';
+import type { GameMode } from '@/types/index';
+import { formatPreciseTime, getGameModeLabelKey } from '@core/GameModes';
 import { i18n } from '@i18n/i18n';
 import type { HighScoreManager } from '@ui/HighScoreManager';
 import type { UIManager } from '@ui/UIManager';
@@ -12,6 +13,7 @@ export interface SetupHighScoreFormContext {
   score: number;
   lines: number;
   level: number;
+  time?: number; // completion time in seconds for finished time-ranked runs
   isHighScore: boolean;
   highScoreManager: HighScoreManager;
   uiManager: UIManager;
@@ -28,6 +30,7 @@ export function setupHighScoreForm(context: SetupHighScoreFormContext): void {
     score,
     lines,
     level,
+    time,
     isHighScore,
     highScoreManager,
     uiManager,
@@ -72,8 +75,17 @@ export function setupHighScoreForm(context: SetupHighScoreFormContext): void {
   const handleSave = (): void => {
     const playerName = nameInput.value.trim().toUpperCase() || 'AAA';
 
-    const saved = highScoreManager.addHighScore(mode, playerName, score, lines, level);
-    highScoreManager.saveLastAttempt(mode, playerName, score, lines, level);
+    const duration = time !== undefined ? formatPreciseTime(time) : undefined;
+    const saved = highScoreManager.addHighScore(
+      mode,
+      playerName,
+      score,
+      lines,
+      level,
+      duration,
+      time
+    );
+    highScoreManager.saveLastAttempt(mode, playerName, score, lines, level, time);
 
     if (!saved && isHighScore) {
       uiManager.showNotification('Failed to save high score', 'error', 3000);
@@ -86,10 +98,12 @@ export function setupHighScoreForm(context: SetupHighScoreFormContext): void {
     nameInput.blur();
 
     if (isHighScore) {
-      const modeKey = mode === GameMode.CLASSIC ? 'modes.classic' : 'modes.ultra';
-      const modeName = i18n.t(modeKey);
+      const modeName = i18n.t(getGameModeLabelKey(mode));
       uiManager.showNotification(
-        i18n.t('messages.newHighScore', { score: Math.round(score).toString(), mode: modeName }),
+        i18n.t('messages.newHighScore', {
+          score: duration ?? Math.round(score).toString(),
+          mode: modeName,
+        }),
         'success',
         3000
       );
@@ -108,6 +122,44 @@ export function setupHighScoreForm(context: SetupHighScoreFormContext): void {
   newSaveButton.addEventListener('click', handleSave);
 }
 
+export interface SetupReplayButtonsOptions {
+  onSaveReplay: () => void;
+  onWatchReplay: () => void;
+  onExportReplay: () => void;
+}
+
+/**
+ * Replaces a button with a fresh copy so listeners from the previous game are dropped.
+ */
+function resetButton(id: string): HTMLElement | null {
+  const button = document.getElementById(id);
+  if (!button) return null;
+
+  const newButton = button.cloneNode(true) as HTMLElement;
+  button.parentNode?.replaceChild(newButton, button);
+  return newButton;
+}
+
+/**
+ * Attaches the Save, Watch and Share Replay buttons in the game over modal.
+ * Saving is allowed once per game.
+ */
+export function setupReplayButtons(options: SetupReplayButtonsOptions): void {
+  const saveButton = resetButton('save-replay-button') as HTMLButtonElement | null;
+  const watchButton = resetButton('watch-replay-button');
+  const exportButton = resetButton('export-replay-button');
+
+  if (saveButton) {
+    saveButton.disabled = false;
+    saveButton.addEventListener('click', () => {
+      saveButton.disabled = true;
+      options.onSaveReplay();
+    });
+  }
+  watchButton?.addEventListener('click', options.onWatchReplay);
+  exportButton?.addEventListener('click', options.onExportReplay);
+}
+
 /**
  * Attaches the Play Again button in the game over modal.
  */
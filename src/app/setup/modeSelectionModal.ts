@@ -1,20 +1,68 @@
 /**
- * Mode selection modal: create DOM and wire Classic / Ultra buttons.
+ * Mode selection modal: create DOM and wire one button per game mode, plus Puzzle, Custom,
+ * saved replays, the AI demo and two-player versus.
  */
 
+import { GameMode } from '@/types/index';
+import {
+  getAllGameModes,
+  getGameModeConfig,
+  getGameModeDescriptionKey,
+  getGameModeLabelKey,
+  hasSelectableStartLevel,
+} from '@core/GameModes';
 import { i18n } from '@i18n/i18n';
 
 export interface CreateModeSelectionModalOptions {
   appVersion: string;
-  onClassic: () => void;
-  onUltra: () => void;
+  onSelectMode: (mode: GameMode, startLevel?: number) => void;
+  onShowReplays: () => void;
+  onShowDemo: () => void;
+  onShowVersus: () => void;
+}
+
+const MODE_ICONS: Record<GameMode, string> = {
+  [GameMode.CLASSIC]: 'mdi:gamepad-variant',
+  [GameMode.ULTRA]: 'mdi:lightning-bolt',
+  [GameMode.SPRINT]: 'mdi:run-fast',
+  [GameMode.MARATHON]: 'mdi:flag-checkered',
+  [GameMode.DIG]: 'mdi:shovel',
+  [GameMode.SURVIVAL]: 'mdi:arrow-up-bold-box',
+  [GameMode.PUZZLE]: 'mdi:puzzle',
+  [GameMode.CUSTOM]: 'mdi:tune-variant',
+};
+
+function renderModeButton(mode: GameMode): string {
+  return `
+        <button class="game-button mode-button" id="mode-${mode}" data-mode="${mode}">
+          <span class="mode-icon"><span class="iconify" data-icon="${MODE_ICONS[mode]}" data-width="24" aria-hidden="true"></span></span>
+          <span class="mode-title">${i18n.t(getGameModeLabelKey(mode))}</span>
+          <span class="mode-desc">${i18n.t(getGameModeDescriptionKey(mode))}</span>
+        </button>`;
+}
+
+function renderStartLevelPicker(mode: GameMode): string {
+  const { startLevel, maxStartLevel = startLevel } = getGameModeConfig(mode);
+  const levels = Array.from({ length: maxStartLevel + 1 }, (_, level) => level);
+  const options = levels
+    .map(
+      (level) =>
+        `<option value="${level}"${level === startLevel ? ' selected' : ''}>${level}</option>`
+    )
+    .join('');
+
+  return `
+        <label class="start-level-picker" for="start-level-${mode}">
+          <span>${i18n.t('modes.startLevel', { mode: i18n.t(getGameModeLabelKey(mode)) })}</span>
+          <select id="start-level-${mode}">${options}</select>
+        </label>`;
 }
 
 /**
  * Creates the mode selection modal, appends it to document.body, and wires close + mode buttons.
  */
 export function createModeSelectionModal(options: CreateModeSelectionModalOptions): void {
-  const { appVersion, onClassic, onUltra } = options;
+  const { appVersion, onSelectMode, onShowReplays, onShowDemo, onShowVersus } = options;
 
   const modal = document.createElement('div');
   modal.className = 'modal active';
@@ -32,16 +80,20 @@ export function createModeSelectionModal(options: CreateModeSelectionModalOption
         ${i18n.t('game.description')}
       </p>
       <h3 class="modal-section-title">${i18n.t('modes.selectMode')}</h3>
+      <div class="modal-buttons">${[...getAllGameModes(), GameMode.PUZZLE, GameMode.CUSTOM].map(renderModeButton).join('')}
+      </div>${getAllGameModes().filter(hasSelectableStartLevel).map(renderStartLevelPicker).join('')}
       <div class="modal-buttons">
-        <button class="game-button mode-button" id="mode-classic">
-          <span class="mode-icon"><span class="iconify" data-icon="mdi:gamepad-variant" data-width="24" aria-hidden="true"></span></span>
-          <span class="mode-title">${i18n.t('modes.classic')}</span>
-          <span class="mode-desc">${i18n.t('modes.classicDesc')}</span>
+        <button class="game-button" id="show-replays">
+          <span class="iconify" data-icon="mdi:play-box-multiple" data-width="18" aria-hidden="true"></span>
+          <span>${i18n.t('replays.title')}</span>
         </button>
-        <button class="game-button mode-button" id="mode-ultra">
-          <span class="mode-icon"><span class="iconify" data-icon="mdi:lightning-bolt" data-width="24" aria-hidden="true"></span></span>
-          <span class="mode-title">${i18n.t('modes.ultra')}</span>
-          <span class="mode-desc">${i18n.t('modes.ultraDesc')}</span>
+        <button class="game-button" id="show-demo">
+          <span class="iconify" data-icon="mdi:robot" data-width="18" aria-hidden="true"></span>
+          <span>${i18n.t('demo.title')}</span>
+        </button>
+        <button class="game-button" id="show-versus">
+          <span class="iconify" data-icon="mdi:account-multiple" data-width="18" aria-hidden="true"></span>
+          <span>${i18n.t('versus.title')}</span>
         </button>
       </div>
       <h3 class="modal-section-title">${i18n.t('controls.title')}</h3>
@@ -53,7 +105,15 @@ export function createModeSelectionModal(options: CreateModeSelectionModalOption
           </div>
           <div class="control-item">
             <span class="desc">${i18n.t('controls.rotate')}</span>
-            <span class="key">⬆️</span>
+            <span class="key">⬆️ / X</span>
+          </div>
+          <div class="control-item">
+            <span class="desc">${i18n.t('controls.rotateCCW')}</span>
+            <span class="key">Z</span>
+          </div>
+          <div class="control-item">
+            <span class="desc">${i18n.t('controls.rotate180')}</span>
+            <span class="key">A</span>
           </div>
           <div class="control-item">
             <span class="desc">${i18n.t('controls.softDrop')}</span>
@@ -92,15 +152,28 @@ export function createModeSelectionModal(options: CreateModeSelectionModalOption
     modal.style.display = 'none';
   });
 
-  const classicBtn = modal.querySelector('#mode-classic');
-  classicBtn?.addEventListener('click', () => {
+  modal.querySelectorAll<HTMLButtonElement>('.mode-button').forEach((button) => {
+    button.addEventListener('click', () => {
+      const mode = button.dataset.mode as GameMode;
+      const picker = modal.querySelector<HTMLSelectElement>(`#start-level-${mode}`);
+      const startLevel = picker ? Number(picker.value) : undefined;
+      modal.remove();
+      onSelectMode(mode, startLevel);
+    });
+  });
+
+  modal.querySelector('#show-replays')?.addEventListener('click', () => {
+    modal.remove();
+    onShowReplays();
+  });
+
+  modal.querySelector('#show-demo')?.addEventListener('click', () => {
     modal.remove();
-    onClassic();
+    onShowDemo();
   });
 
-  const ultraBtn = modal.querySelector('#mode-ultra');
-  ultraBtn?.addEventListener('click', () => {
+  modal.querySelector('#show-versus')?.addEventListener('click', () => {
     modal.remove();
-    onUltra();
+    onShowVersus();
   });
 }
@@ -0,0 +1,78 @@
+/**
+ * Puzzle selection modal: create DOM and wire one button per bundled puzzle.
+ */
+
+import { PuzzleGoalType, TSpinType } from '@/types/index';
+import type { PuzzleDefinition, PuzzleGoal } from '@/types/index';
+import { i18n } from '@i18n/i18n';
+
+export interface CreatePuzzleSelectionModalOptions {
+  puzzles: PuzzleDefinition[];
+  onSelectPuzzle: (puzzle: PuzzleDefinition) => void;
+  onBack: () => void;
+}
+
+function describeGoal(goal: PuzzleGoal): string {
+  const lines = String(goal.lines ?? 0);
+
+  switch (goal.type) {
+    case PuzzleGoalType.CLEAR_LINES:
+      return i18n.t('puzzles.goalClearLines', { lines });
+    case PuzzleGoalType.T_SPIN:
+      return goal.tSpin === TSpinType.MINI
+        ? i18n.t('puzzles.goalMiniTSpin', { lines })
+        : i18n.t('puzzles.goalTSpin', { lines });
+    case PuzzleGoalType.PERFECT_CLEAR:
+      return i18n.t('puzzles.goalPerfectClear');
+    default:
+      return '';
+  }
+}
+
+function renderPuzzleButton(puzzle: PuzzleDefinition, index: number): string {
+  return `
+        <button class="game-button mode-button" data-puzzle="${index}">
+          <span class="mode-icon"><span class="iconify" data-icon="mdi:puzzle" data-width="24" aria-hidden="true"></span></span>
+          <span class="mode-title">${i18n.t('puzzles.name', { number: String(index + 1) })}</span>
+          <span class="mode-desc">${describeGoal(puzzle.goal)} · ${i18n.t('puzzles.pieces', { count: String(puzzle.pieces.length) })}</span>
+        </button>`;
+}
+
+/**
+ * Creates the puzzle selection modal, appends it to document.body, and wires puzzle + back buttons.
+ */
+export function createPuzzleSelectionModal(options: CreatePuzzleSelectionModalOptions): void {
+  const { puzzles, onSelectPuzzle, onBack } = options;
+
+  const modal = document.createElement('div');
+  modal.className = 'modal active';
+  modal.id = 'puzzle-select-modal';
+
+  modal.innerHTML = `
+    <div class="modal-content start-modal">
+      <h2 class="modal-title">${i18n.t('modes.puzzle')}</h2>
+      <h3 class="modal-section-title">${i18n.t('puzzles.selectPuzzle')}</h3>
+      <div class="modal-buttons">${puzzles.map(renderPuzzleButton).join('')}
+      </div>
+      <div class="modal-buttons">
+        <button class="game-button" id="puzzle-back">${i18n.t('buttons.back')}</button>
+      </div>
+    </div>
+  `;
+
+  document.body.appendChild(modal);
+
+  modal.querySelectorAll<HTMLButtonElement>('[data-puzzle]').forEach((button) => {
+    button.addEventListener('click', () => {
+      const puzzle = puzzles[Number(button.dataset.puzzle)];
+      if (!puzzle) return;
+      modal.remove();
+      onSelectPuzzle(puzzle);
+    });
+  });
+
+  modal.querySelector('#puzzle-back')?.addEventListener('click', () => {
+    modal.remove();
+    onBack();
+  });
+}
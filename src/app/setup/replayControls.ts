@@ -0,0 +1,76 @@
+/**
+ * Replay controls: play/pause, single step, speed and exit buttons shown while a replay plays.
+ */
+
+import { REPLAY_SPEEDS } from '@constants/config';
+import type { ReplayPlayer } from '@core/Replay';
+import { i18n } from '@i18n/i18n';
+
+export interface CreateReplayControlsOptions {
+  player: ReplayPlayer;
+  onExit: () => void;
+}
+
+function renderSpeedOptions(selected: number): string {
+  return REPLAY_SPEEDS.map(
+    (speed) => `<option value="${speed}"${speed === selected ? ' selected' : ''}>${speed}×</option>`
+  ).join('');
+}
+
+/**
+ * Creates the replay control bar, appends it to document.body, and wires its buttons.
+ * Returns a function that removes the bar.
+ */
+export function createReplayControls(options: CreateReplayControlsOptions): () => void {
+  const { player, onExit } = options;
+
+  const bar = document.createElement('div');
+  bar.className = 'replay-controls';
+  bar.id = 'replay-controls';
+
+  bar.innerHTML = `
+    <span class="replay-controls-title">${i18n.t('replays.watching')}</span>
+    <button class="game-button" id="replay-toggle">${i18n.t('replays.pause')}</button>
+    <button class="game-button" id="replay-step">${i18n.t('replays.step')}</button>
+    <label for="replay-speed">
+      <span>${i18n.t('replays.speed')}</span>
+      <select id="replay-speed">${renderSpeedOptions(player.getSpeed())}</select>
+    </label>
+    <button class="game-button" id="replay-exit">${i18n.t('replays.exit')}</button>
+  `;
+
+  document.body.appendChild(bar);
+
+  const toggleButton = bar.querySelector<HTMLButtonElement>('#replay-toggle');
+  const syncToggle = (): void => {
+    if (toggleButton) {
+      toggleButton.textContent = i18n.t(player.isPaused() ? 'replays.play' : 'replays.pause');
+    }
+  };
+
+  toggleButton?.addEventListener('click', () => {
+    player.togglePause();
+    syncToggle();
+  });
+
+  // Stepping only makes sense frame by frame, so it pauses playback first
+  bar.querySelector('#replay-step')?.addEventListener('click', () => {
+    player.pause();
+    player.step();
+    syncToggle();
+  });
+
+  const speedSelect = bar.querySelector<HTMLSelectElement>('#replay-speed');
+  speedSelect?.addEventListener('change', () => {
+    player.setSpeed(Number(speedSelect.value));
+  });
+
+  const remove = (): void => bar.remove();
+
+  bar.querySelector('#replay-exit')?.addEventListener('click', () => {
+    remove();
+    onExit();
+  });
+
+  return remove;
+}
@@ -0,0 +1,84 @@
+/**
+ * Replay selection modal: create DOM and wire one play and one delete button per saved replay.
+ */
+
+import type { SavedReplay } from '@/types/index';
+import { getGameModeLabelKey } from '@core/GameModes';
+import { i18n } from '@i18n/i18n';
+
+export interface CreateReplaySelectionModalOptions {
+  replays: SavedReplay[];
+  onPlayReplay: (saved: SavedReplay) => void;
+  onDeleteReplay: (saved: SavedReplay) => void;
+  onBack: () => void;
+}
+
+function renderReplayButtons(saved: SavedReplay, index: number): string {
+  const details = i18n.t('replays.details', {
+    score: Math.round(saved.score).toString(),
+    lines: saved.lines.toString(),
+    date: new Date(saved.savedAt).toLocaleDateString(),
+  });
+
+  return `
+        <div class="replay-entry">
+          <button class="game-button mode-button" data-replay="${index}">
+            <span class="mode-icon"><span class="iconify" data-icon="mdi:play-circle" data-width="24" aria-hidden="true"></span></span>
+            <span class="mode-title">${i18n.t(getGameModeLabelKey(saved.replay.mode))}</span>
+            <span class="mode-desc">${details}</span>
+          </button>
+          <button class="game-button replay-delete" data-delete="${index}" aria-label="${i18n.t('replays.delete')}">&times;</button>
+        </div>`;
+}
+
+/**
+ * Creates the replay selection modal, appends it to document.body, and wires replay + back buttons.
+ */
+export function createReplaySelectionModal(options: CreateReplaySelectionModalOptions): void {
+  const { replays, onPlayReplay, onDeleteReplay, onBack } = options;
+
+  const modal = document.createElement('div');
+  modal.className = 'modal active';
+  modal.id = 'replay-select-modal';
+
+  const list =
+    replays.length > 0
+      ? replays.map(renderReplayButtons).join('')
+      : `<p class="modal-description">${i18n.t('replays.empty')}</p>`;
+
+  modal.innerHTML = `
+    <div class="modal-content start-modal">
+      <h2 class="modal-title">${i18n.t('replays.title')}</h2>
+      <div class="modal-buttons">${list}
+      </div>
+      <div class="modal-buttons">
+        <button class="game-button" id="replay-back">${i18n.t('buttons.back')}</button>
+      </div>
+    </div>
+  `;
+
+  document.body.appendChild(modal);
+
+  modal.querySelectorAll<HTMLButtonElement>('[data-replay]').forEach((button) => {
+    button.addEventListener('click', () => {
+      const saved = replays[Number(button.dataset.replay)];
+      if (!saved) return;
+      modal.remove();
+      onPlayReplay(saved);
+    });
+  });
+
+  modal.querySelectorAll<HTMLButtonElement>('[data-delete]').forEach((button) => {
+    button.addEventListener('click', () => {
+      const saved = replays[Number(button.dataset.delete)];
+      if (!saved) return;
+      button.closest('.replay-entry')?.remove();
+      onDeleteReplay(saved);
+    });
+  });
+
+  modal.querySelector('#replay-back')?.addEventListener('click', () => {
+    modal.remove();
+    onBack();
+  });
+}
@@ -0,0 +1,148 @@
+/**
+ * Replay transfer modals: export a replay as a JSON file, code or share link, and import one back.
+ */
+
+import type { Replay } from '@/types/index';
+import { REPLAY_URL_PARAM } from '@constants/config';
+import { encodeReplayCode, serializeReplay } from '@core/ReplayCodec';
+import { i18n } from '@i18n/i18n';
+
+export interface CreateReplayExportModalOptions {
+  replay: Replay;
+}
+
+export interface CreateReplayImportModalOptions {
+  /** Imports the pasted or loaded data; rejects with the reason when it is not a valid replay */
+  onImport: (data: string) => Promise<void>;
+}
+
+/**
+ * Get the share link that opens the given replay code
+ */
+export function getReplayShareLink(code: string): string {
+  return `${window.location.origin}${window.location.pathname}#${REPLAY_URL_PARAM}=${code}`;
+}
+
+/**
+ * Get the replay code from a share link hash, if there is one
+ */
+export function getReplayCodeFromHash(hash: string): string | null {
+  return new URLSearchParams(hash.replace(/^#/, '')).get(REPLAY_URL_PARAM);
+}
+
+function downloadReplay(replay: Replay): void {
+  const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `tetris-replay-${replay.mode}-${replay.seed}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Creates the replay export modal, appends it to document.body, and wires copy, download and close.
+ */
+export function createReplayExportModal(options: CreateReplayExportModalOptions): void {
+  const { replay } = options;
+  let link = '';
+
+  const modal = document.createElement('div');
+  modal.className = 'modal active';
+  modal.id = 'replay-export-modal';
+
+  modal.innerHTML = `
+    <div class="modal-content start-modal">
+      <h2 class="modal-title">${i18n.t('replays.exportTitle')}</h2>
+      <p class="modal-description">${i18n.t('replays.exportDescription')}</p>
+      <textarea class="replay-transfer-data" id="replay-export-link" rows="4" readonly></textarea>
+      <div class="modal-buttons">
+        <button class="game-button" id="replay-copy-link">${i18n.t('replays.copyLink')}</button>
+        <button class="game-button" id="replay-download">${i18n.t('replays.download')}</button>
+        <button class="game-button" id="replay-export-close">${i18n.t('buttons.close')}</button>
+      </div>
+    </div>
+  `;
+
+  document.body.appendChild(modal);
+
+  const linkField = modal.querySelector<HTMLTextAreaElement>('#replay-export-link');
+  encodeReplayCode(replay)
+    .then((code) => {
+      link = getReplayShareLink(code);
+      if (linkField) linkField.value = link;
+    })
+    .catch((error: unknown) => console.warn('Failed to encode replay:', error));
+
+  const copyButton = modal.querySelector<HTMLButtonElement>('#replay-copy-link');
+  copyButton?.addEventListener('click', () => {
+    if (!link) return;
+    linkField?.select();
+    navigator.clipboard
+      ?.writeText(link)
+      .then(() => {
+        copyButton.textContent = i18n.t('replays.copied');
+      })
+      .catch((error: unknown) => console.warn('Failed to copy replay link:', error));
+  });
+
+  modal.querySelector('#replay-download')?.addEventListener('click', () => downloadReplay(replay));
+  modal.querySelector('#replay-export-close')?.addEventListener('click', () => modal.remove());
+}
+
+/**
+ * Creates the replay import modal, appends it to document.body, and wires file, import and close.
+ * Invalid data keeps the modal open and shows why it was rejected.
+ */
+export function createReplayImportModal(options: CreateReplayImportModalOptions): void {
+  const { onImport } = options;
+
+  const modal = document.createElement('div');
+  modal.className = 'modal active';
+  modal.id = 'replay-import-modal';
+
+  modal.innerHTML = `
+    <div class="modal-content start-modal">
+      <h2 class="modal-title">${i18n.t('replays.importTitle')}</h2>
+      <p class="modal-description">${i18n.t('replays.importDescription')}</p>
+      <textarea class="replay-transfer-data" id="replay-import-data" rows="6"></textarea>
+      <input type="file" id="replay-import-file" accept=".json,application/json">
+      <p class="replay-transfer-error" id="replay-import-error" role="alert"></p>
+      <div class="modal-buttons">
+        <button class="game-button" id="replay-import-cancel">${i18n.t('buttons.cancel')}</button>
+        <button class="game-button" id="replay-import-confirm">${i18n.t('replays.import')}</button>
+      </div>
+    </div>
+  `;
+
+  document.body.appendChild(modal);
+
+  const dataField = modal.querySelector<HTMLTextAreaElement>('#replay-import-data');
+  const errorText = modal.querySelector<HTMLElement>('#replay-import-error');
+
+  const fileInput = modal.querySelector<HTMLInputElement>('#replay-import-file');
+  fileInput?.addEventListener('change', () => {
+    const file = fileInput.files?.[0];
+    if (!file || !dataField) return;
+    file
+      .text()
+      .then((text) => {
+        dataField.value = text;
+      })
+      .catch((error: unknown) => console.warn('Failed to read replay file:', error));
+  });
+
+  modal.querySelector('#replay-import-confirm')?.addEventListener('click', () => {
+    onImport(dataField?.value ?? '')
+      .then(() => modal.remove())
+      .catch((error: unknown) => {
+        if (errorText) {
+          errorText.textContent = i18n.t('replays.importFailed', {
+            reason: error instanceof Error ? error.message : String(error),
+          });
+        }
+      });
+  });
+
+  modal.querySelector('#replay-import-cancel')?.addEventListener('click', () => modal.remove());
+}
@@ -1,11 +1,13 @@
 /**
- * Settings UI: toggles (music, sound, colorblind) and modal chrome
- * (mode selection button, score mode toggle, clear scores, pause modal).
+ * Settings UI: toggles (music, sound, colorblind, finesse trainer, hints) and modal chrome
+ * (mode selection button, replay import, score mode toggle, clear scores, pause modal).
  * All wiring is done via a single context to keep main.ts thin.
  */
 
 import type { BoardGrid, Tetromino } from '@/types/index';
-import { GameMode } from '@/types/index';
+import type { GameMode } from '@/types/index';
+import { STORAGE_KEYS } from '@constants/config';
+import { getAllGameModes, getGameModeLabelKey } from '@core/GameModes';
 import { i18n } from '@i18n/i18n';
 import type { AnimationEngine } from '@rendering/AnimationEngine';
 import type { CanvasRenderer } from '@rendering/CanvasRenderer';
@@ -18,7 +20,7 @@ import type { UIManager } from '@ui/UIManager';
 export interface GameStateSnapshot {
   board: BoardGrid;
   currentPiece: Tetromino | null;
-  nextPiece: Tetromino | null;
+  nextPieces: Tetromino[];
   holdPiece: Tetromino | null;
   ghostPiece: Tetromino | null;
 }
@@ -37,14 +39,23 @@ export interface SettingsUIContext {
   getCurrentMode: () => GameMode;
   restart: (mode: GameMode) => void;
   togglePause: () => void;
+  /** Called with the saved finesse mode on setup, then whenever it is toggled. */
+  setFinesseMode: (enabled: boolean) => void;
+  /** Called with the saved hint setting on setup, then whenever it is toggled. */
+  setHintMode: (enabled: boolean) => void;
   /** Called when user clicks "change mode" (stop game, hide modals, stop music, reload). */
   onModeSelectionClick: () => void;
+  /** Called when user clicks the replay import button. */
+  onImportReplay: () => void;
 }
 
 export function setupSettingsUI(ctx: SettingsUIContext): void {
   setupMusicToggle(ctx);
   setupColorblindModeToggle(ctx);
+  setupFinesseModeToggle(ctx);
+  setupHintModeToggle(ctx);
   setupModeSelectionButton(ctx);
+  setupReplayImportButton(ctx);
   setupScoreModeToggle(ctx);
   setupClearScoresButton(ctx);
   setupClearScoresModal(ctx);
@@ -146,9 +157,9 @@ function setupColorblindModeToggle(ctx: SettingsUIContext): void {
     const snapshot = getGameStateSnapshot();
     if (snapshot) {
       renderer.render(snapshot.board, snapshot.currentPiece, snapshot.ghostPiece);
-      if (snapshot.nextPiece) {
+      if (snapshot.nextPieces.length > 0) {
         const nextCanvas = document.getElementById('next-canvas') as HTMLCanvasElement;
-        if (nextCanvas) renderer.drawPreviewPiece(snapshot.nextPiece, nextCanvas);
+        if (nextCanvas) renderer.drawPreviewQueue(snapshot.nextPieces, nextCanvas);
       }
       if (snapshot.holdPiece) {
         const holdCanvas = document.getElementById('hold-canvas') as HTMLCanvasElement;
@@ -158,6 +169,68 @@ function setupColorblindModeToggle(ctx: SettingsUIContext): void {
   });
 }
 
+interface StoredToggleOptions {
+  buttonId: string;
+  storageKey: string;
+  /** i18n section with `enabled` and `disabled` notices */
+  messages: string;
+  onChange: (enabled: boolean) => void;
+}
+
+/**
+ * On/off header button whose state is kept in localStorage; onChange runs on setup and each click
+ */
+function setupStoredToggle(ctx: SettingsUIContext, options: StoredToggleOptions): void {
+  const { buttonId, storageKey, messages, onChange } = options;
+  const button = document.getElementById(buttonId);
+  if (!button) return;
+
+  let enabled = localStorage.getItem(storageKey) === 'true';
+
+  const updateButton = (): void => {
+    button.classList.toggle('active', enabled);
+    button.classList.toggle('muted', !enabled);
+  };
+
+  updateButton();
+  onChange(enabled);
+
+  button.addEventListener('click', () => {
+    enabled = !enabled;
+    updateButton();
+    onChange(enabled);
+    ctx.uiManager.showNotification(
+      i18n.t(`${messages}.${enabled ? 'enabled' : 'disabled'}`),
+      'info',
+      1500
+    );
+
+    try {
+      localStorage.setItem(storageKey, enabled.toString());
+    } catch {
+      // ignore
+    }
+  });
+}
+
+function setupFinesseModeToggle(ctx: SettingsUIContext): void {
+  setupStoredToggle(ctx, {
+    buttonId: 'finesse-toggle',
+    storageKey: STORAGE_KEYS.FINESSE_MODE,
+    messages: 'finesse',
+    onChange: ctx.setFinesseMode,
+  });
+}
+
+function setupHintModeToggle(ctx: SettingsUIContext): void {
+  setupStoredToggle(ctx, {
+    buttonId: 'hint-toggle',
+    storageKey: STORAGE_KEYS.HINT_MODE,
+    messages: 'hints',
+    onChange: ctx.setHintMode,
+  });
+}
+
 function setupModeSelectionButton(ctx: SettingsUIContext): void {
   const button = document.getElementById('show-mode-selection-button');
   if (button) {
@@ -169,12 +242,20 @@ function setupModeSelectionButton(ctx: SettingsUIContext): void {
   }
 }
 
+function setupReplayImportButton(ctx: SettingsUIContext): void {
+  const button = document.getElementById('replay-import-button');
+  if (button) {
+    button.addEventListener('click', () => ctx.onImportReplay());
+  }
+}
+
 function setupScoreModeToggle(ctx: SettingsUIContext): void {
   const toggleButton = document.getElementById('highscores-mode-toggle');
   if (toggleButton) {
     toggleButton.addEventListener('click', () => {
-      const next =
-        ctx.getDisplayedScoreMode() === GameMode.CLASSIC ? GameMode.ULTRA : GameMode.CLASSIC;
+      const modes = getAllGameModes();
+      const next = modes[(modes.indexOf(ctx.getDisplayedScoreMode()) + 1) % modes.length];
+      if (!next) return;
       ctx.setDisplayedScoreMode(next);
       ctx.updateHighScoresDisplay(next);
     });
@@ -186,7 +267,7 @@ function setupClearScoresButton(ctx: SettingsUIContext): void {
   if (clearButton) {
     clearButton.addEventListener('click', () => {
       const mode = ctx.getDisplayedScoreMode();
-      const modeLabel = mode === GameMode.CLASSIC ? i18n.t('modes.classic') : i18n.t('modes.ultra');
+      const modeLabel = i18n.t(getGameModeLabelKey(mode));
       const messageElement = document.getElementById('clear-scores-message');
       if (messageElement) {
         messageElement.textContent = i18n.t('messages.confirmClearScoresDescription', {
@@ -205,7 +286,7 @@ function setupClearScoresModal(ctx: SettingsUIContext): void {
   if (confirmButton) {
     confirmButton.addEventListener('click', () => {
       const mode = getDisplayedScoreMode();
-      const modeLabel = mode === GameMode.CLASSIC ? i18n.t('modes.classic') : i18n.t('modes.ultra');
+      const modeLabel = i18n.t(getGameModeLabelKey(mode));
       highScoreManager.clearHighScores(mode);
       updateHighScoresDisplay(mode);
       uiManager.hideModal('clear-scores-modal');
@@ -0,0 +1,166 @@
+/**
+ * Versus screen: two boards side by side, each with its canvas, hold/next previews, stats and keys.
+ */
+
+import type { ControlsConfig } from '@/types/index';
+import { VERSUS_CONTROLS } from '@constants/config';
+import { i18n } from '@i18n/i18n';
+
+export interface VersusPlayerView {
+  canvas: HTMLCanvasElement;
+  holdCanvas: HTMLCanvasElement;
+  nextCanvas: HTMLCanvasElement;
+  score: HTMLElement;
+  lines: HTMLElement;
+  level: HTMLElement;
+  garbage: HTMLElement;
+}
+
+export interface VersusPlayerStats {
+  score: number;
+  lines: number;
+  level: number;
+  garbage: number;
+}
+
+export interface VersusScreen {
+  views: [VersusPlayerView, VersusPlayerView];
+  setPaused: (paused: boolean) => void;
+  remove: () => void;
+}
+
+export interface CreateVersusScreenOptions {
+  onExit: () => void;
+}
+
+const KEY_LABELS: Record<string, string> = {
+  ' ': 'controls.keySpace',
+  Enter: 'controls.keyEnter',
+  Escape: 'controls.keyEsc',
+};
+
+const ARROWS: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+};
+
+function formatKey(key: string): string {
+  const labelKey = KEY_LABELS[key];
+  if (labelKey) return i18n.t(labelKey);
+  return ARROWS[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+}
+
+function renderKeys(controls: ControlsConfig): string {
+  const rows: Array<[string, string[]]> = [
+    ['controls.move', [...controls.moveLeft.slice(0, 1), ...controls.moveRight.slice(0, 1)]],
+    ['controls.softDrop', controls.moveDown.slice(0, 1)],
+    [
+      'controls.rotate',
+      [controls.rotate, controls.rotateCCW, controls.rotate180].flatMap((keys) => keys.slice(0, 1)),
+    ],
+    ['controls.hardDrop', controls.hardDrop.slice(0, 1)],
+    ['controls.hold', controls.hold.slice(0, 1)],
+  ];
+
+  return rows
+    .filter(([, keys]) => keys.length > 0)
+    .map(
+      ([label, keys]) =>
+        `<span class="versus-key"><span class="desc">${i18n.t(label)}</span> <kbd>${keys.map(formatKey).join(' ')}</kbd></span>`
+    )
+    .join('');
+}
+
+function renderPlayer(index: number): string {
+  const controls = VERSUS_CONTROLS[index];
+
+  return `
+      <section class="versus-player" data-player="${index}">
+        <h3 class="versus-player-name">${i18n.t('versus.player', { number: index + 1 })}</h3>
+        <div class="versus-field">
+          <div class="versus-previews">
+            <span class="stat-label">${i18n.t('stats.holdPiece')}</span>
+            <canvas class="versus-hold" width="80" height="80"></canvas>
+            <span class="stat-label">${i18n.t('stats.nextPiece')}</span>
+            <canvas class="versus-next" width="80" height="240"></canvas>
+          </div>
+          <div class="versus-canvas-container">
+            <canvas class="versus-board" width="300" height="600"></canvas>
+          </div>
+        </div>
+        <dl class="versus-stats">
+          <dt>${i18n.t('stats.score')}</dt><dd class="versus-score">0</dd>
+          <dt>${i18n.t('stats.lines')}</dt><dd class="versus-lines">0</dd>
+          <dt>${i18n.t('stats.level')}</dt><dd class="versus-level">0</dd>
+          <dt>${i18n.t('versus.garbage')}</dt><dd class="versus-garbage">0</dd>
+        </dl>
+        <div class="versus-keys">${controls ? renderKeys(controls) : ''}</div>
+      </section>`;
+}
+
+function getPlayerView(screen: HTMLElement, index: number): VersusPlayerView {
+  const section = screen.querySelector<HTMLElement>(`[data-player="${index}"]`);
+  const find = <T extends HTMLElement>(selector: string): T => {
+    const element = section?.querySelector<T>(selector);
+    if (!element) {
+      throw new Error(`Versus screen is missing ${selector}`);
+    }
+    return element;
+  };
+
+  return {
+    canvas: find<HTMLCanvasElement>('.versus-board'),
+    holdCanvas: find<HTMLCanvasElement>('.versus-hold'),
+    nextCanvas: find<HTMLCanvasElement>('.versus-next'),
+    score: find('.versus-score'),
+    lines: find('.versus-lines'),
+    level: find('.versus-level'),
+    garbage: find('.versus-garbage'),
+  };
+}
+
+/**
+ * Show a player's stats, flagging the garbage count while rows are waiting to rise
+ */
+export function renderVersusStats(view: VersusPlayerView, stats: VersusPlayerStats): void {
+  view.score.textContent = Math.round(stats.score).toString();
+  view.lines.textContent = stats.lines.toString();
+  view.level.textContent = stats.level.toString();
+  view.garbage.textContent = stats.garbage.toString();
+  view.garbage.classList.toggle('incoming', stats.garbage > 0);
+}
+
+/**
+ * Creates the versus screen over the page, appends it to document.body, and wires its exit button.
+ */
+export function createVersusScreen(options: CreateVersusScreenOptions): VersusScreen {
+  const { onExit } = options;
+
+  const screen = document.createElement('div');
+  screen.className = 'versus-screen';
+  screen.id = 'versus-screen';
+
+  screen.innerHTML = `
+    <div class="versus-header">
+      <h2 class="versus-title">${i18n.t('versus.title')}</h2>
+      <span class="versus-paused">${i18n.t('messages.paused')}</span>
+      <button class="game-button" id="versus-exit">${i18n.t('versus.exit')}</button>
+    </div>
+    <div class="versus-boards">${renderPlayer(0)}${renderPlayer(1)}
+    </div>
+  `;
+
+  document.body.appendChild(screen);
+
+  screen.querySelector('#versus-exit')?.addEventListener('click', () => onExit());
+
+  return {
+    views: [getPlayerView(screen, 0), getPlayerView(screen, 1)],
+    setPaused: (paused: boolean): void => {
+      screen.classList.toggle('paused', paused);
+    },
+    remove: (): void => screen.remove(),
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * Versus winner modal: announce the winner with both players' results, then offer a rematch or exit.
+ */
+
+import { i18n } from '@i18n/i18n';
+import type { VersusPlayerStats } from './versusScreen';
+
+export interface CreateVersusWinnerModalOptions {
+  winner: number;
+  results: [VersusPlayerStats, VersusPlayerStats];
+  onRematch: () => void;
+  onExit: () => void;
+}
+
+function renderResult(stats: VersusPlayerStats, index: number, winner: number): string {
+  return `
+        <div class="stat-card${index === winner ? ' stat-card-primary' : ''}">
+          <div class="stat-label">${i18n.t('versus.player', { number: index + 1 })}</div>
+          <div class="stat-value">${Math.round(stats.score)}</div>
+          <div class="stat-label">${i18n.t('versus.result', { lines: stats.lines })}</div>
+        </div>`;
+}
+
+/**
+ * Creates the winner modal, appends it to document.body, and wires rematch + exit buttons.
+ */
+export function createVersusWinnerModal(options: CreateVersusWinnerModalOptions): void {
+  const { winner, results, onRematch, onExit } = options;
+
+  const modal = document.createElement('div');
+  modal.className = 'modal active';
+  modal.id = 'versus-winner-modal';
+
+  modal.innerHTML = `
+    <div class="modal-content">
+      <h2 class="modal-title">${i18n.t('versus.winner', { number: winner + 1 })}</h2>
+      <div class="game-over-stats-grid">${results.map((stats, index) => renderResult(stats, index, winner)).join('')}
+      </div>
+      <div class="modal-buttons">
+        <button class="game-button" id="versus-rematch">${i18n.t('versus.rematch')}</button>
+        <button class="game-button" id="versus-winner-exit">${i18n.t('versus.exit')}</button>
+      </div>
+    </div>
+  `;
+
+  document.body.appendChild(modal);
+
+  modal.querySelector('#versus-rematch')?.addEventListener('click', () => {
+    modal.remove();
+    onRematch();
+  });
+
+  modal.querySelector('#versus-winner-exit')?.addEventListener('click', () => {
+    modal.remove();
+    onExit();
+  });
+}
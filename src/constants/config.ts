@@ -2,8 +2,15 @@
  * Game configuration constants
  */
 
-import type { ControlsConfig, GameModeConfig } from '@/types/index';
-import { GameMode } from '@/types/index';
+import type { AIWeights, ControlsConfig, CustomModeSettings, GameModeConfig } from '@/types/index';
+import {
+  GameMode,
+  GoalType,
+  RandomizerType,
+  RankingMetric,
+  SpeedCurvePreset,
+  TSpinType,
+} from '@/types/index';
 import packageJson from '../../package.json';
 
 // Input action type for debounce configuration
@@ -12,6 +19,8 @@ type InputAction =
   | 'moveRight'
   | 'moveDown'
   | 'rotate'
+  | 'rotateCCW'
+  | 'rotate180'
   | 'hardDrop'
   | 'hold'
   | 'pause'
@@ -27,10 +36,13 @@ export const REPO_RELEASES_URL = 'https://github.com/KevOneRedOne/Simplistic-Tet
 // Board dimensions
 export const BOARD_ROWS = 20;
 export const BOARD_COLS = 10;
+export const BOARD_BUFFER_ROWS = 20; // hidden rows stacked above the visible field
+export const BOARD_PEEK_ROWS = 1; // buffer rows drawn above the visible field
 export const CELL_SIZE = 40; // pixels
 
 // Colors
 export const VACANT_COLOR = 'black';
+export const GARBAGE_COLOR = '#6b6b6b'; // marks garbage cells, never used by a tetromino
 
 export const TETROMINO_COLORS = {
   I: '#00f0f0', // cyan
@@ -73,6 +85,17 @@ export const LEVEL_SPEEDS: Record<number, number> = {
   25: 100, // Cap at 100ms for maximum playability
 };
 
+// Gravity presets for the custom mode builder
+export const SPEED_CURVES: Record<SpeedCurvePreset, Record<number, number>> = {
+  [SpeedCurvePreset.RELAXED]: Object.fromEntries(
+    Object.entries(LEVEL_SPEEDS).map(([level, speed]) => [level, speed * 2])
+  ),
+  [SpeedCurvePreset.STANDARD]: LEVEL_SPEEDS,
+  [SpeedCurvePreset.FAST]: Object.fromEntries(
+    Object.entries(LEVEL_SPEEDS).map(([level, speed]) => [level, Math.round(speed / 3)])
+  ),
+};
+
 // Scoring
 export const SCORE_BASE = 40;
 export const SCORE_MULTIPLIERS = {
@@ -82,22 +105,203 @@ export const SCORE_MULTIPLIERS = {
   4: 8, // tetris
 };
 
+// T-spin multipliers by lines cleared, on the same SCORE_BASE scale
+export const T_SPIN_MULTIPLIERS: Record<TSpinType.FULL | TSpinType.MINI, Record<number, number>> = {
+  [TSpinType.FULL]: {
+    0: 4, // t-spin
+    1: 8, // t-spin single
+    2: 12, // t-spin double
+    3: 16, // t-spin triple
+  },
+  [TSpinType.MINI]: {
+    0: 1, // mini t-spin
+    1: 2, // mini t-spin single
+    2: 4, // mini t-spin double
+  },
+};
+
+// Consecutive difficult clears (tetrises and t-spins) earn half again their line score
+export const BACK_TO_BACK_MULTIPLIER = 1.5;
+// Points per combo step, multiplied by level + 1
+export const COMBO_BONUS = 50;
+// Perfect clear bonus by lines cleared, multiplied by level + 1
+export const PERFECT_CLEAR_BONUSES: Record<number, number> = {
+  1: 800,
+  2: 1200,
+  3: 1800,
+  4: 2000,
+};
+
 export const LINES_PER_LEVEL = 4;
+
+// First level-up in modes that follow the NES start-level rule
+export const FIRST_LEVEL_UP_MIN_LINES = 100;
+export const FIRST_LEVEL_UP_LINES_OFFSET = 50;
+
+// Next queue
+export const DEFAULT_PREVIEW_COUNT = 3;
+export const MIN_PREVIEW_COUNT = 1;
+export const MAX_PREVIEW_COUNT = 6;
+
+// Lock delay
+export const LOCK_DELAY = 500; // ms
+export const MAX_LOCK_RESETS = 15;
+
+// Sprint
+export const SPRINT_LINE_GOAL = 40;
+export const SPRINT_SPLIT_LINES = 10; // a split time is recorded every 10 lines
+
+// Marathon
+export const MARATHON_LINE_GOAL = 150;
+export const MARATHON_LINES_PER_LEVEL = 10;
+export const MARATHON_MAX_START_LEVEL = 20;
+
+// Dig
+export const DIG_GARBAGE_ROWS = 10;
+
+// Survival
+export const SURVIVAL_GARBAGE_INTERVAL = 10000; // ms between rising rows at level 0
+export const GARBAGE_INTERVAL_STEP = 500; // ms removed per level
+export const MIN_GARBAGE_INTERVAL = 2000;
+export const GARBAGE_WARNING_TIME = 1500; // ms of notice before a row rises
 export const MAX_LEVEL = 25;
 
+// Versus: garbage lines sent by a clear (guideline attack table)
+export const VERSUS_LINE_ATTACK = [0, 0, 1, 2, 4]; // by lines cleared
+export const VERSUS_TSPIN_ATTACK = [0, 2, 4, 6];
+export const VERSUS_MINI_TSPIN_ATTACK = [0, 0, 1];
+export const VERSUS_COMBO_ATTACK = [0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 4, 5]; // by combo count, last repeats
+export const VERSUS_BACK_TO_BACK_BONUS = 1;
+export const VERSUS_PERFECT_CLEAR_ATTACK = 10;
+
+// Custom mode builder limits
+export const CUSTOM_MIN_BOARD_WIDTH = 4;
+export const CUSTOM_MAX_BOARD_WIDTH = 20;
+export const CUSTOM_MIN_BOARD_HEIGHT = 10;
+export const CUSTOM_MAX_BOARD_HEIGHT = 40;
+export const CUSTOM_MAX_TIME_LIMIT = 3600; // seconds
+export const CUSTOM_MAX_LINE_GOAL = 999;
+export const MAX_CUSTOM_PRESETS = 10;
+export const CUSTOM_PRESET_NAME_MAX_LENGTH = 20;
+
+export const DEFAULT_CUSTOM_MODE_SETTINGS: CustomModeSettings = {
+  boardWidth: BOARD_COLS,
+  boardHeight: BOARD_ROWS,
+  startLevel: 0,
+  speedCurve: SpeedCurvePreset.STANDARD,
+  timeLimit: 0,
+  lineGoal: 0,
+  previewCount: DEFAULT_PREVIEW_COUNT,
+  holdEnabled: true,
+  ghostEnabled: true,
+  randomizer: RandomizerType.BAG,
+};
+
 // Game modes
 export const GAME_MODE_CONFIGS: Record<GameMode, GameModeConfig> = {
   [GameMode.CLASSIC]: {
     mode: GameMode.CLASSIC,
+    goalType: GoalType.NONE,
+    rankBy: RankingMetric.SCORE,
     timeLimit: undefined, // infinite
     startLevel: 0,
+    linesPerLevel: LINES_PER_LEVEL,
     speedCurve: LEVEL_SPEEDS,
+    previewCount: DEFAULT_PREVIEW_COUNT,
+    lockDelay: LOCK_DELAY,
+    maxLockResets: MAX_LOCK_RESETS,
   },
   [GameMode.ULTRA]: {
     mode: GameMode.ULTRA,
+    goalType: GoalType.TIME_LIMIT,
+    rankBy: RankingMetric.SCORE,
     timeLimit: 120, // 2 minutes
     startLevel: 0,
+    linesPerLevel: LINES_PER_LEVEL,
+    speedCurve: LEVEL_SPEEDS,
+    previewCount: DEFAULT_PREVIEW_COUNT,
+    lockDelay: LOCK_DELAY,
+    maxLockResets: MAX_LOCK_RESETS,
+  },
+  [GameMode.SPRINT]: {
+    mode: GameMode.SPRINT,
+    goalType: GoalType.LINES,
+    rankBy: RankingMetric.TIME,
+    timeLimit: undefined,
+    lineGoal: SPRINT_LINE_GOAL,
+    splitLines: SPRINT_SPLIT_LINES,
+    startLevel: 0,
+    linesPerLevel: LINES_PER_LEVEL,
     speedCurve: LEVEL_SPEEDS,
+    previewCount: DEFAULT_PREVIEW_COUNT,
+    lockDelay: LOCK_DELAY,
+    maxLockResets: MAX_LOCK_RESETS,
+  },
+  [GameMode.MARATHON]: {
+    mode: GameMode.MARATHON,
+    goalType: GoalType.LINES,
+    rankBy: RankingMetric.SCORE,
+    timeLimit: undefined,
+    lineGoal: MARATHON_LINE_GOAL,
+    startLevel: 0,
+    maxStartLevel: MARATHON_MAX_START_LEVEL,
+    linesPerLevel: MARATHON_LINES_PER_LEVEL,
+    nesLevelUp: true,
+    speedCurve: LEVEL_SPEEDS,
+    previewCount: DEFAULT_PREVIEW_COUNT,
+    lockDelay: LOCK_DELAY,
+    maxLockResets: MAX_LOCK_RESETS,
+  },
+  [GameMode.DIG]: {
+    mode: GameMode.DIG,
+    goalType: GoalType.CLEAR_GARBAGE,
+    rankBy: RankingMetric.TIME,
+    timeLimit: undefined,
+    garbageRows: DIG_GARBAGE_ROWS,
+    startLevel: 0,
+    linesPerLevel: LINES_PER_LEVEL,
+    speedCurve: LEVEL_SPEEDS,
+    previewCount: DEFAULT_PREVIEW_COUNT,
+    lockDelay: LOCK_DELAY,
+    maxLockResets: MAX_LOCK_RESETS,
+  },
+  [GameMode.SURVIVAL]: {
+    mode: GameMode.SURVIVAL,
+    goalType: GoalType.NONE,
+    rankBy: RankingMetric.SCORE,
+    timeLimit: undefined,
+    garbageInterval: SURVIVAL_GARBAGE_INTERVAL,
+    startLevel: 0,
+    linesPerLevel: LINES_PER_LEVEL,
+    speedCurve: LEVEL_SPEEDS,
+    previewCount: DEFAULT_PREVIEW_COUNT,
+    lockDelay: LOCK_DELAY,
+    maxLockResets: MAX_LOCK_RESETS,
+  },
+  // Stand-in until a config is built in the custom mode builder
+  [GameMode.CUSTOM]: {
+    mode: GameMode.CUSTOM,
+    goalType: GoalType.NONE,
+    rankBy: RankingMetric.SCORE,
+    timeLimit: undefined,
+    startLevel: 0,
+    linesPerLevel: LINES_PER_LEVEL,
+    speedCurve: LEVEL_SPEEDS,
+    previewCount: DEFAULT_PREVIEW_COUNT,
+    lockDelay: LOCK_DELAY,
+    maxLockResets: MAX_LOCK_RESETS,
+  },
+  [GameMode.PUZZLE]: {
+    mode: GameMode.PUZZLE,
+    goalType: GoalType.PUZZLE,
+    rankBy: RankingMetric.SCORE,
+    timeLimit: undefined,
+    startLevel: 0,
+    linesPerLevel: LINES_PER_LEVEL,
+    speedCurve: LEVEL_SPEEDS,
+    previewCount: DEFAULT_PREVIEW_COUNT,
+    lockDelay: LOCK_DELAY,
+    maxLockResets: MAX_LOCK_RESETS,
   },
 };
 
@@ -109,7 +313,9 @@ export const DEFAULT_CONTROLS: ControlsConfig = {
   moveLeft: ['ArrowLeft', 'q', 'Q'],
   moveRight: ['ArrowRight', 'd', 'D'],
   moveDown: ['ArrowDown'],
-  rotate: ['ArrowUp'],
+  rotate: ['ArrowUp', 'x', 'X'],
+  rotateCCW: ['z', 'Z'],
+  rotate180: ['a', 'A'],
   hardDrop: [' '], // space
   hold: ['Shift'],
   pause: ['Escape', 'p', 'P'],
@@ -117,6 +323,37 @@ export const DEFAULT_CONTROLS: ControlsConfig = {
   quit: ['Tab'], // Universal key compatible with all keyboard layouts
 };
 
+// Versus controls: player 1 on the left of the keyboard, player 2 on the arrows
+// Escape or P pauses both players
+export const VERSUS_CONTROLS: readonly [ControlsConfig, ControlsConfig] = [
+  {
+    moveLeft: ['a', 'A'],
+    moveRight: ['d', 'D'],
+    moveDown: ['s', 'S'],
+    rotate: ['w', 'W'],
+    rotateCCW: ['q', 'Q'],
+    rotate180: ['e', 'E'],
+    hardDrop: [' '],
+    hold: ['c', 'C'],
+    pause: ['Escape', 'p', 'P'],
+    restart: [],
+    quit: [],
+  },
+  {
+    moveLeft: ['ArrowLeft'],
+    moveRight: ['ArrowRight'],
+    moveDown: ['ArrowDown'],
+    rotate: ['ArrowUp'],
+    rotateCCW: ['/'],
+    rotate180: [],
+    hardDrop: ['Enter'],
+    hold: ['.'],
+    pause: [],
+    restart: [],
+    quit: [],
+  },
+];
+
 // High scores
 export const MAX_HIGH_SCORES = 10;
 export const PLAYER_NAME_MAX_LENGTH = 3;
@@ -127,6 +364,7 @@ export const ANIMATION_DURATIONS = {
   PIECE_LOCK: 100,
   GAME_OVER: 1000,
   LEVEL_UP: 500,
+  PERFECT_CLEAR: 1500,
   FADE_IN: 200,
   FADE_OUT: 200,
 };
@@ -153,9 +391,21 @@ export const DEFAULT_AUDIO_SETTINGS = {
 export const STORAGE_KEYS = {
   HIGH_SCORES_CLASSIC: 'tetris_v2_highscores_classic',
   HIGH_SCORES_ULTRA: 'tetris_v2_highscores_ultra',
+  HIGH_SCORES_SPRINT: 'tetris_v2_highscores_sprint',
+  HIGH_SCORES_MARATHON: 'tetris_v2_highscores_marathon',
+  HIGH_SCORES_DIG: 'tetris_v2_highscores_dig',
+  HIGH_SCORES_SURVIVAL: 'tetris_v2_highscores_survival',
   LAST_ATTEMPT_CLASSIC: 'tetris_v2_last_attempt_classic',
   LAST_ATTEMPT_ULTRA: 'tetris_v2_last_attempt_ultra',
+  LAST_ATTEMPT_SPRINT: 'tetris_v2_last_attempt_sprint',
+  LAST_ATTEMPT_MARATHON: 'tetris_v2_last_attempt_marathon',
+  LAST_ATTEMPT_DIG: 'tetris_v2_last_attempt_dig',
+  LAST_ATTEMPT_SURVIVAL: 'tetris_v2_last_attempt_survival',
+  CUSTOM_MODE_PRESETS: 'tetris_v2_custom_mode_presets',
+  REPLAYS: 'tetris_v2_replays',
   SETTINGS: 'tetris_v2_settings',
+  FINESSE_MODE: 'tetris_v2_finesse_mode',
+  HINT_MODE: 'tetris_v2_hint_mode',
   THEME: 'tetris_v2_theme',
   LANGUAGE: 'tetris_v2_language',
 };
@@ -167,10 +417,29 @@ export const DEFAULT_LANGUAGE = 'en';
 // Performance
 export const TARGET_FPS = 60;
 export const FRAME_TIME = 1000 / TARGET_FPS;
+export const MAX_CATCH_UP_TIME = 250; // ms of game time simulated at most per rendered frame
+
+// Replays
+export const REPLAY_VERSION = 1;
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+export const MAX_SAVED_REPLAYS = 10;
+export const MAX_REPLAY_TICKS = TARGET_FPS * 60 * 60 * 3; // three hours of play
+export const REPLAY_URL_PARAM = 'replay'; // share links carry the replay code as #replay=<code>
+
+// AI player (weights tuned by Yiyuan Lee's genetic search for the classic four features)
+export const AI_WEIGHTS: AIWeights = {
+  aggregateHeight: -0.510066,
+  linesCleared: 0.760666,
+  holes: -0.35663,
+  bumpiness: -0.184483,
+};
+export const AI_ACTION_INTERVAL = 6; // ticks between AI inputs in the demo, so moves stay visible
 
 // Input debounce (ms)
 export const INPUT_DEBOUNCE: Partial<Record<InputAction, number>> = {
   rotate: 150,
+  rotateCCW: 150,
+  rotate180: 150,
   hold: 200,
   quit: 300, // Prevent accidental quits
 };
@@ -178,6 +447,10 @@ export const INPUT_DEBOUNCE: Partial<Record<InputAction, number>> = {
 // Ghost piece opacity
 export const GHOST_PIECE_OPACITY = 0.3;
 
+// Hint outline: a light fill under a dashed border, so it reads apart from the ghost piece
+export const HINT_PIECE_OPACITY = 0.12;
+export const HINT_OUTLINE_DASH = [4, 3];
+
 // Particle effects
 export const PARTICLE_CONFIGS = {
   LINE_CLEAR: {
@@ -201,10 +474,17 @@ export const PARTICLE_CONFIGS = {
     speed: 4,
     lifetime: 700,
   },
+  PERFECT_CLEAR: {
+    count: 8,
+    colors: ['#ff0000', '#ff8800', '#ffff00', '#00ff00', '#00ffff', '#0088ff', '#ff00ff'],
+    size: 5,
+    speed: 3,
+    lifetime: 1200,
+  },
 };
 
-// Initial piece spawn position
+// Initial piece spawn position (in the two buffer rows just above the visible field)
 export const SPAWN_POSITION = {
   x: 3,
-  y: -2,
+  y: BOARD_BUFFER_ROWS - 2,
 };
@@ -0,0 +1,263 @@
+/**
+ * AI player for Tetris V2
+ * Scores every placement of the current piece (and of the hold piece) with the classic board
+ * features, then drives the engine towards the best one through the same actions as the keyboard
+ */
+
+import { GameEventType } from '@/types/index';
+import type {
+  AIWeights,
+  BoardGrid,
+  GameAction,
+  GameEventCallback,
+  GameState,
+  Tetromino,
+  TetrominoType,
+} from '@/types/index';
+import { AI_WEIGHTS, VACANT_COLOR } from '@constants/config';
+import { clearCompleteLines, getBoardHeight, getBoardWidth, lockPiece } from './Board';
+import { findGhostPosition, getAllValidPositions } from './CollisionDetector';
+import type { GameEngine } from './GameEngine';
+import { isHoldEnabled } from './GameModes';
+import {
+  createTetromino,
+  getRotationCount,
+  getSpawnPosition,
+  moveTetromino,
+  setTetrominoRotation,
+} from './Tetromino';
+
+/**
+ * Features of the board left by a placement
+ */
+export interface BoardFeatures {
+  aggregateHeight: number;
+  linesCleared: number;
+  holes: number;
+  bumpiness: number;
+}
+
+/**
+ * Where a piece comes to rest: rotation state and column it is dropped in, and its final position
+ */
+export interface Placement {
+  useHold: boolean;
+  rotation: number;
+  x: number;
+  piece: Tetromino;
+  score: number;
+}
+
+/**
+ * Measure column heights, holes and bumpiness of a board
+ */
+export function getBoardFeatures(board: BoardGrid, linesCleared: number): BoardFeatures {
+  const width = getBoardWidth(board);
+  const height = getBoardHeight(board);
+  const heights: number[] = [];
+  let holes = 0;
+
+  for (let x = 0; x < width; x++) {
+    let top = height;
+    for (let y = 0; y < height; y++) {
+      if (board[y]?.[x] === VACANT_COLOR) {
+        if (top < height) holes++;
+      } else if (top === height) {
+        top = y;
+      }
+    }
+    heights.push(height - top);
+  }
+
+  let bumpiness = 0;
+  for (let x = 1; x < width; x++) {
+    bumpiness += Math.abs((heights[x] ?? 0) - (heights[x - 1] ?? 0));
+  }
+
+  return {
+    aggregateHeight: heights.reduce((sum, columnHeight) => sum + columnHeight, 0),
+    linesCleared,
+    holes,
+    bumpiness,
+  };
+}
+
+/**
+ * Score a piece locked at its position (higher is better)
+ */
+export function evaluatePlacement(
+  board: BoardGrid,
+  piece: Tetromino,
+  weights: AIWeights = AI_WEIGHTS
+): number {
+  const { board: cleared, linesCleared } = clearCompleteLines(lockPiece(board, piece));
+  const features = getBoardFeatures(cleared, linesCleared);
+
+  return (
+    weights.aggregateHeight * features.aggregateHeight +
+    weights.linesCleared * features.linesCleared +
+    weights.holes * features.holes +
+    weights.bumpiness * features.bumpiness
+  );
+}
+
+/**
+ * List every placement reached by turning a piece where it is, shifting it and dropping it
+ */
+export function findPlacements(
+  board: BoardGrid,
+  piece: Tetromino,
+  weights: AIWeights = AI_WEIGHTS,
+  useHold = false
+): Placement[] {
+  const placements: Placement[] = [];
+
+  for (let rotation = 0; rotation < getRotationCount(piece.type); rotation++) {
+    const turned = setTetrominoRotation(piece, rotation);
+
+    for (const { x } of getAllValidPositions(board, turned).filter(
+      (position) => position.y === piece.position.y
+    )) {
+      const shifted = moveTetromino(turned, x - turned.position.x, 0);
+      const ghost = findGhostPosition(board, shifted);
+      const landed = moveTetromino(shifted, 0, ghost.y - shifted.position.y);
+      placements.push({
+        useHold,
+        rotation,
+        x,
+        piece: landed,
+        score: evaluatePlacement(board, landed, weights),
+      });
+    }
+  }
+
+  return placements;
+}
+
+/**
+ * Pick the highest scoring placement
+ */
+export function getBestPlacement(placements: Placement[]): Placement | null {
+  return placements.reduce<Placement | null>(
+    (best, placement) => (best === null || placement.score > best.score ? placement : best),
+    null
+  );
+}
+
+/**
+ * Find the best placement for the current piece, or for the piece hold would bring in
+ */
+export function findBestPlacement(
+  state: Readonly<GameState>,
+  weights: AIWeights = AI_WEIGHTS
+): Placement | null {
+  const { board, currentPiece } = state;
+  if (!currentPiece) {
+    return null;
+  }
+
+  const placements = findPlacements(board, currentPiece, weights);
+
+  const holdType: TetrominoType | undefined = state.holdPiece?.type ?? state.nextPieces[0]?.type;
+  if (state.canHold && isHoldEnabled(state.gameMode) && holdType) {
+    const holdPiece = createTetromino(holdType, getSpawnPosition(getBoardWidth(board)));
+    placements.push(...findPlacements(board, holdPiece, weights, true));
+  }
+
+  return getBestPlacement(placements);
+}
+
+export interface AIPlayerOptions {
+  weights?: AIWeights;
+  /** Ticks to wait between two actions (0 = one action every tick) */
+  actionInterval?: number;
+}
+
+/**
+ * Plays a GameEngine: picks a placement for each new piece and sends one action per turn to reach it
+ */
+export class AIPlayer {
+  private engine: GameEngine;
+  private weights: AIWeights;
+  private actionInterval: number;
+  private target: Placement | null = null;
+  private wait = 0;
+
+  constructor(engine: GameEngine, options: AIPlayerOptions = {}) {
+    this.engine = engine;
+    this.weights = options.weights ?? AI_WEIGHTS;
+    this.actionInterval = Math.max(0, Math.floor(options.actionInterval ?? 0));
+
+    const forget: GameEventCallback = () => {
+      this.target = null;
+    };
+    engine.addEventListener(GameEventType.PIECE_LOCKED, forget);
+  }
+
+  /**
+   * Forget the current plan (call after restarting the engine)
+   */
+  public reset(): void {
+    this.target = null;
+    this.wait = 0;
+  }
+
+  /**
+   * Get the placement the AI is heading for
+   */
+  public getTarget(): Placement | null {
+    return this.target;
+  }
+
+  /**
+   * Take the AI's turn: call once per tick, before the engine update
+   * Returns the action sent to the engine, if any
+   */
+  public update(): GameAction | null {
+    const state = this.engine.getState();
+    if (state.isGameOver || state.isPaused || !state.currentPiece) {
+      return null;
+    }
+
+    if (this.wait > 0) {
+      this.wait--;
+      return null;
+    }
+    this.wait = this.actionInterval;
+
+    this.target ??= findBestPlacement(state, this.weights);
+    const action = this.getNextAction(state.currentPiece);
+    if (!this.engine.dispatch(action) && action !== 'hardDrop') {
+      // Blocked on the way (kicks, stack): drop where the piece is rather than stall
+      this.engine.dispatch('hardDrop');
+      return 'hardDrop';
+    }
+
+    if (action === 'hold' && this.target) {
+      this.target = { ...this.target, useHold: false };
+    }
+    return action;
+  }
+
+  /**
+   * Next action towards the target: hold, then turn, then shift, then drop
+   */
+  private getNextAction(piece: Tetromino): GameAction {
+    const target = this.target;
+    if (!target) {
+      return 'hardDrop';
+    }
+    if (target.useHold) {
+      return 'hold';
+    }
+
+    const turns = (target.rotation - piece.rotation + 4) % 4;
+    if (turns === 1) return 'rotate';
+    if (turns === 2) return 'rotate180';
+    if (turns === 3) return 'rotateCCW';
+
+    if (piece.position.x < target.x) return 'moveRight';
+    if (piece.position.x > target.x) return 'moveLeft';
+    return 'hardDrop';
+  }
+}
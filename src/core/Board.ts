@@ -4,19 +4,28 @@
  */
 
 import type { BoardGrid, CellValue, Position, Tetromino } from '@/types/index';
-import { BOARD_COLS, BOARD_ROWS, VACANT_COLOR } from '@constants/config';
+import {
+  BOARD_BUFFER_ROWS,
+  BOARD_COLS,
+  BOARD_ROWS,
+  GARBAGE_COLOR,
+  TETROMINO_COLORS,
+  VACANT_COLOR,
+} from '@constants/config';
 import { getTetrominoOccupiedCells } from './Tetromino';
 
 /**
- * Create an empty board
+ * Create an empty board (10x20 unless given other dimensions).
+ * The visible field sits under a hidden buffer of BOARD_BUFFER_ROWS rows, so row
+ * BOARD_BUFFER_ROWS is the top visible row.
  */
-export function createBoard(): BoardGrid {
+export function createBoard(width: number = BOARD_COLS, height: number = BOARD_ROWS): BoardGrid {
   const board: BoardGrid = [];
 
-  for (let row = 0; row < BOARD_ROWS; row++) {
+  for (let row = 0; row < height + BOARD_BUFFER_ROWS; row++) {
     const currentRow: CellValue[] = [];
     board[row] = currentRow;
-    for (let col = 0; col < BOARD_COLS; col++) {
+    for (let col = 0; col < width; col++) {
       currentRow[col] = VACANT_COLOR;
     }
   }
@@ -24,24 +33,93 @@ export function createBoard(): BoardGrid {
   return board;
 }
 
+/**
+ * Get the number of columns of a board
+ */
+export function getBoardWidth(board: BoardGrid): number {
+  return board[0]?.length ?? 0;
+}
+
+/**
+ * Get the number of rows of a board, hidden buffer included
+ */
+export function getBoardHeight(board: BoardGrid): number {
+  return board.length;
+}
+
+/**
+ * Get the number of visible rows of a board (below the hidden buffer)
+ */
+export function getVisibleHeight(board: BoardGrid): number {
+  return Math.max(0, board.length - BOARD_BUFFER_ROWS);
+}
+
+/**
+ * Check if a row is part of the hidden buffer above the visible field
+ */
+export function isBufferRow(row: number): boolean {
+  return row < BOARD_BUFFER_ROWS;
+}
+
+/**
+ * Board cell for a layout character: '.' empty, 'G' garbage, a tetromino letter for its color
+ */
+function parseLayoutCell(char: string): CellValue {
+  if (char === '.') {
+    return VACANT_COLOR;
+  }
+  if (char === 'G') {
+    return GARBAGE_COLOR;
+  }
+  if (char in TETROMINO_COLORS) {
+    return TETROMINO_COLORS[char as keyof typeof TETROMINO_COLORS];
+  }
+  throw new Error(`Unknown board layout cell: ${char}`);
+}
+
+/**
+ * Create a board from text rows (top to bottom), aligned to the bottom of the visible field
+ */
+export function createBoardFromRows(
+  rows: string[],
+  width: number = BOARD_COLS,
+  height: number = BOARD_ROWS
+): BoardGrid {
+  if (rows.length > height) {
+    throw new Error(`Board layout has ${rows.length} rows, at most ${height} fit`);
+  }
+
+  const board = createBoard(width, height);
+  const offset = getBoardHeight(board) - rows.length;
+
+  rows.forEach((layoutRow, index) => {
+    if (layoutRow.length !== width) {
+      throw new Error(`Board layout row ${index} must be ${width} cells wide`);
+    }
+    board[offset + index] = Array.from(layoutRow, parseLayoutCell);
+  });
+
+  return board;
+}
+
 /**
  * Check if a position is within board bounds
  */
-export function isValidPosition(position: Position): boolean {
-  return position.x >= 0 && position.x < BOARD_COLS && position.y >= 0 && position.y < BOARD_ROWS;
+export function isValidPosition(board: BoardGrid, position: Position): boolean {
+  return (
+    position.x >= 0 &&
+    position.x < getBoardWidth(board) &&
+    position.y >= 0 &&
+    position.y < getBoardHeight(board)
+  );
 }
 
 /**
  * Check if a cell is vacant on the board
  */
 export function isCellVacant(board: BoardGrid, position: Position): boolean {
-  // If position is above the board (negative y), consider it vacant
-  if (position.y < 0) {
-    return true;
-  }
-
   // If position is out of bounds, it's not vacant
-  if (!isValidPosition(position)) {
+  if (!isValidPosition(board, position)) {
     return false;
   }
 
@@ -62,7 +140,7 @@ export function lockPiece(board: BoardGrid, tetromino: Tetromino): BoardGrid {
 
   for (const cell of occupiedCells) {
     // Only lock cells that are within the board
-    if (isValidPosition(cell)) {
+    if (isValidPosition(newBoard, cell)) {
       const row = newBoard[cell.y];
       if (row) {
         row[cell.x] = tetromino.color;
@@ -74,18 +152,10 @@ export function lockPiece(board: BoardGrid, tetromino: Tetromino): BoardGrid {
 }
 
 /**
- * Check if any part of a tetromino is above the board (game over condition)
+ * Check for a lock out: the piece locked entirely inside the hidden buffer (game over condition)
  */
-export function isPieceAboveBoard(tetromino: Tetromino): boolean {
-  const occupiedCells = getTetrominoOccupiedCells(tetromino);
-
-  for (const cell of occupiedCells) {
-    if (cell.y < 0) {
-      return true;
-    }
-  }
-
-  return false;
+export function isLockOut(tetromino: Tetromino): boolean {
+  return getTetrominoOccupiedCells(tetromino).every((cell) => isBufferRow(cell.y));
 }
 
 /**
@@ -94,23 +164,11 @@ export function isPieceAboveBoard(tetromino: Tetromino): boolean {
 export function findCompleteLines(board: BoardGrid): number[] {
   const completeLines: number[] = [];
 
-  for (let row = 0; row < BOARD_ROWS; row++) {
-    const boardRow = board[row];
-    if (!boardRow) continue;
-
-    let isComplete = true;
-
-    for (let col = 0; col < BOARD_COLS; col++) {
-      if (boardRow[col] === VACANT_COLOR) {
-        isComplete = false;
-        break;
-      }
-    }
-
-    if (isComplete) {
+  board.forEach((boardRow, row) => {
+    if (boardRow.every((cell) => cell !== VACANT_COLOR)) {
       completeLines.push(row);
     }
-  }
+  });
 
   return completeLines;
 }
@@ -131,7 +189,7 @@ export function clearLines(board: BoardGrid, lineIndices: number[]): BoardGrid {
   const filtered = cloned.filter((_, rowIndex) => !toRemove.has(rowIndex));
 
   // Restore board height by adding empty lines at the top
-  const emptyLine: CellValue[] = Array.from({ length: BOARD_COLS }, () => VACANT_COLOR);
+  const emptyLine: CellValue[] = Array.from({ length: getBoardWidth(board) }, () => VACANT_COLOR);
   for (let i = 0; i < lineIndices.length; i++) {
     filtered.unshift([...emptyLine]);
   }
@@ -155,6 +213,54 @@ export function clearCompleteLines(board: BoardGrid): { board: BoardGrid; linesC
   return { board: newBoard, linesCleared };
 }
 
+/**
+ * Create a garbage row, full except for one hole
+ */
+export function createGarbageRow(holeColumn: number, width: number = BOARD_COLS): CellValue[] {
+  return Array.from({ length: width }, (_, col) =>
+    col === holeColumn ? VACANT_COLOR : GARBAGE_COLOR
+  );
+}
+
+/**
+ * Insert garbage rows from the bottom, pushing existing rows up (one row per hole column).
+ * Rows pushed past the top are dropped; overflowed is true if any of them held a block.
+ */
+export function insertGarbageRows(
+  board: BoardGrid,
+  holeColumns: number[]
+): { board: BoardGrid; overflowed: boolean } {
+  if (holeColumns.length === 0) {
+    return { board, overflowed: false };
+  }
+
+  const width = getBoardWidth(board);
+  const count = Math.min(holeColumns.length, getBoardHeight(board));
+  const cloned = cloneBoard(board);
+  const removed = cloned.splice(0, count);
+  const overflowed = removed.some((row) => row.some((cell) => cell !== VACANT_COLOR));
+
+  for (const holeColumn of holeColumns.slice(0, count)) {
+    cloned.push(createGarbageRow(holeColumn, width));
+  }
+
+  return { board: cloned, overflowed };
+}
+
+/**
+ * Check if a cell holds garbage
+ */
+export function isGarbageCell(value: CellValue): boolean {
+  return value === GARBAGE_COLOR;
+}
+
+/**
+ * Count the garbage cells left on the board
+ */
+export function countGarbageCells(board: BoardGrid): number {
+  return board.reduce((count, row) => count + row.filter(isGarbageCell).length, 0);
+}
+
 /**
  * Clone a board (deep copy)
  */
@@ -166,7 +272,7 @@ export function cloneBoard(board: BoardGrid): BoardGrid {
  * Get the value of a cell on the board
  */
 export function getCellValue(board: BoardGrid, position: Position): CellValue | null {
-  if (!isValidPosition(position)) {
+  if (!isValidPosition(board, position)) {
     return null;
   }
 
@@ -183,7 +289,7 @@ export function getCellValue(board: BoardGrid, position: Position): CellValue |
  * Set the value of a cell on the board (returns new board)
  */
 export function setCellValue(board: BoardGrid, position: Position, value: CellValue): BoardGrid {
-  if (!isValidPosition(position)) {
+  if (!isValidPosition(board, position)) {
     return board;
   }
 
@@ -201,20 +307,10 @@ export function setCellValue(board: BoardGrid, position: Position, value: CellVa
  * Count the number of filled cells on the board
  */
 export function countFilledCells(board: BoardGrid): number {
-  let count = 0;
-
-  for (let row = 0; row < BOARD_ROWS; row++) {
-    const boardRow = board[row];
-    if (!boardRow) continue;
-
-    for (let col = 0; col < BOARD_COLS; col++) {
-      if (boardRow[col] !== VACANT_COLOR) {
-        count++;
-      }
-    }
-  }
-
-  return count;
+  return board.reduce(
+    (count, row) => count + row.filter((cell) => cell !== VACANT_COLOR).length,
+    0
+  );
 }
 
 /**
@@ -228,18 +324,8 @@ export function isBoardEmpty(board: BoardGrid): boolean {
  * Get the highest occupied row (for visual effects)
  */
 export function getHighestOccupiedRow(board: BoardGrid): number {
-  for (let row = 0; row < BOARD_ROWS; row++) {
-    const boardRow = board[row];
-    if (!boardRow) continue;
-
-    for (let col = 0; col < BOARD_COLS; col++) {
-      if (boardRow[col] !== VACANT_COLOR) {
-        return row;
-      }
-    }
-  }
-
-  return BOARD_ROWS - 1;
+  const row = board.findIndex((boardRow) => boardRow.some((cell) => cell !== VACANT_COLOR));
+  return row === -1 ? getBoardHeight(board) - 1 : row;
 }
 
 /**
@@ -1,12 +1,12 @@
 /**
  * Collision detection for Tetris V2
- * Extracted from Piece.js HitWall logic
+ * Extracted from Piece.js HitWall logic, rotation kicks follow SRS
  */
 
-import type { Tetromino, BoardGrid, CollisionResult, Position } from '@/types/index';
-import { BOARD_COLS, BOARD_ROWS } from '@constants/config';
-import { isCellVacant } from './Board';
+import type { Tetromino, BoardGrid, CollisionResult, Position, WallKick } from '@/types/index';
+import { getBoardHeight, getBoardWidth, isCellVacant } from './Board';
 import { getTetrominoOccupiedCells } from './Tetromino';
+import { getWallKickOffsets } from './RotationSystem';
 
 /**
  * Check if a tetromino would collide at a given position
@@ -18,26 +18,23 @@ export function checkCollision(
   offsetY = 0
 ): CollisionResult {
   const occupiedCells = getTetrominoOccupiedCells(tetromino);
+  const width = getBoardWidth(board);
+  const height = getBoardHeight(board);
 
   for (const cell of occupiedCells) {
     const newX = cell.x + offsetX;
     const newY = cell.y + offsetY;
 
-    // Check horizontal walls
-    if (newX < 0 || newX >= BOARD_COLS) {
+    // Check horizontal walls (the top of the hidden buffer is just as solid)
+    if (newX < 0 || newX >= width || newY < 0) {
       return { hasCollision: true, reason: 'wall' };
     }
 
     // Check floor
-    if (newY >= BOARD_ROWS) {
+    if (newY >= height) {
       return { hasCollision: true, reason: 'floor' };
     }
 
-    // Skip if above board (newY < 0)
-    if (newY < 0) {
-      continue;
-    }
-
     // Check collision with locked pieces
     if (!isCellVacant(board, { x: newX, y: newY })) {
       return { hasCollision: true, reason: 'piece' };
@@ -87,68 +84,37 @@ export function canPlaceTetromino(
 }
 
 /**
- * Calculate wall kick offset for rotation
- * Returns the horizontal offset needed to kick the piece away from the wall
+ * Find the SRS wall kick for a rotation
+ * Tries each kick test in order and returns the first one that fits, or null
  */
 export function calculateWallKick(
   board: BoardGrid,
   tetromino: Tetromino,
   rotatedTetromino: Tetromino
-): number {
-  // First, try without kick
-  if (!checkCollision(board, rotatedTetromino).hasCollision) {
-    return 0;
-  }
-
-  const occupiedCells = getTetrominoOccupiedCells(rotatedTetromino);
-
-  // Find the leftmost and rightmost cells
-  let minX = BOARD_COLS;
-  let maxX = -1;
-
-  for (const cell of occupiedCells) {
-    minX = Math.min(minX, cell.x);
-    maxX = Math.max(maxX, cell.x);
-  }
+): WallKick | null {
+  const offsets = getWallKickOffsets(tetromino.type, tetromino.rotation, rotatedTetromino.rotation);
 
-  // If piece is on the right side, try kicking left
-  if (tetromino.position.x > BOARD_COLS / 2) {
-    // Try kicking left by 1, 2, or 3 spaces
-    for (let kick = -1; kick >= -3; kick--) {
-      if (!checkCollision(board, rotatedTetromino, kick, 0).hasCollision) {
-        return kick;
-      }
-    }
-  } else {
-    // If piece is on the left side, try kicking right
-    for (let kick = 1; kick <= 3; kick++) {
-      if (!checkCollision(board, rotatedTetromino, kick, 0).hasCollision) {
-        return kick;
-      }
+  for (let index = 0; index < offsets.length; index++) {
+    const offset = offsets[index];
+    if (offset && !checkCollision(board, rotatedTetromino, offset.x, offset.y).hasCollision) {
+      return { offset, index };
     }
   }
 
   // No valid kick found
-  return 0;
+  return null;
 }
 
 /**
  * Check if rotation is possible (with wall kick if needed)
- * Returns the kick offset if rotation is possible, null otherwise
+ * Returns the kick to apply if rotation is possible, null otherwise
  */
 export function canRotate(
   board: BoardGrid,
   tetromino: Tetromino,
   rotatedTetromino: Tetromino
-): number | null {
-  const kick = calculateWallKick(board, tetromino, rotatedTetromino);
-
-  // Check if rotation with kick is valid
-  if (!checkCollision(board, rotatedTetromino, kick, 0).hasCollision) {
-    return kick;
-  }
-
-  return null;
+): WallKick | null {
+  return calculateWallKick(board, tetromino, rotatedTetromino);
 }
 
 /**
@@ -174,21 +140,21 @@ export function calculateHardDropDistance(board: BoardGrid, tetromino: Tetromino
 }
 
 /**
- * Check if game is over (new piece spawns in collision)
+ * Check for a block out: a newly spawned piece overlaps blocks (game over condition)
  */
-export function isGameOverCollision(board: BoardGrid, tetromino: Tetromino): boolean {
-  const result = checkCollision(board, tetromino);
-  return result.hasCollision && tetromino.position.y <= 0;
+export function isBlockOut(board: BoardGrid, tetromino: Tetromino): boolean {
+  return checkCollision(board, tetromino).hasCollision;
 }
 
 /**
  * Get all valid positions for current tetromino (for AI/hints)
+ * The shape's bounding box may hang off the left edge, so x starts below 0
  */
 export function getAllValidPositions(board: BoardGrid, tetromino: Tetromino): Position[] {
   const validPositions: Position[] = [];
 
-  for (let x = 0; x < BOARD_COLS; x++) {
-    for (let y = 0; y < BOARD_ROWS; y++) {
+  for (let x = 1 - tetromino.shape.length; x < getBoardWidth(board); x++) {
+    for (let y = 0; y < getBoardHeight(board); y++) {
       if (canPlaceTetromino(board, tetromino, { x, y })) {
         validPositions.push({ x, y });
       }
@@ -0,0 +1,150 @@
+/**
+ * Finesse trainer for Tetris V2
+ * Compares the keys pressed for each piece with the fewest inputs the pathfinder needs for the same spot
+ */
+
+import { GameEventType } from '@/types/index';
+import type {
+  BoardGrid,
+  GameAction,
+  GameEventCallback,
+  Tetromino,
+  TetrominoType,
+} from '@/types/index';
+import type { GameEngine } from './GameEngine';
+import { findPlacement } from './Pathfinder';
+
+/**
+ * A piece placed with more inputs than needed
+ */
+export interface FinesseFault {
+  type: TetrominoType;
+  /** Counted key presses the player spent */
+  used: GameAction[];
+  /** Cheapest full path to the same spot, hard drop included */
+  optimal: GameAction[];
+  /** Counted inputs the optimal path takes, a shift held to the wall counting once */
+  needed: number;
+}
+
+export interface FinesseStats {
+  pieces: number;
+  faults: number;
+  /** Share of pieces placed without a fault, from 0 to 100 */
+  percentage: number;
+}
+
+export interface FinesseTrackerOptions {
+  onFault?: (fault: FinesseFault) => void;
+}
+
+/**
+ * Soft drops and the hard drop are left out of both counts: gravity changes how many soft drops
+ * a spot needs, and every piece ends with one drop either way
+ */
+function isCountedInput(action: GameAction): boolean {
+  return action !== 'moveDown' && action !== 'hardDrop' && action !== 'hold';
+}
+
+/**
+ * Watches an engine's pieces and the key presses it is sent, counting pieces placed with more
+ * inputs than needed
+ */
+export class FinesseTracker {
+  private engine: GameEngine;
+  private onFault: ((fault: FinesseFault) => void) | undefined;
+  private listeners: Array<[GameEventType, GameEventCallback]>;
+  private start: { board: BoardGrid; piece: Tetromino } | null = null;
+  private inputs: GameAction[] = [];
+  private pieces = 0;
+  private faults = 0;
+
+  constructor(engine: GameEngine, options: FinesseTrackerOptions = {}) {
+    this.engine = engine;
+    this.onFault = options.onFault;
+
+    this.listeners = [
+      [GameEventType.ACTION, (): void => this.recordStart()],
+      [GameEventType.HOLD_USED, (): void => this.forgetPiece()],
+      [
+        GameEventType.PIECE_LOCKED,
+        (event): void => this.judgePiece(event.data as { piece: Tetromino }),
+      ],
+    ];
+    for (const [type, callback] of this.listeners) {
+      engine.addEventListener(type, callback);
+    }
+  }
+
+  /**
+   * Stop watching the engine
+   */
+  public detach(): void {
+    for (const [type, callback] of this.listeners) {
+      this.engine.removeEventListener(type, callback);
+    }
+  }
+
+  /**
+   * Forget the counts (call after restarting the engine)
+   */
+  public reset(): void {
+    this.forgetPiece();
+    this.pieces = 0;
+    this.faults = 0;
+  }
+
+  public getStats(): FinesseStats {
+    const clean = this.pieces - this.faults;
+    return {
+      pieces: this.pieces,
+      faults: this.faults,
+      percentage: this.pieces > 0 ? (clean / this.pieces) * 100 : 100,
+    };
+  }
+
+  /**
+   * Count a key press the engine took for the piece in play. Call it once per press, after the
+   * action: the auto-repeats of a held key (DAS) belong to the same press
+   */
+  public recordPress(action: GameAction): void {
+    if (this.start && isCountedInput(action)) {
+      this.inputs.push(action);
+    }
+  }
+
+  /**
+   * The piece is judged from where it was at its first action, so gravity before it does not count
+   */
+  private recordStart(): void {
+    const { board, currentPiece } = this.engine.getState();
+    if (!this.start && currentPiece) {
+      this.start = { board: board.map((row) => [...row]), piece: currentPiece };
+    }
+  }
+
+  private forgetPiece(): void {
+    this.start = null;
+    this.inputs = [];
+  }
+
+  private judgePiece({ piece }: { piece: Tetromino }): void {
+    const start = this.start;
+    const used = this.inputs;
+    this.forgetPiece();
+    this.pieces++;
+
+    // A piece left to fall on its own took no inputs, so it cannot be a fault
+    if (!start) {
+      return;
+    }
+
+    const optimal = findPlacement(start.board, start.piece, piece, { finesse: true });
+    if (!optimal || used.length <= optimal.inputs) {
+      return;
+    }
+
+    this.faults++;
+    this.onFault?.({ type: piece.type, used, optimal: optimal.path, needed: optimal.inputs });
+  }
+}
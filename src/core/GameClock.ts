@@ -0,0 +1,98 @@
+/**
+ * Game clocks for Tetris V2
+ * The engine reads all of its time from a clock that only moves when update() ticks it
+ */
+
+import { FRAME_TIME, MAX_CATCH_UP_TIME } from '@constants/config';
+
+/**
+ * Source of game time for the engine
+ */
+export interface GameClock {
+  /** Game time in milliseconds since the last reset */
+  now(): number;
+  /** Move the clock forward for one update() tick */
+  advance(deltaTime: number): void;
+  reset(): void;
+}
+
+/**
+ * Clock that follows the delta time given to each tick (real-time play)
+ */
+export class TickClock implements GameClock {
+  private time = 0;
+
+  public now(): number {
+    return this.time;
+  }
+
+  public advance(deltaTime: number): void {
+    this.time += Math.max(0, deltaTime);
+  }
+
+  public reset(): void {
+    this.time = 0;
+  }
+}
+
+/**
+ * Clock that moves one fixed step per tick whatever delta it is given
+ * Time is counted in ticks, so stepping through a game is bit-exact every run
+ */
+export class FixedStepClock implements GameClock {
+  private readonly step: number;
+  private ticks = 0;
+
+  constructor(step: number = FRAME_TIME) {
+    if (step <= 0) {
+      throw new Error('Clock step must be positive');
+    }
+    this.step = step;
+  }
+
+  public now(): number {
+    return this.ticks * this.step;
+  }
+
+  public advance(): void {
+    this.ticks++;
+  }
+
+  public reset(): void {
+    this.ticks = 0;
+  }
+
+  /**
+   * Get the number of ticks since the last reset
+   */
+  public getTicks(): number {
+    return this.ticks;
+  }
+}
+
+/**
+ * Turns variable frame times into a whole number of fixed steps, carrying the remainder over
+ * Time beyond MAX_CATCH_UP_TIME is dropped so a stalled tab slows the game instead of racing it
+ */
+export class FixedStepAccumulator {
+  private readonly step: number;
+  private pending = 0;
+
+  constructor(step: number = FRAME_TIME) {
+    this.step = step;
+  }
+
+  /**
+   * Add elapsed time and get the number of steps now due
+   */
+  public add(deltaTime: number): number {
+    this.pending = Math.min(this.pending + Math.max(0, deltaTime), MAX_CATCH_UP_TIME);
+    const steps = Math.floor(this.pending / this.step);
+    this.pending -= steps * this.step;
+    return steps;
+  }
+
+  public reset(): void {
+    this.pending = 0;
+  }
+}
@@ -3,12 +3,48 @@
  * Orchestrates all game logic with event-driven architecture
  */
 
-import { GameMode, GameEventType } from '@/types/index';
-import type { GameState, Tetromino, GameEvent, GameEventCallback } from '@/types/index';
-import { createBoard, lockPiece, clearCompleteLines, isPieceAboveBoard } from './Board';
-import { createRandomTetromino, rotateTetromino, moveTetromino } from './Tetromino';
+import { GameMode, GameEventType, GoalType, RotationDirection, TSpinType } from '@/types/index';
+import type {
+  BoardGrid,
+  GameState,
+  PuzzleDefinition,
+  Tetromino,
+  TetrominoType,
+  GameAction,
+  GameEvent,
+  GameEventCallback,
+} from '@/types/index';
+import {
+  createBoard,
+  createBoardFromRows,
+  lockPiece,
+  clearCompleteLines,
+  isLockOut,
+  isBoardEmpty,
+  insertGarbageRows,
+  countGarbageCells,
+} from './Board';
+import {
+  createTetromino,
+  getSpawnPosition,
+  rotateTetromino,
+  moveTetromino,
+  setTetrominoRotation,
+} from './Tetromino';
+import {
+  FixedSequenceGenerator,
+  createPieceGenerator,
+  createSeededRandom,
+  generateSeed,
+} from './PieceGenerator';
+import { PuzzleGoalTracker } from './Puzzle';
+import { TickClock } from './GameClock';
+import type { GameClock } from './GameClock';
+import { detectTSpin } from './TSpinDetector';
+import type { PieceGenerator, RandomFunction } from './PieceGenerator';
 import {
   checkCollision,
+  isBlockOut,
   canMoveDown,
   canRotate,
   findGhostPosition,
@@ -18,48 +54,232 @@ import {
   updateScoreAfterLineClear,
   updateScoreAfterSoftDrop,
   updateScoreAfterHardDrop,
-  shouldLevelUp,
+  isDifficultClear,
+  calculatePerfectClearBonus,
   getDropSpeed,
 } from './ScoringSystem';
-import { isTimeUp, getRemainingTime, shouldTriggerTimeWarning } from './GameModes';
-import { TIME_WARNINGS } from '@constants/config';
+import {
+  isTimeUp,
+  getRemainingTime,
+  shouldTriggerTimeWarning,
+  getBoardDimensions,
+  getGameModeConfig,
+  getLineGoal,
+  getRandomizerType,
+  hasTimeLimit,
+  isGhostEnabled,
+  isHoldEnabled,
+  getSplitLines,
+  getStartingGarbageRows,
+  getGarbageInterval,
+  hasGarbageGoal,
+  hasReachedLineGoal,
+  resolveStartLevel,
+} from './GameModes';
+import {
+  TIME_WARNINGS,
+  MIN_PREVIEW_COUNT,
+  MAX_PREVIEW_COUNT,
+  GARBAGE_WARNING_TIME,
+} from '@constants/config';
+
+// Decorrelates garbage holes from the piece sequence sharing the same seed
+const GARBAGE_SEED_SALT = 0x9e3779b9;
+
+export interface GameEngineOptions {
+  /** Source of upcoming pieces (defaults to a randomly seeded 7-bag) */
+  generator?: PieceGenerator;
+  /** Number of upcoming pieces to expose (defaults to the mode's preview count) */
+  previewCount?: number;
+  /** Level to start from, only used by modes with a selectable start level */
+  startLevel?: number;
+  /** Puzzle to play in Puzzle mode: its board, fixed piece queue and goal */
+  puzzle?: PuzzleDefinition;
+  /** Source of game time, moved only by update() (defaults to the tick's delta time) */
+  clock?: GameClock;
+}
 
 export class GameEngine {
   private state: GameState;
+  private generator: PieceGenerator;
+  private garbageRandom: RandomFunction;
+  private previewCount: number;
+  private boardWidth: number;
+  private boardHeight: number;
+  private previewCountOverride: number | undefined;
+  private startLevelOverride: number | undefined;
+  private startLevel: number;
+  private linesPerLevel: number;
+  private nesLevelUp: boolean;
+  private lockDelay: number;
+  private maxLockResets: number;
+  private lockDelayStart: number | null;
+  private lockResets: number;
+  private lowestRow: number;
+  private lastActionWasRotation: boolean;
+  private lastKickIndex: number;
+  private lastRotationWasHalfTurn: boolean;
+  private splits: number[];
+  private garbageTimer: number;
+  private garbageWarned: boolean;
+  private pendingGarbage: number[]; // hole column of each row sent by an opponent
+  private puzzle: PuzzleDefinition | undefined;
+  private puzzleTracker: PuzzleGoalTracker | null;
   private eventListeners: Map<GameEventType, GameEventCallback[]>;
+  private clock: GameClock;
+  private tick: number;
   private lastDropTime: number;
-  private elapsedTime: number;
   private isPaused: boolean;
-  private combo: number;
 
-  constructor(mode: GameMode = GameMode.CLASSIC) {
+  constructor(mode: GameMode = GameMode.CLASSIC, options: GameEngineOptions = {}) {
+    this.puzzle = options.puzzle;
+    this.clock = options.clock ?? new TickClock();
+    this.clock.reset();
+    this.generator =
+      options.generator ??
+      (this.puzzle
+        ? new FixedSequenceGenerator(this.puzzle.pieces)
+        : createPieceGenerator(getRandomizerType(mode)));
+    this.garbageRandom = this.createGarbageRandom();
+    this.previewCountOverride = options.previewCount;
+    this.previewCount = this.resolvePreviewCount(mode);
+    this.boardWidth = getBoardDimensions(mode).width;
+    this.boardHeight = getBoardDimensions(mode).height;
+    this.startLevelOverride = options.startLevel;
+    this.startLevel = resolveStartLevel(mode, this.startLevelOverride);
+    this.linesPerLevel = getGameModeConfig(mode).linesPerLevel;
+    this.nesLevelUp = getGameModeConfig(mode).nesLevelUp ?? false;
+    this.lockDelay = getGameModeConfig(mode).lockDelay;
+    this.maxLockResets = getGameModeConfig(mode).maxLockResets;
+    this.lockDelayStart = null;
+    this.lockResets = 0;
+    this.lowestRow = 0;
+    this.lastActionWasRotation = false;
+    this.lastKickIndex = 0;
+    this.lastRotationWasHalfTurn = false;
+    this.splits = [];
+    this.garbageTimer = 0;
+    this.garbageWarned = false;
+    this.pendingGarbage = [];
     this.state = this.createInitialState(mode);
+    this.resetLockState();
     this.eventListeners = new Map();
-    this.lastDropTime = Date.now();
-    this.elapsedTime = 0;
+    this.tick = 0;
+    this.lastDropTime = 0;
     this.isPaused = false;
-    this.combo = 0;
+    this.puzzleTracker = this.puzzle ? this.trackPuzzleGoal(this.puzzle) : null;
+  }
+
+  /**
+   * Follow the puzzle goal through the engine's own clear events
+   */
+  private trackPuzzleGoal(puzzle: PuzzleDefinition): PuzzleGoalTracker {
+    const tracker = new PuzzleGoalTracker(puzzle.goal);
+    const forward: GameEventCallback = (event) => tracker.handleEvent(event);
+
+    this.addEventListener(GameEventType.LINE_CLEARED, forward);
+    this.addEventListener(GameEventType.T_SPIN, forward);
+    this.addEventListener(GameEventType.PERFECT_CLEAR, forward);
+
+    return tracker;
   }
 
   /**
    * Create initial game state
    */
   private createInitialState(mode: GameMode): GameState {
+    const currentPiece = this.spawnPiece();
+    const nextPieces: Tetromino[] = [];
+    while (nextPieces.length < this.previewCount && this.canSpawnPiece()) {
+      nextPieces.push(this.spawnPiece());
+    }
+
     return {
-      board: createBoard(),
-      currentPiece: createRandomTetromino(),
-      nextPiece: createRandomTetromino(),
+      board: this.createStartingBoard(mode),
+      currentPiece,
+      nextPiece: nextPieces[0] ?? null,
+      nextPieces,
       holdPiece: null,
       canHold: true,
       score: 0,
       lines: 0,
-      level: 0,
+      level: this.startLevel,
+      combo: -1,
+      backToBack: false,
       isGameOver: false,
       isPaused: false,
       gameMode: mode,
     };
   }
 
+  /**
+   * Create the board a mode starts with (Dig seeds garbage rows, puzzles load their layout)
+   */
+  private createStartingBoard(mode: GameMode): BoardGrid {
+    if (mode === GameMode.PUZZLE && this.puzzle) {
+      return createBoardFromRows(this.puzzle.board, this.boardWidth, this.boardHeight);
+    }
+
+    const garbageRows = getStartingGarbageRows(mode);
+    const board = createBoard(this.boardWidth, this.boardHeight);
+    return insertGarbageRows(board, this.createGarbageHoles(garbageRows)).board;
+  }
+
+  /**
+   * Random hole column for each garbage row
+   */
+  private createGarbageHoles(count: number): number[] {
+    return Array.from({ length: count }, () => Math.floor(this.garbageRandom() * this.boardWidth));
+  }
+
+  /**
+   * Garbage holes follow the game seed so a seed replays the same board
+   */
+  private createGarbageRandom(): RandomFunction {
+    return createSeededRandom(this.generator.getSeed() ^ GARBAGE_SEED_SALT);
+  }
+
+  /**
+   * Create the next piece dealt by the generator
+   */
+  private spawnPiece(): Tetromino {
+    return this.createSpawnedPiece(this.generator.next());
+  }
+
+  /**
+   * Create a piece of a type at the spawn position for this board
+   */
+  private createSpawnedPiece(type: TetrominoType): Tetromino {
+    return createTetromino(type, getSpawnPosition(this.boardWidth));
+  }
+
+  /**
+   * Check if the generator can deal another piece (fixed puzzle queues run out)
+   */
+  private canSpawnPiece(): boolean {
+    return this.generator.hasNext?.() ?? true;
+  }
+
+  /**
+   * Take the first piece of the next queue and refill it from the generator
+   */
+  private takeNextPiece(): Tetromino | null {
+    const piece = this.state.nextPieces.shift() ?? null;
+    if (this.canSpawnPiece()) {
+      this.state.nextPieces.push(this.spawnPiece());
+    }
+    this.state.nextPiece = this.state.nextPieces[0] ?? null;
+    return piece;
+  }
+
+  /**
+   * Preview count for a mode, kept within the supported range
+   */
+  private resolvePreviewCount(mode: GameMode): number {
+    const count = this.previewCountOverride ?? getGameModeConfig(mode).previewCount;
+    return Math.min(Math.max(Math.floor(count), MIN_PREVIEW_COUNT), MAX_PREVIEW_COUNT);
+  }
+
   /**
    * Get current game state (immutable)
    */
@@ -109,30 +329,158 @@ export class GameEngine {
       return;
     }
 
-    // Update elapsed time
-    this.elapsedTime += deltaTime / 1000;
+    this.tick++;
+
+    // All engine timers read the clock, which only moves here
+    const previousTime = this.clock.now();
+    this.clock.advance(deltaTime);
+    const tickTime = this.clock.now() - previousTime;
 
-    // Check time limit for Ultra mode
-    this.checkTimeLimit();
+    // Check time limit (Ultra and timed custom rules)
+    this.checkTimeLimit(previousTime / 1000);
+
+    // Raise garbage in Survival
+    this.handleRisingGarbage(tickTime);
 
     // Auto-drop piece based on level speed
     this.handleAutoDrop();
+
+    // Lock a grounded piece once its delay runs out
+    this.handleLockDelay();
+
+    // End line-goal modes (Sprint) once enough lines are cleared
+    this.checkLineGoal();
+
+    // End Dig once every garbage cell is gone
+    this.checkGarbageGoal();
+
+    // End puzzles once solved or out of pieces
+    this.checkPuzzleGoal();
+  }
+
+  /**
+   * Finish a puzzle: completed when its goal is met, failed once the queue and hold run out
+   */
+  private checkPuzzleGoal(): void {
+    if (this.state.isGameOver || !this.puzzleTracker) {
+      return;
+    }
+
+    if (this.puzzleTracker.isSolved()) {
+      this.emit(GameEventType.GOAL_REACHED, {
+        lines: this.state.lines,
+        time: this.getElapsedTime(),
+      });
+      this.gameOver(true);
+    } else if (!this.state.currentPiece) {
+      this.gameOver();
+    }
+  }
+
+  /**
+   * Count down to the next rising garbage row, warning the player shortly before it arrives
+   */
+  private handleRisingGarbage(deltaTime: number): void {
+    const interval = getGarbageInterval(this.state.gameMode, this.state.level);
+    if (this.state.isGameOver || interval === undefined) {
+      return;
+    }
+
+    this.garbageTimer += deltaTime;
+
+    if (!this.garbageWarned && this.garbageTimer >= interval - GARBAGE_WARNING_TIME) {
+      this.garbageWarned = true;
+      this.emit(GameEventType.GARBAGE_INCOMING, {
+        rows: 1,
+        delay: Math.max(0, interval - this.garbageTimer),
+      });
+    }
+
+    if (this.garbageTimer >= interval) {
+      this.garbageTimer = 0;
+      this.garbageWarned = false;
+      this.raiseGarbage(this.createGarbageHoles(1));
+    }
+  }
+
+  /**
+   * Push garbage rows in from the bottom (one per hole column); blocks pushed past the top end the game
+   */
+  private raiseGarbage(holes: number[]): void {
+    const rows = holes.length;
+    const { board, overflowed } = insertGarbageRows(this.state.board, holes);
+    this.state.board = board;
+
+    if (overflowed) {
+      this.gameOver();
+      return;
+    }
+
+    // The falling piece rides up with the stack instead of overlapping it
+    const piece = this.state.currentPiece;
+    if (piece && checkCollision(board, piece).hasCollision) {
+      this.state.currentPiece = moveTetromino(piece, 0, -rows);
+    }
+  }
+
+  /**
+   * Finish the game when the last garbage cell is cleared
+   */
+  private checkGarbageGoal(): void {
+    if (this.state.isGameOver || !hasGarbageGoal(this.state.gameMode)) {
+      return;
+    }
+
+    if (countGarbageCells(this.state.board) === 0) {
+      this.emit(GameEventType.GOAL_REACHED, {
+        lines: this.state.lines,
+        time: this.getElapsedTime(),
+      });
+      this.gameOver(true);
+    }
   }
 
   /**
-   * Check time limit and trigger warnings
+   * Record split times and finish the game when the line goal is reached
    */
-  private checkTimeLimit(): void {
-    if (this.state.gameMode === GameMode.ULTRA) {
-      const previousElapsed = this.elapsedTime - 1 / 60; // approximate previous frame
+  private checkLineGoal(): void {
+    const lineGoal = getLineGoal(this.state.gameMode);
+    if (this.state.isGameOver || lineGoal === undefined) {
+      return;
+    }
+
+    // One split every splitInterval lines, the last one being the goal itself
+    const splitInterval = getSplitLines(this.state.gameMode);
+    if (splitInterval !== undefined) {
+      let splitLines = (this.splits.length + 1) * splitInterval;
+      while (splitLines <= lineGoal && this.state.lines >= splitLines) {
+        this.splits.push(this.getElapsedTime());
+        this.emit(GameEventType.SPLIT, { lines: splitLines, time: this.getElapsedTime() });
+        splitLines += splitInterval;
+      }
+    }
 
+    if (hasReachedLineGoal(this.state.gameMode, this.state.lines)) {
+      this.emit(GameEventType.GOAL_REACHED, {
+        lines: this.state.lines,
+        time: this.getElapsedTime(),
+      });
+      this.gameOver(true);
+    }
+  }
+
+  /**
+   * Check time limit and trigger warnings crossed since the previous tick
+   */
+  private checkTimeLimit(previousElapsed: number): void {
+    if (hasTimeLimit(this.state.gameMode)) {
       // Check for time warnings
       for (const warningTime of TIME_WARNINGS) {
         if (
           shouldTriggerTimeWarning(
             this.state.gameMode,
             previousElapsed,
-            this.elapsedTime,
+            this.getElapsedTime(),
             warningTime
           )
         ) {
@@ -141,9 +489,10 @@ export class GameEngine {
       }
 
       // Check if time is up
-      if (isTimeUp(this.state.gameMode, this.elapsedTime)) {
+      if (isTimeUp(this.state.gameMode, this.getElapsedTime())) {
         this.emit(GameEventType.TIME_UP);
-        this.gameOver();
+        // Running out of time only completes time-limit modes, not a missed line goal
+        this.gameOver(getGameModeConfig(this.state.gameMode).goalType === GoalType.TIME_LIMIT);
       }
     }
   }
@@ -152,8 +501,11 @@ export class GameEngine {
    * Handle automatic piece drop
    */
   private handleAutoDrop(): void {
-    const now = Date.now();
-    const dropSpeed = getDropSpeed(this.state.level);
+    const now = this.clock.now();
+    const dropSpeed = getDropSpeed(
+      this.state.level,
+      getGameModeConfig(this.state.gameMode).speedCurve
+    );
 
     if (now - this.lastDropTime >= dropSpeed) {
       this.moveDown();
@@ -161,6 +513,127 @@ export class GameEngine {
     }
   }
 
+  /**
+   * Lock a grounded piece when its lock delay has expired
+   */
+  private handleLockDelay(): void {
+    if (this.state.isGameOver || this.lockDelayStart === null || !this.state.currentPiece) {
+      return;
+    }
+
+    // Piece slid off a ledge: wait until it lands again
+    if (canMoveDown(this.state.board, this.state.currentPiece)) {
+      this.lockDelayStart = null;
+      return;
+    }
+
+    if (this.clock.now() - this.lockDelayStart >= this.lockDelay) {
+      this.lockCurrentPiece();
+    }
+  }
+
+  /**
+   * Start the lock delay of a piece that cannot fall any further
+   * Locks right away when there is no delay or no resets left
+   */
+  private startLockDelay(): void {
+    if (this.lockDelay <= 0 || this.lockResets >= this.maxLockResets) {
+      this.lockCurrentPiece();
+      return;
+    }
+
+    if (this.lockDelayStart === null) {
+      this.lockDelayStart = this.clock.now();
+      this.emit(GameEventType.LOCK_DELAY_STARTED, {
+        delay: this.lockDelay,
+        resetsLeft: this.maxLockResets - this.lockResets,
+      });
+    }
+  }
+
+  /**
+   * Restart the lock delay after a successful move or rotation, up to the reset limit
+   * A piece that lands by a move, rotation or soft drop starts its delay right away
+   */
+  private onPieceMoved(): void {
+    const piece = this.state.currentPiece;
+    if (!piece) {
+      return;
+    }
+
+    // Reaching a new lowest row gives the piece a fresh set of resets
+    if (piece.position.y > this.lowestRow) {
+      this.lowestRow = piece.position.y;
+      this.lockResets = 0;
+    }
+
+    if (this.lockDelayStart === null) {
+      if (
+        this.lockDelay > 0 &&
+        this.lockResets < this.maxLockResets &&
+        !canMoveDown(this.state.board, piece)
+      ) {
+        this.startLockDelay();
+      }
+      return;
+    }
+
+    if (this.lockResets >= this.maxLockResets) {
+      return;
+    }
+
+    this.lockResets++;
+    this.lockDelayStart = this.clock.now();
+    this.emit(GameEventType.LOCK_DELAY_RESET, {
+      resets: this.lockResets,
+      resetsLeft: this.maxLockResets - this.lockResets,
+    });
+  }
+
+  /**
+   * Clear lock delay tracking for a newly spawned piece
+   */
+  private resetLockState(): void {
+    this.lockDelayStart = null;
+    this.lockResets = 0;
+    this.lastActionWasRotation = false;
+    this.lowestRow = this.state.currentPiece?.position.y ?? 0;
+  }
+
+  /**
+   * Perform a player action
+   * Every action taken while the game runs is emitted as ACTION with its tick, so it can be replayed
+   */
+  public dispatch(action: GameAction): boolean {
+    if (this.state.isGameOver || this.isPaused) {
+      return false;
+    }
+
+    this.emit(GameEventType.ACTION, { action, tick: this.tick });
+
+    switch (action) {
+      case 'moveLeft':
+        return this.moveLeft();
+      case 'moveRight':
+        return this.moveRight();
+      case 'moveDown':
+        return this.moveDown();
+      case 'rotate':
+        return this.rotate();
+      case 'rotateCCW':
+        return this.rotateCounterClockwise();
+      case 'rotate180':
+        return this.rotate180();
+      case 'hardDrop':
+        this.hardDrop();
+        return true;
+      case 'hold':
+        return this.hold();
+      default:
+        return false;
+    }
+  }
+
   /**
    * Move piece left
    */
@@ -173,6 +646,8 @@ export class GameEngine {
 
     if (!checkCollision(this.state.board, movedPiece).hasCollision) {
       this.state.currentPiece = movedPiece;
+      this.lastActionWasRotation = false;
+      this.onPieceMoved();
       this.emit(GameEventType.PIECE_MOVED, { direction: 'left' });
       return true;
     }
@@ -192,6 +667,8 @@ export class GameEngine {
 
     if (!checkCollision(this.state.board, movedPiece).hasCollision) {
       this.state.currentPiece = movedPiece;
+      this.lastActionWasRotation = false;
+      this.onPieceMoved();
       this.emit(GameEventType.PIECE_MOVED, { direction: 'right' });
       return true;
     }
@@ -210,36 +687,57 @@ export class GameEngine {
     if (canMoveDown(this.state.board, this.state.currentPiece)) {
       this.state.currentPiece = moveTetromino(this.state.currentPiece, 0, 1);
       this.state.score = updateScoreAfterSoftDrop(this.state.score, 1);
+      this.lockDelayStart = null;
+      this.lastActionWasRotation = false;
+      this.onPieceMoved();
       this.emit(GameEventType.PIECE_MOVED, { direction: 'down' });
       return true;
     } else {
-      // Lock piece
-      this.lockCurrentPiece();
+      // Grounded: lock once the lock delay runs out
+      this.startLockDelay();
       return false;
     }
   }
 
   /**
-   * Rotate piece
+   * Rotate piece (clockwise by default) using SRS wall kicks
    */
-  public rotate(): boolean {
+  public rotate(direction: RotationDirection = RotationDirection.CLOCKWISE): boolean {
     if (this.state.isGameOver || this.isPaused || !this.state.currentPiece) {
       return false;
     }
 
-    const rotated = rotateTetromino(this.state.currentPiece);
+    const rotated = rotateTetromino(this.state.currentPiece, direction);
     const kick = canRotate(this.state.board, this.state.currentPiece, rotated);
 
     if (kick !== null) {
-      const finalPiece = moveTetromino(rotated, kick, 0);
+      const finalPiece = moveTetromino(rotated, kick.offset.x, kick.offset.y);
       this.state.currentPiece = finalPiece;
-      this.emit(GameEventType.PIECE_ROTATED);
+      this.lastActionWasRotation = true;
+      this.lastKickIndex = kick.index;
+      this.lastRotationWasHalfTurn = direction === RotationDirection.HALF_TURN;
+      this.onPieceMoved();
+      this.emit(GameEventType.PIECE_ROTATED, { direction, kick: kick.index });
       return true;
     }
 
     return false;
   }
 
+  /**
+   * Rotate piece counter-clockwise
+   */
+  public rotateCounterClockwise(): boolean {
+    return this.rotate(RotationDirection.COUNTER_CLOCKWISE);
+  }
+
+  /**
+   * Rotate piece by 180°
+   */
+  public rotate180(): boolean {
+    return this.rotate(RotationDirection.HALF_TURN);
+  }
+
   /**
    * Hard drop piece
    */
@@ -258,32 +756,81 @@ export class GameEngine {
     );
 
     this.state.score = updateScoreAfterHardDrop(this.state.score, distance);
+    if (distance > 0) {
+      this.lastActionWasRotation = false;
+    }
     this.lockCurrentPiece();
   }
 
+  /**
+   * Put the current piece in a rotation state and column, then hard drop it there
+   * The piece is turned and shifted at its current height without kicks; returns false if it does
+   * not fit there (whether the spot can be reached by moves and kicks is not checked)
+   */
+  public place(x: number, rotation: number): boolean {
+    if (
+      this.state.isGameOver ||
+      this.isPaused ||
+      !this.state.currentPiece ||
+      !Number.isInteger(x) ||
+      !Number.isInteger(rotation)
+    ) {
+      return false;
+    }
+
+    const piece = this.state.currentPiece;
+    const placed = moveTetromino(setTetrominoRotation(piece, rotation), x - piece.position.x, 0);
+    if (checkCollision(this.state.board, placed).hasCollision) {
+      return false;
+    }
+
+    this.state.currentPiece = placed;
+    this.lastActionWasRotation = false;
+    this.hardDrop();
+    return true;
+  }
+
   /**
    * Hold current piece
    */
   public hold(): boolean {
-    if (this.state.isGameOver || this.isPaused || !this.state.currentPiece || !this.state.canHold) {
+    if (
+      this.state.isGameOver ||
+      this.isPaused ||
+      !this.state.currentPiece ||
+      !this.state.canHold ||
+      !isHoldEnabled(this.state.gameMode)
+    ) {
       return false;
     }
 
-    if (this.state.holdPiece === null) {
-      // First hold - put current piece in hold and spawn next
-      this.state.holdPiece = createRandomTetromino();
-      this.state.holdPiece.type = this.state.currentPiece.type;
-      this.state.currentPiece = this.state.nextPiece;
-      this.state.nextPiece = createRandomTetromino();
-    } else {
-      // Swap current with hold
-      const temp = this.state.currentPiece.type;
-      this.state.currentPiece = createRandomTetromino();
-      this.state.currentPiece.type = this.state.holdPiece.type;
-      this.state.holdPiece.type = temp;
+    const heldType = this.state.currentPiece.type;
+    const previousHold = this.state.holdPiece;
+
+    // The last piece of a fixed queue has nothing to swap with
+    if (previousHold === null && this.state.nextPieces.length === 0) {
+      return false;
     }
 
+    // Pieces are rebuilt from their type so they come back in spawn orientation and position
+    this.state.holdPiece = createTetromino(heldType);
+    this.state.currentPiece =
+      previousHold === null ? this.takeNextPiece() : this.createSpawnedPiece(previousHold.type);
+
     this.state.canHold = false;
+    this.resetLockState();
+    this.lastDropTime = this.clock.now();
+    this.emit(GameEventType.HOLD_USED, {
+      held: heldType,
+      current: this.state.currentPiece?.type ?? null,
+      swapped: previousHold !== null,
+    });
+
+    // Block out: the swapped-in piece spawns overlapping blocks
+    if (this.state.currentPiece && isBlockOut(this.state.board, this.state.currentPiece)) {
+      this.gameOver();
+    }
+
     return true;
   }
 
@@ -295,61 +842,148 @@ export class GameEngine {
       return;
     }
 
-    // Check game over condition
-    if (isPieceAboveBoard(this.state.currentPiece)) {
-      this.gameOver();
-      return;
-    }
+    // T-spins are judged on the board before the piece locks
+    const tSpin = this.lastActionWasRotation
+      ? detectTSpin(
+          this.state.board,
+          this.state.currentPiece,
+          this.lastKickIndex,
+          this.lastRotationWasHalfTurn
+        )
+      : TSpinType.NONE;
 
     // Lock piece
-    this.state.board = lockPiece(this.state.board, this.state.currentPiece);
-    this.emit(GameEventType.PIECE_LOCKED);
+    const lockedPiece = this.state.currentPiece;
+    this.state.board = lockPiece(this.state.board, lockedPiece);
+    this.emit(GameEventType.PIECE_LOCKED, { piece: lockedPiece });
 
     // Clear lines
     const { board: newBoard, linesCleared } = clearCompleteLines(this.state.board);
     this.state.board = newBoard;
 
+    // Any piece that clears nothing breaks the combo, T-spins without lines keep back-to-back
+    const difficult = isDifficultClear(linesCleared, tSpin);
+    const isBackToBack = difficult && this.state.backToBack;
+    this.state.combo = linesCleared > 0 ? this.state.combo + 1 : -1;
     if (linesCleared > 0) {
+      this.state.backToBack = difficult;
+    }
+
+    if (linesCleared > 0 || tSpin !== TSpinType.NONE) {
       // Update score and level
-      const previousLines = this.state.lines;
+      const previousLevel = this.state.level;
       const scoreInfo = updateScoreAfterLineClear(
         this.state.score,
         this.state.lines,
         this.state.level,
-        linesCleared
+        linesCleared,
+        tSpin,
+        this.state.combo,
+        isBackToBack,
+        this.startLevel,
+        this.linesPerLevel,
+        this.nesLevelUp
       );
 
       this.state.score = scoreInfo.points;
       this.state.lines = scoreInfo.linesCleared;
       this.state.level = scoreInfo.level;
 
-      this.emit(GameEventType.LINE_CLEARED, { count: linesCleared, bonus: scoreInfo.bonus });
+      if (tSpin !== TSpinType.NONE) {
+        this.emit(GameEventType.T_SPIN, {
+          type: tSpin,
+          lines: linesCleared,
+          bonus: scoreInfo.bonus,
+        });
+      }
+
+      if (linesCleared > 0) {
+        this.emit(GameEventType.LINE_CLEARED, {
+          count: linesCleared,
+          tSpin,
+          bonus: scoreInfo.bonus,
+          combo: this.state.combo,
+          backToBack: isBackToBack,
+        });
+      }
+
+      // Perfect clear: the clear left nothing on the board
+      if (linesCleared > 0 && isBoardEmpty(this.state.board)) {
+        const perfectClearBonus = calculatePerfectClearBonus(linesCleared, previousLevel);
+        this.state.score += perfectClearBonus;
+        this.emit(GameEventType.PERFECT_CLEAR, { lines: linesCleared, bonus: perfectClearBonus });
+      }
 
       // Check level up
-      if (shouldLevelUp(previousLines, this.state.lines)) {
+      if (this.state.level > previousLevel) {
         this.emit(GameEventType.LEVEL_UP, { level: this.state.level });
       }
 
       this.emit(GameEventType.SCORE_UPDATED, { score: this.state.score });
-      this.combo++;
-    } else {
-      this.combo = 0;
     }
 
-    // Spawn next piece
-    this.state.currentPiece = this.state.nextPiece;
-    this.state.nextPiece = createRandomTetromino();
+    // Lock out: the piece settled entirely above the visible field and no clear pulled it down
+    if (linesCleared === 0 && isLockOut(lockedPiece)) {
+      this.gameOver();
+      return;
+    }
+
+    // Garbage sent by an opponent rises once a piece locks without clearing lines
+    if (linesCleared === 0 && this.pendingGarbage.length > 0) {
+      const holes = this.pendingGarbage;
+      this.pendingGarbage = [];
+      this.raiseGarbage(holes);
+      if (this.state.isGameOver) {
+        return;
+      }
+    }
+
+    // Spawn next piece, or the held one once a fixed queue has run out
+    this.state.currentPiece = this.takeNextPiece();
+    if (!this.state.currentPiece && this.state.holdPiece) {
+      this.state.currentPiece = this.createSpawnedPiece(this.state.holdPiece.type);
+      this.state.holdPiece = null;
+    }
     this.state.canHold = true;
+    this.resetLockState();
 
-    // Check if new piece can be placed (game over)
-    if (
-      this.state.currentPiece &&
-      checkCollision(this.state.board, this.state.currentPiece).hasCollision
-    ) {
+    // Block out: the next piece spawns overlapping blocks
+    if (this.state.currentPiece && isBlockOut(this.state.board, this.state.currentPiece)) {
       this.gameOver();
     }
   }
 
+  /**
+   * Queue garbage rows sent by an opponent, all with the same hole
+   * They rise after the next piece that locks without clearing lines
+   */
+  public receiveGarbage(rows: number): void {
+    if (this.state.isGameOver || !Number.isInteger(rows) || rows <= 0) {
+      return;
+    }
+
+    const hole = Math.floor(this.garbageRandom() * this.boardWidth);
+    for (let i = 0; i < rows; i++) {
+      this.pendingGarbage.push(hole);
+    }
+  }
+
+  /**
+   * Cancel queued garbage with lines of attack; returns the attack left over
+   */
+  public cancelGarbage(lines: number): number {
+    const cancelled = Math.min(Math.max(0, lines), this.pendingGarbage.length);
+    this.pendingGarbage.splice(0, cancelled);
+    return lines - cancelled;
+  }
+
+  /**
+   * Get the number of garbage rows waiting to rise
+   */
+  public getPendingGarbage(): number {
+    return this.pendingGarbage.length;
+  }
+
   /**
    * Pause game
    */
@@ -373,7 +1007,6 @@ export class GameEngine {
 
     this.isPaused = false;
     this.state.isPaused = false;
-    this.lastDropTime = Date.now(); // Reset drop timer
     this.emit(GameEventType.GAME_RESUMED);
   }
 
@@ -389,48 +1022,107 @@ export class GameEngine {
   }
 
   /**
-   * Game over
+   * Game over (completed when a goal ended the game rather than a top out)
    */
-  private gameOver(): void {
+  private gameOver(completed: boolean = false): void {
     this.state.isGameOver = true;
     this.emit(GameEventType.GAME_OVER, {
       score: this.state.score,
       lines: this.state.lines,
       level: this.state.level,
-      duration: this.elapsedTime,
+      duration: this.getElapsedTime(),
+      completed,
     });
   }
 
   /**
-   * Restart game
+   * Restart game (a new seed is drawn unless one is given)
    */
-  public restart(mode?: GameMode): void {
+  public restart(mode?: GameMode, seed?: number): void {
+    this.previewCount = this.resolvePreviewCount(mode || this.state.gameMode);
+    this.boardWidth = getBoardDimensions(mode || this.state.gameMode).width;
+    this.boardHeight = getBoardDimensions(mode || this.state.gameMode).height;
+    this.startLevel = resolveStartLevel(mode || this.state.gameMode, this.startLevelOverride);
+    this.linesPerLevel = getGameModeConfig(mode || this.state.gameMode).linesPerLevel;
+    this.nesLevelUp = getGameModeConfig(mode || this.state.gameMode).nesLevelUp ?? false;
+    this.lockDelay = getGameModeConfig(mode || this.state.gameMode).lockDelay;
+    this.maxLockResets = getGameModeConfig(mode || this.state.gameMode).maxLockResets;
+    this.generator.reset(seed ?? generateSeed());
+    this.garbageRandom = this.createGarbageRandom();
     this.state = this.createInitialState(mode || this.state.gameMode);
-    this.lastDropTime = Date.now();
-    this.elapsedTime = 0;
+    this.resetLockState();
+    this.clock.reset();
+    this.tick = 0;
+    this.lastDropTime = 0;
+    this.splits = [];
+    this.garbageTimer = 0;
+    this.garbageWarned = false;
+    this.pendingGarbage = [];
+    this.puzzleTracker?.reset();
     this.isPaused = false;
-    this.combo = 0;
+  }
+
+  /**
+   * Get the seed of the current piece sequence
+   */
+  public getSeed(): number {
+    return this.generator.getSeed();
+  }
+
+  /**
+   * Get the number of upcoming pieces in the next queue
+   */
+  public getPreviewCount(): number {
+    return this.previewCount;
+  }
+
+  /**
+   * Get the puzzle being played, undefined outside Puzzle mode
+   */
+  public getPuzzle(): PuzzleDefinition | undefined {
+    return this.puzzle;
+  }
+
+  /**
+   * Get the level the current game started from
+   */
+  public getStartLevel(): number {
+    return this.startLevel;
+  }
+
+  /**
+   * Get split times in seconds (line-goal modes)
+   */
+  public getSplits(): number[] {
+    return [...this.splits];
+  }
+
+  /**
+   * Get the number of update ticks played (replay timestamps)
+   */
+  public getTick(): number {
+    return this.tick;
   }
 
   /**
    * Get elapsed time in seconds
    */
   public getElapsedTime(): number {
-    return this.elapsedTime;
+    return this.clock.now() / 1000;
   }
 
   /**
    * Get remaining time for Ultra mode
    */
   public getRemainingTime(): number {
-    return getRemainingTime(this.state.gameMode, this.elapsedTime);
+    return getRemainingTime(this.state.gameMode, this.getElapsedTime());
   }
 
   /**
    * Get ghost piece position
    */
   public getGhostPosition(): Tetromino | null {
-    if (!this.state.currentPiece) {
+    if (!this.state.currentPiece || !isGhostEnabled(this.state.gameMode)) {
       return null;
     }
 
@@ -1,16 +1,50 @@
 /**
  * Game modes for Tetris V2
- * Factory pattern for Classic and Ultra modes
+ * Factory pattern for Classic, Ultra, Sprint, Marathon, Dig, Survival, Puzzle and Custom modes
  */
 
-import { GameMode } from '@/types/index';
-import type { GameModeConfig } from '@/types/index';
-import { GAME_MODE_CONFIGS } from '@constants/config';
+import { GameMode, GoalType, RandomizerType, RankingMetric, SpeedCurvePreset } from '@/types/index';
+import type { CustomModeSettings, GameModeConfig } from '@/types/index';
+import {
+  BOARD_COLS,
+  BOARD_ROWS,
+  CUSTOM_MAX_BOARD_HEIGHT,
+  CUSTOM_MAX_BOARD_WIDTH,
+  CUSTOM_MAX_LINE_GOAL,
+  CUSTOM_MAX_TIME_LIMIT,
+  CUSTOM_MIN_BOARD_HEIGHT,
+  CUSTOM_MIN_BOARD_WIDTH,
+  DEFAULT_CUSTOM_MODE_SETTINGS,
+  GAME_MODE_CONFIGS,
+  GARBAGE_INTERVAL_STEP,
+  LINES_PER_LEVEL,
+  LOCK_DELAY,
+  MAX_LEVEL,
+  MAX_LOCK_RESETS,
+  MAX_PREVIEW_COUNT,
+  MIN_GARBAGE_INTERVAL,
+  MIN_PREVIEW_COUNT,
+  SPEED_CURVES,
+} from '@constants/config';
+
+const SPEED_CURVE_PRESETS: readonly string[] = Object.values(SpeedCurvePreset);
+const CUSTOM_RANDOMIZERS: readonly string[] = [
+  RandomizerType.BAG,
+  RandomizerType.CLASSIC,
+  RandomizerType.HISTORY,
+];
+
+// Config built in the custom mode builder, used for GameMode.CUSTOM once set
+let customModeConfig: GameModeConfig | null = null;
 
 /**
  * Get configuration for a specific game mode
  */
 export function getGameModeConfig(mode: GameMode): GameModeConfig {
+  if (mode === GameMode.CUSTOM && customModeConfig) {
+    return customModeConfig;
+  }
+
   const config = GAME_MODE_CONFIGS[mode];
   if (!config) {
     throw new Error(`Unknown game mode: ${mode}`);
@@ -53,6 +87,218 @@ export function isTimeUp(mode: GameMode, elapsedSeconds: number): boolean {
   return elapsedSeconds >= config.timeLimit;
 }
 
+/**
+ * Get the line goal of a mode, undefined when the mode has none
+ */
+export function getLineGoal(mode: GameMode): number | undefined {
+  const config = getGameModeConfig(mode);
+  return config.goalType === GoalType.LINES ? config.lineGoal : undefined;
+}
+
+/**
+ * Check if the line goal has been reached
+ */
+export function hasReachedLineGoal(mode: GameMode, lines: number): boolean {
+  const lineGoal = getLineGoal(mode);
+  return lineGoal !== undefined && lines >= lineGoal;
+}
+
+/**
+ * Get the number of garbage rows a mode starts with
+ */
+export function getStartingGarbageRows(mode: GameMode): number {
+  return getGameModeConfig(mode).garbageRows ?? 0;
+}
+
+/**
+ * Get the time between rising garbage rows at a level, undefined when garbage never rises
+ */
+export function getGarbageInterval(mode: GameMode, level: number): number | undefined {
+  const { garbageInterval } = getGameModeConfig(mode);
+  if (garbageInterval === undefined) {
+    return undefined;
+  }
+  return Math.max(MIN_GARBAGE_INTERVAL, garbageInterval - level * GARBAGE_INTERVAL_STEP);
+}
+
+/**
+ * Check if a mode is won by clearing all garbage
+ */
+export function hasGarbageGoal(mode: GameMode): boolean {
+  return getGameModeConfig(mode).goalType === GoalType.CLEAR_GARBAGE;
+}
+
+/**
+ * Get the split interval in lines, undefined when the mode records no splits
+ */
+export function getSplitLines(mode: GameMode): number | undefined {
+  return getGameModeConfig(mode).splitLines;
+}
+
+/**
+ * Check if players can pick the start level of a mode
+ */
+export function hasSelectableStartLevel(mode: GameMode): boolean {
+  return getGameModeConfig(mode).maxStartLevel !== undefined;
+}
+
+/**
+ * Start level for a mode, using the player's pick when the mode allows one
+ */
+export function resolveStartLevel(mode: GameMode, requestedLevel?: number): number {
+  const config = getGameModeConfig(mode);
+  if (config.maxStartLevel === undefined || requestedLevel === undefined) {
+    return config.startLevel;
+  }
+  return Math.min(Math.max(Math.floor(requestedLevel), 0), config.maxStartLevel);
+}
+
+/**
+ * Get the board size of a mode (10x20 unless the mode picks another)
+ */
+export function getBoardDimensions(mode: GameMode): { width: number; height: number } {
+  const { boardWidth = BOARD_COLS, boardHeight = BOARD_ROWS } = getGameModeConfig(mode);
+  return { width: boardWidth, height: boardHeight };
+}
+
+/**
+ * Check if a mode lets players hold a piece
+ */
+export function isHoldEnabled(mode: GameMode): boolean {
+  return getGameModeConfig(mode).holdEnabled ?? true;
+}
+
+/**
+ * Check if a mode shows the ghost piece
+ */
+export function isGhostEnabled(mode: GameMode): boolean {
+  return getGameModeConfig(mode).ghostEnabled ?? true;
+}
+
+/**
+ * Get the randomizer a mode deals its pieces with
+ */
+export function getRandomizerType(mode: GameMode): RandomizerType {
+  return getGameModeConfig(mode).randomizer ?? RandomizerType.BAG;
+}
+
+/**
+ * Clamp a number read from a form or storage, falling back when it is not a number
+ */
+function clampSetting(value: unknown, min: number, max: number, fallback: number): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return fallback;
+  }
+  return Math.min(Math.max(Math.floor(value), min), max);
+}
+
+/**
+ * Fill in and clamp custom mode settings from the builder form or a saved preset
+ */
+export function normalizeCustomModeSettings(data: unknown): CustomModeSettings {
+  const settings =
+    typeof data === 'object' && data !== null ? (data as Record<string, unknown>) : {};
+  const defaults = DEFAULT_CUSTOM_MODE_SETTINGS;
+
+  return {
+    boardWidth: clampSetting(
+      settings.boardWidth,
+      CUSTOM_MIN_BOARD_WIDTH,
+      CUSTOM_MAX_BOARD_WIDTH,
+      defaults.boardWidth
+    ),
+    boardHeight: clampSetting(
+      settings.boardHeight,
+      CUSTOM_MIN_BOARD_HEIGHT,
+      CUSTOM_MAX_BOARD_HEIGHT,
+      defaults.boardHeight
+    ),
+    startLevel: clampSetting(settings.startLevel, 0, MAX_LEVEL, defaults.startLevel),
+    speedCurve:
+      typeof settings.speedCurve === 'string' && SPEED_CURVE_PRESETS.includes(settings.speedCurve)
+        ? (settings.speedCurve as SpeedCurvePreset)
+        : defaults.speedCurve,
+    timeLimit: clampSetting(settings.timeLimit, 0, CUSTOM_MAX_TIME_LIMIT, defaults.timeLimit),
+    lineGoal: clampSetting(settings.lineGoal, 0, CUSTOM_MAX_LINE_GOAL, defaults.lineGoal),
+    previewCount: clampSetting(
+      settings.previewCount,
+      MIN_PREVIEW_COUNT,
+      MAX_PREVIEW_COUNT,
+      defaults.previewCount
+    ),
+    holdEnabled:
+      typeof settings.holdEnabled === 'boolean' ? settings.holdEnabled : defaults.holdEnabled,
+    ghostEnabled:
+      typeof settings.ghostEnabled === 'boolean' ? settings.ghostEnabled : defaults.ghostEnabled,
+    randomizer:
+      typeof settings.randomizer === 'string' && CUSTOM_RANDOMIZERS.includes(settings.randomizer)
+        ? (settings.randomizer as RandomizerType)
+        : defaults.randomizer,
+  };
+}
+
+/**
+ * Build a custom mode config: a line goal is raced against the clock,
+ * otherwise a time limit scores like Ultra and no limit plays endless
+ */
+export function createCustomModeConfig(settings: CustomModeSettings): GameModeConfig {
+  const { timeLimit, lineGoal } = settings;
+  let goalType = GoalType.NONE;
+  if (lineGoal > 0) {
+    goalType = GoalType.LINES;
+  } else if (timeLimit > 0) {
+    goalType = GoalType.TIME_LIMIT;
+  }
+
+  return {
+    mode: GameMode.CUSTOM,
+    goalType,
+    rankBy: goalType === GoalType.LINES ? RankingMetric.TIME : RankingMetric.SCORE,
+    timeLimit: timeLimit > 0 ? timeLimit : undefined,
+    lineGoal: lineGoal > 0 ? lineGoal : undefined,
+    startLevel: settings.startLevel,
+    linesPerLevel: LINES_PER_LEVEL,
+    speedCurve: SPEED_CURVES[settings.speedCurve],
+    previewCount: settings.previewCount,
+    lockDelay: LOCK_DELAY,
+    maxLockResets: MAX_LOCK_RESETS,
+    boardWidth: settings.boardWidth,
+    boardHeight: settings.boardHeight,
+    randomizer: settings.randomizer,
+    holdEnabled: settings.holdEnabled,
+    ghostEnabled: settings.ghostEnabled,
+    customSettings: settings,
+  };
+}
+
+/**
+ * Get the config set for GameMode.CUSTOM, null while it uses the default
+ */
+export function getCustomModeConfig(): GameModeConfig | null {
+  return customModeConfig;
+}
+
+/**
+ * Use a config for GameMode.CUSTOM (null restores the default)
+ */
+export function setCustomModeConfig(config: GameModeConfig | null): void {
+  customModeConfig = config;
+}
+
+/**
+ * Check if a mode keeps high scores (puzzles and custom rules are not ranked)
+ */
+export function isRankedMode(mode: GameMode): boolean {
+  return getAllGameModes().includes(mode);
+}
+
+/**
+ * Check if high scores of a mode are ranked by completion time
+ */
+export function isRankedByTime(mode: GameMode): boolean {
+  return getGameModeConfig(mode).rankBy === RankingMetric.TIME;
+}
+
 /**
  * Format time for display (MM:SS or HH:MM:SS)
  */
@@ -68,6 +314,18 @@ export function formatTime(seconds: number): string {
   return `${minutes}:${secs.toString().padStart(2, '0')}`;
 }
 
+/**
+ * Format time with hundredths for races (M:SS.cc)
+ */
+export function formatPreciseTime(seconds: number): string {
+  const totalHundredths = Math.floor(seconds * 100);
+  const minutes = Math.floor(totalHundredths / 6000);
+  const secs = Math.floor((totalHundredths % 6000) / 100);
+  const hundredths = totalHundredths % 100;
+
+  return `${minutes}:${secs.toString().padStart(2, '0')}.${hundredths.toString().padStart(2, '0')}`;
+}
+
 /**
  * Check if a time warning should be triggered
  */
@@ -94,7 +352,28 @@ export function shouldTriggerTimeWarning(
  * Get all game modes
  */
 export function getAllGameModes(): GameMode[] {
-  return [GameMode.CLASSIC, GameMode.ULTRA];
+  return [
+    GameMode.CLASSIC,
+    GameMode.ULTRA,
+    GameMode.SPRINT,
+    GameMode.MARATHON,
+    GameMode.DIG,
+    GameMode.SURVIVAL,
+  ];
+}
+
+/**
+ * Get the i18n key of a game mode label
+ */
+export function getGameModeLabelKey(mode: GameMode): string {
+  return `modes.${mode}`;
+}
+
+/**
+ * Get the i18n key of a game mode description
+ */
+export function getGameModeDescriptionKey(mode: GameMode): string {
+  return `modes.${mode}Desc`;
 }
 
 /**
@@ -106,6 +385,18 @@ export function getGameModeName(mode: GameMode): string {
       return 'Classic';
     case GameMode.ULTRA:
       return 'Ultra';
+    case GameMode.SPRINT:
+      return 'Sprint';
+    case GameMode.MARATHON:
+      return 'Marathon';
+    case GameMode.DIG:
+      return 'Dig';
+    case GameMode.SURVIVAL:
+      return 'Survival';
+    case GameMode.PUZZLE:
+      return 'Puzzle';
+    case GameMode.CUSTOM:
+      return 'Custom';
     default:
       return 'Unknown';
   }
@@ -120,6 +411,18 @@ export function getGameModeDescription(mode: GameMode): string {
       return 'Play until game over. Clear lines to level up and increase speed.';
     case GameMode.ULTRA:
       return 'Score as many points as possible in 2 minutes!';
+    case GameMode.SPRINT:
+      return 'Clear 40 lines as fast as possible!';
+    case GameMode.MARATHON:
+      return 'Clear 150 lines, starting from the level of your choice.';
+    case GameMode.DIG:
+      return 'Dig through 10 rows of garbage as fast as possible!';
+    case GameMode.SURVIVAL:
+      return 'Garbage rises from below, faster every level. Hold on as long as you can!';
+    case GameMode.PUZZLE:
+      return 'Solve a prebuilt board with a fixed set of pieces.';
+    case GameMode.CUSTOM:
+      return 'Build your own rules and save them as presets.';
     default:
       return '';
   }
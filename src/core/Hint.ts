@@ -0,0 +1,53 @@
+/**
+ * Placement hints for Tetris V2
+ * Suggests where to drop the current piece using the AI's board evaluator
+ */
+
+import type { AIWeights, BoardGrid, GameState, Tetromino, TetrominoType } from '@/types/index';
+import { AI_WEIGHTS } from '@constants/config';
+import { findPlacements, getBestPlacement } from './AIPlayer';
+
+/**
+ * Get the best spot for the current piece where it is, or null without a piece
+ * Hold is left out: the hint only shows where the piece in play should go
+ */
+export function findHintPlacement(
+  state: Readonly<GameState>,
+  weights: AIWeights = AI_WEIGHTS
+): Tetromino | null {
+  const { board, currentPiece } = state;
+  if (!currentPiece) {
+    return null;
+  }
+
+  return getBestPlacement(findPlacements(board, currentPiece, weights))?.piece ?? null;
+}
+
+/**
+ * Keeps the hint for the piece in play, worked out again only when the board or piece changes
+ * (the engine replaces the board on every lock, so comparing references is enough)
+ */
+export class PlacementHint {
+  private weights: AIWeights;
+  private board: BoardGrid | null = null;
+  private type: TetrominoType | null = null;
+  private hint: Tetromino | null = null;
+
+  constructor(weights: AIWeights = AI_WEIGHTS) {
+    this.weights = weights;
+  }
+
+  /**
+   * Get the suggested landing spot for the current piece
+   */
+  public get(state: Readonly<GameState>): Tetromino | null {
+    const type = state.currentPiece?.type ?? null;
+    if (state.board !== this.board || type !== this.type) {
+      this.board = state.board;
+      this.type = type;
+      this.hint = findHintPlacement(state, this.weights);
+    }
+
+    return this.hint;
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Placement pathfinder for Tetris V2
+ * Breadth-first search over the engine's own moves (shifts, SRS rotations with kicks, soft drop)
+ * to find every spot a piece can lock in and the fewest inputs that get it there
+ */
+
+import { RotationDirection } from '@/types/index';
+import type { BoardGrid, GameAction, Tetromino } from '@/types/index';
+import { canMoveDown, canRotate, checkCollision, findGhostPosition } from './CollisionDetector';
+import { getTetrominoOccupiedCells, moveTetromino, rotateTetromino } from './Tetromino';
+
+/**
+ * A spot a piece can lock in, with the shortest inputs from its start (ending with the hard drop)
+ */
+export interface ReachablePlacement {
+  piece: Tetromino;
+  path: GameAction[];
+  /** Inputs the path costs before its hard drop */
+  inputs: number;
+}
+
+export interface PathfinderOptions {
+  /** Include 180° rotations in the move set (default true) */
+  allow180?: boolean;
+  /**
+   * Count inputs the way finesse does (default false): soft drops are free and a shift held
+   * until the piece stops (DAS) is one input, played out as its single shifts in the path
+   */
+  finesse?: boolean;
+}
+
+type MoveAction = Exclude<GameAction, 'hardDrop' | 'hold'>;
+
+type SearchMove = MoveAction | 'dasLeft' | 'dasRight';
+
+interface SearchNode {
+  piece: Tetromino;
+  path: MoveAction[];
+}
+
+/**
+ * Apply a move like GameEngine does, or return null if the engine would refuse it
+ */
+function applyMove(board: BoardGrid, piece: Tetromino, action: MoveAction): Tetromino | null {
+  switch (action) {
+    case 'moveLeft':
+    case 'moveRight': {
+      const moved = moveTetromino(piece, action === 'moveLeft' ? -1 : 1, 0);
+      return checkCollision(board, moved).hasCollision ? null : moved;
+    }
+    case 'moveDown':
+      return canMoveDown(board, piece) ? moveTetromino(piece, 0, 1) : null;
+    default: {
+      const direction =
+        action === 'rotate'
+          ? RotationDirection.CLOCKWISE
+          : action === 'rotateCCW'
+            ? RotationDirection.COUNTER_CLOCKWISE
+            : RotationDirection.HALF_TURN;
+      const rotated = rotateTetromino(piece, direction);
+      const kick = canRotate(board, piece, rotated);
+      return kick ? moveTetromino(rotated, kick.offset.x, kick.offset.y) : null;
+    }
+  }
+}
+
+/**
+ * Apply a search move, which may take several engine moves (DAS), or return null if it goes nowhere
+ */
+function applySearchMove(
+  board: BoardGrid,
+  piece: Tetromino,
+  move: SearchMove
+): { piece: Tetromino; actions: MoveAction[] } | null {
+  if (move !== 'dasLeft' && move !== 'dasRight') {
+    const next = applyMove(board, piece, move);
+    return next ? { piece: next, actions: [move] } : null;
+  }
+
+  const shift = move === 'dasLeft' ? 'moveLeft' : 'moveRight';
+  const actions: MoveAction[] = [];
+  let current = piece;
+  for (let next = applyMove(board, current, shift); next; next = applyMove(board, next, shift)) {
+    current = next;
+    actions.push(shift);
+  }
+  return actions.length > 0 ? { piece: current, actions } : null;
+}
+
+function getStateKey(piece: Tetromino): string {
+  return `${piece.position.x},${piece.position.y},${piece.rotation}`;
+}
+
+/**
+ * Placements are told apart by the cells they fill (an S flat in state 0 or 2 is the same spot)
+ */
+function getCellsKey(piece: Tetromino): string {
+  return getTetrominoOccupiedCells(piece)
+    .map(({ x, y }) => `${x},${y}`)
+    .sort()
+    .join(';');
+}
+
+/**
+ * Find every spot the piece can lock in from where it is, each with its cheapest input sequence
+ * Rotations are tried before shifts and soft drops, so ties favour turning first
+ */
+export function findReachablePlacements(
+  board: BoardGrid,
+  piece: Tetromino,
+  options: PathfinderOptions = {}
+): ReachablePlacement[] {
+  const finesse = options.finesse ?? false;
+  const moves: SearchMove[] = ['rotate', 'rotateCCW'];
+  if (options.allow180 ?? true) moves.push('rotate180');
+  moves.push('moveLeft', 'moveRight');
+  if (finesse) moves.push('dasLeft', 'dasRight');
+  moves.push('moveDown');
+
+  const costs = new Map<string, number>([[getStateKey(piece), 0]]);
+  const placements = new Map<string, ReachablePlacement>();
+  let layer: SearchNode[] = [{ piece, path: [] }];
+
+  // Searched one cost at a time, free moves joining the layer being searched (0-1 BFS),
+  // so the first hard drop found onto a spot is the cheapest path to it
+  for (let cost = 0; layer.length > 0; cost++) {
+    const nextLayer: SearchNode[] = [];
+
+    for (let head = 0; head < layer.length; head++) {
+      const node = layer[head];
+      if (!node) break;
+      // Reached again for less after it was queued
+      if (costs.get(getStateKey(node.piece)) !== cost) continue;
+
+      const ghost = findGhostPosition(board, node.piece);
+      const landed = moveTetromino(node.piece, 0, ghost.y - node.piece.position.y);
+      const cellsKey = getCellsKey(landed);
+      if (!placements.has(cellsKey)) {
+        placements.set(cellsKey, {
+          piece: landed,
+          path: [...node.path, 'hardDrop'],
+          inputs: cost,
+        });
+      }
+
+      for (const move of moves) {
+        const next = applySearchMove(board, node.piece, move);
+        if (!next) continue;
+
+        const free = finesse && move === 'moveDown';
+        const nextCost = free ? cost : cost + 1;
+        const key = getStateKey(next.piece);
+        if ((costs.get(key) ?? Infinity) <= nextCost) continue;
+        costs.set(key, nextCost);
+        (free ? layer : nextLayer).push({
+          piece: next.piece,
+          path: [...node.path, ...next.actions],
+        });
+      }
+    }
+
+    layer = nextLayer;
+  }
+
+  return [...placements.values()];
+}
+
+/**
+ * Get the cheapest placement that locks the piece in the same cells as the target, or null if unreachable
+ */
+export function findPlacement(
+  board: BoardGrid,
+  piece: Tetromino,
+  target: Tetromino,
+  options: PathfinderOptions = {}
+): ReachablePlacement | null {
+  const targetKey = getCellsKey(target);
+  return (
+    findReachablePlacements(board, piece, options).find(
+      (candidate) => getCellsKey(candidate.piece) === targetKey
+    ) ?? null
+  );
+}
+
+/**
+ * Get the shortest inputs that lock the piece in the same cells as the target, or null if unreachable
+ */
+export function findShortestPath(
+  board: BoardGrid,
+  piece: Tetromino,
+  target: Tetromino,
+  options: PathfinderOptions = {}
+): GameAction[] | null {
+  return findPlacement(board, piece, target, options)?.path ?? null;
+}
@@ -0,0 +1,242 @@
+/**
+ * Piece generators for Tetris V2
+ * Seeded randomizers that decide the order in which tetrominoes are dealt
+ */
+
+import { RandomizerType, TetrominoType } from '@/types/index';
+import { ALL_TETROMINO_TYPES } from './Tetromino';
+
+/**
+ * Random function returning a float in [0, 1)
+ */
+export type RandomFunction = () => number;
+
+/**
+ * Source of upcoming tetromino types
+ */
+export interface PieceGenerator {
+  readonly type: RandomizerType;
+  next(): TetrominoType;
+  reset(seed?: number): void;
+  getSeed(): number;
+  /** False once a finite sequence is used up (endless generators omit it) */
+  hasNext?(): boolean;
+}
+
+/**
+ * Create a seeded pseudo-random generator (mulberry32)
+ * The same seed always produces the same sequence of numbers
+ */
+export function createSeededRandom(seed: number): RandomFunction {
+  let state = seed >>> 0;
+
+  return (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generate a fresh 32-bit seed
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/**
+ * Pick a random element from a list
+ */
+function pickRandom<T>(items: readonly T[], random: RandomFunction): T {
+  const item = items[Math.floor(random() * items.length)];
+  if (item === undefined) {
+    throw new Error('Cannot pick from an empty list');
+  }
+  return item;
+}
+
+/**
+ * Shared seed handling for all generators
+ */
+abstract class SeededPieceGenerator implements PieceGenerator {
+  public abstract readonly type: RandomizerType;
+  protected random: RandomFunction;
+  private seed: number;
+
+  constructor(seed: number = generateSeed()) {
+    this.seed = seed >>> 0;
+    this.random = createSeededRandom(this.seed);
+  }
+
+  public abstract next(): TetrominoType;
+
+  /**
+   * Restart the sequence (same seed if none given)
+   */
+  public reset(seed: number = this.seed): void {
+    this.seed = seed >>> 0;
+    this.random = createSeededRandom(this.seed);
+    this.onReset();
+  }
+
+  public getSeed(): number {
+    return this.seed;
+  }
+
+  protected onReset(): void {
+    // Stateless by default
+  }
+}
+
+/**
+ * 7-bag generator: deals every piece once per shuffled bag of seven
+ * Prevents floods and limits droughts to 12 pieces
+ */
+export class BagGenerator extends SeededPieceGenerator {
+  public readonly type = RandomizerType.BAG;
+  private bag: TetrominoType[] = [];
+
+  public next(): TetrominoType {
+    if (this.bag.length === 0) {
+      this.bag = this.shuffle([...ALL_TETROMINO_TYPES]);
+    }
+
+    const type = this.bag.shift();
+    if (!type) {
+      throw new Error('Failed to draw from bag');
+    }
+    return type;
+  }
+
+  protected override onReset(): void {
+    this.bag = [];
+  }
+
+  /**
+   * Fisher-Yates shuffle using the seeded random
+   */
+  private shuffle(types: TetrominoType[]): TetrominoType[] {
+    for (let i = types.length - 1; i > 0; i--) {
+      const j = Math.floor(this.random() * (i + 1));
+      const current = types[i];
+      const swapped = types[j];
+      if (current !== undefined && swapped !== undefined) {
+        types[i] = swapped;
+        types[j] = current;
+      }
+    }
+    return types;
+  }
+}
+
+/**
+ * Classic memoryless generator: every piece is an independent roll
+ */
+export class ClassicGenerator extends SeededPieceGenerator {
+  public readonly type = RandomizerType.CLASSIC;
+
+  public next(): TetrominoType {
+    return pickRandom(ALL_TETROMINO_TYPES, this.random);
+  }
+}
+
+const HISTORY_SIZE = 4;
+const HISTORY_ROLLS = 6;
+const INITIAL_HISTORY = [TetrominoType.Z, TetrominoType.S, TetrominoType.S, TetrominoType.Z];
+const HISTORY_FIRST_PIECES = [TetrominoType.I, TetrominoType.J, TetrominoType.L, TetrominoType.T];
+
+/**
+ * TGM-style history generator: rerolls a piece found in the last four dealt,
+ * up to six tries. The first piece is never S, Z or O.
+ */
+export class HistoryGenerator extends SeededPieceGenerator {
+  public readonly type = RandomizerType.HISTORY;
+  private history: TetrominoType[] = [...INITIAL_HISTORY];
+  private isFirstPiece = true;
+
+  public next(): TetrominoType {
+    let type: TetrominoType;
+
+    if (this.isFirstPiece) {
+      type = pickRandom(HISTORY_FIRST_PIECES, this.random);
+      this.isFirstPiece = false;
+    } else {
+      type = pickRandom(ALL_TETROMINO_TYPES, this.random);
+      for (let roll = 1; roll < HISTORY_ROLLS && this.history.includes(type); roll++) {
+        type = pickRandom(ALL_TETROMINO_TYPES, this.random);
+      }
+    }
+
+    this.history.push(type);
+    if (this.history.length > HISTORY_SIZE) {
+      this.history.shift();
+    }
+
+    return type;
+  }
+
+  protected override onReset(): void {
+    this.history = [...INITIAL_HISTORY];
+    this.isFirstPiece = true;
+  }
+}
+
+/**
+ * Fixed generator: deals a predefined sequence once (puzzles)
+ */
+export class FixedSequenceGenerator implements PieceGenerator {
+  public readonly type = RandomizerType.FIXED;
+  private readonly sequence: readonly TetrominoType[];
+  private index = 0;
+
+  constructor(sequence: readonly TetrominoType[]) {
+    this.sequence = sequence;
+  }
+
+  public next(): TetrominoType {
+    const type = this.sequence[this.index];
+    if (!type) {
+      throw new Error('Fixed piece sequence is used up');
+    }
+    this.index++;
+    return type;
+  }
+
+  public hasNext(): boolean {
+    return this.index < this.sequence.length;
+  }
+
+  /**
+   * Deal the sequence again from the start (the seed is ignored)
+   */
+  public reset(): void {
+    this.index = 0;
+  }
+
+  public getSeed(): number {
+    return 0;
+  }
+}
+
+/**
+ * Create a piece generator for a randomizer type
+ */
+export function createPieceGenerator(
+  type: RandomizerType = RandomizerType.BAG,
+  seed?: number
+): PieceGenerator {
+  switch (type) {
+    case RandomizerType.BAG:
+      return new BagGenerator(seed);
+    case RandomizerType.CLASSIC:
+      return new ClassicGenerator(seed);
+    case RandomizerType.HISTORY:
+      return new HistoryGenerator(seed);
+    case RandomizerType.FIXED:
+      throw new Error('A fixed generator needs its sequence, use FixedSequenceGenerator');
+    default:
+      throw new Error(`Unknown randomizer type: ${String(type)}`);
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Puzzle mode for Tetris V2
+ * Loads puzzle definitions and checks their goals from game events
+ */
+
+import { GameEventType, PuzzleGoalType, TSpinType, TetrominoType } from '@/types/index';
+import type { GameEvent, PuzzleDefinition, PuzzleGoal } from '@/types/index';
+import PUZZLES from '@constants/puzzles.json';
+
+const TETROMINO_TYPES: readonly string[] = Object.values(TetrominoType);
+const PUZZLE_GOAL_TYPES: readonly string[] = Object.values(PuzzleGoalType);
+const T_SPIN_TYPES: readonly string[] = [TSpinType.MINI, TSpinType.FULL];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate a puzzle goal read from JSON
+ */
+function parsePuzzleGoal(data: unknown): PuzzleGoal {
+  if (!isRecord(data) || typeof data.type !== 'string' || !PUZZLE_GOAL_TYPES.includes(data.type)) {
+    throw new Error('Puzzle goal has an unknown type');
+  }
+  if (data.lines !== undefined && (typeof data.lines !== 'number' || data.lines < 0)) {
+    throw new Error('Puzzle goal lines must be a positive number');
+  }
+  if (
+    data.tSpin !== undefined &&
+    (typeof data.tSpin !== 'string' || !T_SPIN_TYPES.includes(data.tSpin))
+  ) {
+    throw new Error('Puzzle goal T-spin must be "mini" or "full"');
+  }
+
+  const type = data.type as PuzzleGoalType;
+  if (type === PuzzleGoalType.CLEAR_LINES && data.lines === undefined) {
+    throw new Error('Line clear puzzles need a line count');
+  }
+  if (type === PuzzleGoalType.T_SPIN && data.tSpin === undefined) {
+    throw new Error('T-spin puzzles need a T-spin type');
+  }
+
+  return {
+    type,
+    lines: data.lines,
+    tSpin: data.tSpin as TSpinType | undefined,
+  };
+}
+
+/**
+ * Validate a puzzle read from JSON (the board layout itself is checked when it is loaded)
+ */
+export function parsePuzzle(data: unknown): PuzzleDefinition {
+  if (!isRecord(data) || typeof data.id !== 'string' || data.id === '') {
+    throw new Error('Puzzle needs an id');
+  }
+  if (!Array.isArray(data.board) || !data.board.every((row) => typeof row === 'string')) {
+    throw new Error(`Puzzle ${data.id} board must be a list of rows`);
+  }
+  if (
+    !Array.isArray(data.pieces) ||
+    data.pieces.length === 0 ||
+    !data.pieces.every((piece) => typeof piece === 'string' && TETROMINO_TYPES.includes(piece))
+  ) {
+    throw new Error(`Puzzle ${data.id} needs a list of tetromino pieces`);
+  }
+
+  return {
+    id: data.id,
+    board: data.board,
+    pieces: data.pieces as TetrominoType[],
+    goal: parsePuzzleGoal(data.goal),
+  };
+}
+
+/**
+ * Get the puzzles bundled with the game
+ */
+export function getBuiltInPuzzles(): PuzzleDefinition[] {
+  return (PUZZLES as unknown[]).map(parsePuzzle);
+}
+
+/**
+ * Tracks a puzzle goal from the engine's LINE_CLEARED, T_SPIN and PERFECT_CLEAR events
+ */
+export class PuzzleGoalTracker {
+  private readonly goal: PuzzleGoal;
+  private linesCleared = 0;
+  private solved = false;
+
+  constructor(goal: PuzzleGoal) {
+    this.goal = goal;
+  }
+
+  public handleEvent(event: GameEvent): void {
+    switch (event.type) {
+      case GameEventType.LINE_CLEARED: {
+        const data = event.data as { count: number };
+        this.linesCleared += data.count;
+        if (this.goal.type === PuzzleGoalType.CLEAR_LINES) {
+          this.solved ||= this.linesCleared >= (this.goal.lines ?? 0);
+        }
+        break;
+      }
+      case GameEventType.T_SPIN: {
+        const data = event.data as { type: TSpinType; lines: number };
+        if (this.goal.type === PuzzleGoalType.T_SPIN) {
+          this.solved ||= data.type === this.goal.tSpin && data.lines >= (this.goal.lines ?? 0);
+        }
+        break;
+      }
+      case GameEventType.PERFECT_CLEAR:
+        this.solved ||= this.goal.type === PuzzleGoalType.PERFECT_CLEAR;
+        break;
+      default:
+        break;
+    }
+  }
+
+  public isSolved(): boolean {
+    return this.solved;
+  }
+
+  public reset(): void {
+    this.linesCleared = 0;
+    this.solved = false;
+  }
+}
@@ -0,0 +1,342 @@
+/**
+ * Replays for Tetris V2
+ * Records the actions dispatched to a GameEngine and plays them back tick by tick
+ */
+
+import { GameEventType, GameMode } from '@/types/index';
+import type {
+  CustomModeSettings,
+  GameAction,
+  GameEventCallback,
+  GameModeConfig,
+  Replay,
+  ReplayAction,
+} from '@/types/index';
+import {
+  DEFAULT_CUSTOM_MODE_SETTINGS,
+  FRAME_TIME,
+  MAX_REPLAY_TICKS,
+  REPLAY_SPEEDS,
+  REPLAY_VERSION,
+} from '@constants/config';
+import { FixedStepAccumulator, FixedStepClock } from './GameClock';
+import { GameEngine } from './GameEngine';
+import {
+  createCustomModeConfig,
+  getCustomModeConfig,
+  getGameModeConfig,
+  getRandomizerType,
+  normalizeCustomModeSettings,
+  setCustomModeConfig,
+} from './GameModes';
+import { createPieceGenerator } from './PieceGenerator';
+import { getBuiltInPuzzles } from './Puzzle';
+
+const GAME_MODES: readonly string[] = Object.values(GameMode);
+const GAME_ACTIONS: readonly string[] = [
+  'moveLeft',
+  'moveRight',
+  'moveDown',
+  'rotate',
+  'rotateCCW',
+  'rotate180',
+  'hardDrop',
+  'hold',
+] satisfies GameAction[];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isTick(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Validate a recorded action
+ */
+function parseReplayAction(data: unknown): ReplayAction {
+  if (!isRecord(data) || !isTick(data.tick)) {
+    throw new Error('Replay action needs a tick');
+  }
+  if (typeof data.action !== 'string' || !GAME_ACTIONS.includes(data.action)) {
+    throw new Error(`Unknown replay action: ${String(data.action)}`);
+  }
+
+  return { tick: data.tick, action: data.action as GameAction };
+}
+
+/**
+ * Validate a replay read from storage
+ */
+export function parseReplay(data: unknown): Replay {
+  if (!isRecord(data)) {
+    throw new Error('Replay data is corrupted');
+  }
+  if (data.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${String(data.version)}`);
+  }
+  if (typeof data.mode !== 'string' || !GAME_MODES.includes(data.mode)) {
+    throw new Error('Replay has an unknown game mode');
+  }
+  if (!isTick(data.seed) || !isTick(data.startLevel) || !isTick(data.ticks)) {
+    throw new Error('Replay seed, start level and ticks must be whole numbers');
+  }
+  if (data.ticks > MAX_REPLAY_TICKS) {
+    throw new Error('Replay is too long');
+  }
+  if (data.puzzleId !== undefined && typeof data.puzzleId !== 'string') {
+    throw new Error('Replay puzzle id must be a string');
+  }
+  if (!Array.isArray(data.actions)) {
+    throw new Error('Replay needs a list of actions');
+  }
+
+  const actions = data.actions.map(parseReplayAction);
+  if (actions.some((action, index) => index > 0 && action.tick < (actions[index - 1]?.tick ?? 0))) {
+    throw new Error('Replay actions must be in tick order');
+  }
+  const lastTick = data.ticks;
+  if (actions.some((action) => action.tick > lastTick)) {
+    throw new Error('Replay has actions after its last tick');
+  }
+
+  return {
+    version: REPLAY_VERSION,
+    mode: data.mode as GameMode,
+    seed: data.seed,
+    startLevel: data.startLevel,
+    customSettings:
+      data.customSettings !== undefined
+        ? normalizeCustomModeSettings(data.customSettings)
+        : undefined,
+    puzzleId: data.puzzleId,
+    ticks: data.ticks,
+    actions,
+  };
+}
+
+/**
+ * Collects the actions dispatched to an engine as a replay of the current game
+ */
+export class ReplayRecorder {
+  private engine: GameEngine;
+  private actions: ReplayAction[] = [];
+
+  constructor(engine: GameEngine) {
+    this.engine = engine;
+    const record: GameEventCallback = (event) => {
+      this.actions.push(event.data as ReplayAction);
+    };
+    engine.addEventListener(GameEventType.ACTION, record);
+  }
+
+  /**
+   * Forget the recorded actions (call after restarting the engine)
+   */
+  public reset(): void {
+    this.actions = [];
+  }
+
+  /**
+   * Get the replay of the game recorded so far
+   */
+  public getReplay(): Replay {
+    const mode = this.engine.getState().gameMode;
+    let customSettings: CustomModeSettings | undefined;
+    if (mode === GameMode.CUSTOM) {
+      customSettings = getGameModeConfig(mode).customSettings ?? DEFAULT_CUSTOM_MODE_SETTINGS;
+    }
+
+    return {
+      version: REPLAY_VERSION,
+      mode,
+      seed: this.engine.getSeed(),
+      startLevel: this.engine.getStartLevel(),
+      customSettings,
+      puzzleId: this.engine.getPuzzle()?.id,
+      ticks: this.engine.getTick(),
+      actions: this.actions.map((action) => ({ ...action })),
+    };
+  }
+}
+
+/**
+ * Create an engine set up like the recorded game (same rules, seed and fixed-step clock)
+ * Custom replays switch the custom mode config to their settings; ReplayPlayer.close() puts it back
+ */
+export function createReplayEngine(replay: Replay): GameEngine {
+  if (replay.mode === GameMode.CUSTOM) {
+    setCustomModeConfig(
+      createCustomModeConfig(replay.customSettings ?? DEFAULT_CUSTOM_MODE_SETTINGS)
+    );
+  }
+
+  const clock = new FixedStepClock();
+
+  if (replay.mode === GameMode.PUZZLE) {
+    const puzzle = getBuiltInPuzzles().find((candidate) => candidate.id === replay.puzzleId);
+    if (!puzzle) {
+      throw new Error(`Replay puzzle not found: ${String(replay.puzzleId)}`);
+    }
+    return new GameEngine(replay.mode, { puzzle, clock });
+  }
+
+  return new GameEngine(replay.mode, {
+    generator: createPieceGenerator(getRandomizerType(replay.mode), replay.seed),
+    startLevel: replay.startLevel,
+    clock,
+  });
+}
+
+/**
+ * Play a replay through to the end without rendering and get the result it reaches
+ * The custom mode config is put back afterwards so a custom game in progress is not affected
+ */
+export function getReplayResult(replay: Replay): { score: number; lines: number } {
+  const player = new ReplayPlayer(replay);
+  try {
+    player.skipToEnd();
+    const { score, lines } = player.getEngine().getState();
+    return { score, lines };
+  } finally {
+    player.close();
+  }
+}
+
+/**
+ * Plays a replay back through a fresh engine, with pause, single steps and speed control
+ */
+export class ReplayPlayer {
+  private replay: Replay;
+  private engine: GameEngine;
+  private accumulator = new FixedStepAccumulator();
+  private nextAction = 0;
+  private speed = 1;
+  private paused = false;
+  private previousCustomConfig: GameModeConfig | null;
+
+  constructor(replay: Replay) {
+    this.replay = replay;
+    this.previousCustomConfig = getCustomModeConfig();
+    this.engine = createReplayEngine(replay);
+  }
+
+  /**
+   * End playback, putting back the custom mode config a custom replay switched away from
+   */
+  public close(): void {
+    if (this.replay.mode === GameMode.CUSTOM) {
+      setCustomModeConfig(this.previousCustomConfig);
+    }
+  }
+
+  public getEngine(): GameEngine {
+    return this.engine;
+  }
+
+  public getReplay(): Replay {
+    return this.replay;
+  }
+
+  /**
+   * Play every remaining tick at once (e.g. to get the final result of an imported replay)
+   */
+  public skipToEnd(): void {
+    let playing = true;
+    while (playing) {
+      playing = this.step();
+    }
+  }
+
+  /**
+   * Play one tick: the actions recorded before it, then the engine update
+   * Returns false once the replay is over
+   */
+  public step(): boolean {
+    if (this.isFinished()) {
+      return false;
+    }
+
+    const tick = this.engine.getTick();
+    let action = this.replay.actions[this.nextAction];
+    while (action && action.tick <= tick) {
+      this.engine.dispatch(action.action);
+      this.nextAction++;
+      action = this.replay.actions[this.nextAction];
+    }
+
+    if (tick < this.replay.ticks) {
+      this.engine.update(FRAME_TIME);
+    }
+    return true;
+  }
+
+  /**
+   * Advance by real time (called every frame), scaled by the playback speed
+   */
+  public update(deltaTime: number): void {
+    if (this.paused) {
+      return;
+    }
+
+    const steps = this.accumulator.add(deltaTime * this.speed);
+    for (let i = 0; i < steps; i++) {
+      if (!this.step()) {
+        break;
+      }
+    }
+  }
+
+  /**
+   * Check if every recorded tick has been played with the actions due by then (or the game ended)
+   * Actions past the last tick can never come up, so they do not hold the replay open
+   */
+  public isFinished(): boolean {
+    const tick = this.engine.getTick();
+    const next = this.replay.actions[this.nextAction];
+    return (
+      this.engine.getState().isGameOver ||
+      (tick >= this.replay.ticks && (!next || next.tick > tick))
+    );
+  }
+
+  public pause(): void {
+    this.paused = true;
+  }
+
+  public resume(): void {
+    this.paused = false;
+    this.accumulator.reset();
+  }
+
+  public togglePause(): void {
+    if (this.paused) {
+      this.resume();
+    } else {
+      this.pause();
+    }
+  }
+
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Set the playback speed, clamped to the slowest and fastest replay speeds
+   */
+  public setSpeed(speed: number): void {
+    this.speed = Math.min(Math.max(speed, Math.min(...REPLAY_SPEEDS)), Math.max(...REPLAY_SPEEDS));
+  }
+
+  public getSpeed(): number {
+    return this.speed;
+  }
+
+  /**
+   * Get playback progress from 0 to 1
+   */
+  public getProgress(): number {
+    return this.replay.ticks > 0 ? Math.min(1, this.engine.getTick() / this.replay.ticks) : 1;
+  }
+}
@@ -0,0 +1,277 @@
+/**
+ * Replay files for Tetris V2
+ * A replay travels either as a readable JSON file or as a compact base64url code short enough
+ * for a share link: varints for the header, then one delta-encoded varint per action, all
+ * deflate-compressed behind its byte length (so padding is caught)
+ */
+
+import type { GameAction, Replay } from '@/types/index';
+import { REPLAY_URL_PARAM, REPLAY_VERSION } from '@constants/config';
+import { parseReplay } from './Replay';
+
+// Index of each action in the code format: only ever append, never reorder
+const ACTION_CODES: readonly GameAction[] = [
+  'moveLeft',
+  'moveRight',
+  'moveDown',
+  'rotate',
+  'rotateCCW',
+  'rotate180',
+  'hardDrop',
+  'hold',
+];
+const ACTION_CODE_RANGE = 8; // action codes take the low 3 bits of each packed action
+
+const FLAG_CUSTOM_SETTINGS = 1;
+const FLAG_PUZZLE_ID = 2;
+
+const CODE_COMPRESSION = 'deflate-raw';
+const CORRUPTED_CODE = 'Replay code is corrupted';
+const SHARE_LINK_PATTERN = new RegExp(`[#&]${REPLAY_URL_PARAM}=([^&]*)`);
+
+/**
+ * Appends varints and strings to a byte list
+ */
+class ByteWriter {
+  private bytes: number[] = [];
+
+  public writeVarint(value: number): void {
+    let rest = value;
+    while (rest >= 0x80) {
+      this.bytes.push((rest % 0x80) + 0x80);
+      rest = Math.floor(rest / 0x80);
+    }
+    this.bytes.push(rest);
+  }
+
+  public writeString(value: string): void {
+    this.writeBytes(new TextEncoder().encode(value));
+  }
+
+  public writeBytes(value: Uint8Array): void {
+    this.writeVarint(value.length);
+    this.bytes.push(...value);
+  }
+
+  public toBytes(): Uint8Array<ArrayBuffer> {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+/**
+ * Reads varints and strings back, throwing on truncated data
+ */
+class ByteReader {
+  private bytes: Uint8Array<ArrayBuffer>;
+  private offset = 0;
+
+  constructor(bytes: Uint8Array<ArrayBuffer>) {
+    this.bytes = bytes;
+  }
+
+  public readVarint(): number {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const byte = this.bytes[this.offset++];
+      if (byte === undefined || scale > Number.MAX_SAFE_INTEGER) {
+        throw new Error(CORRUPTED_CODE);
+      }
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) {
+        return value;
+      }
+      scale *= 0x80;
+    }
+  }
+
+  public readString(): string {
+    return new TextDecoder().decode(this.readBytes());
+  }
+
+  public readBytes(): Uint8Array<ArrayBuffer> {
+    const length = this.readVarint();
+    if (this.offset + length > this.bytes.length) {
+      throw new Error(CORRUPTED_CODE);
+    }
+    const bytes = this.bytes.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  public isAtEnd(): boolean {
+    return this.offset === this.bytes.length;
+  }
+}
+
+/**
+ * Run bytes through a compression or decompression stream
+ */
+async function pipeBytes(
+  bytes: Uint8Array<ArrayBuffer>,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array<ArrayBuffer>> {
+  const writer = stream.writable.getWriter();
+  // Write errors (corrupted input) surface again on the reading side
+  writer.write(bytes).catch(() => undefined);
+  writer.close().catch(() => undefined);
+
+  const chunks: Uint8Array[] = [];
+  const reader = stream.readable.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+  }
+
+  const result = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(code: string): Uint8Array<ArrayBuffer> {
+  if (!/^[A-Za-z0-9_-]*$/.test(code)) {
+    throw new Error(CORRUPTED_CODE);
+  }
+
+  try {
+    const binary = atob(code.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  } catch {
+    throw new Error(CORRUPTED_CODE);
+  }
+}
+
+/**
+ * Export a replay as a JSON file
+ */
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify(replay, null, 2);
+}
+
+/**
+ * Encode a replay as a compact, compressed base64url code
+ */
+export async function encodeReplayCode(replay: Replay): Promise<string> {
+  const writer = new ByteWriter();
+  writer.writeVarint(replay.version);
+  writer.writeString(replay.mode);
+  writer.writeVarint(replay.seed);
+  writer.writeVarint(replay.startLevel);
+  writer.writeVarint(replay.ticks);
+
+  const flags =
+    (replay.customSettings ? FLAG_CUSTOM_SETTINGS : 0) |
+    (replay.puzzleId !== undefined ? FLAG_PUZZLE_ID : 0);
+  writer.writeVarint(flags);
+  if (replay.customSettings) {
+    writer.writeString(JSON.stringify(replay.customSettings));
+  }
+  if (replay.puzzleId !== undefined) {
+    writer.writeString(replay.puzzleId);
+  }
+
+  writer.writeVarint(replay.actions.length);
+  let previousTick = 0;
+  for (const { tick, action } of replay.actions) {
+    writer.writeVarint((tick - previousTick) * ACTION_CODE_RANGE + ACTION_CODES.indexOf(action));
+    previousTick = tick;
+  }
+
+  const framed = new ByteWriter();
+  framed.writeBytes(await pipeBytes(writer.toBytes(), new CompressionStream(CODE_COMPRESSION)));
+  return toBase64Url(framed.toBytes());
+}
+
+/**
+ * Decode a replay code, validating it like a stored replay
+ */
+export async function decodeReplayCode(code: string): Promise<Replay> {
+  const framed = new ByteReader(fromBase64Url(code.trim()));
+  const compressed = framed.readBytes();
+  if (!framed.isAtEnd()) {
+    throw new Error(CORRUPTED_CODE);
+  }
+
+  let bytes: Uint8Array<ArrayBuffer>;
+  try {
+    bytes = await pipeBytes(compressed, new DecompressionStream(CODE_COMPRESSION));
+  } catch {
+    throw new Error(CORRUPTED_CODE);
+  }
+  const reader = new ByteReader(bytes);
+
+  const version = reader.readVarint();
+  if (version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${version}`);
+  }
+
+  const mode = reader.readString();
+  const seed = reader.readVarint();
+  const startLevel = reader.readVarint();
+  const ticks = reader.readVarint();
+  const flags = reader.readVarint();
+
+  let customSettings: unknown;
+  if (flags & FLAG_CUSTOM_SETTINGS) {
+    try {
+      customSettings = JSON.parse(reader.readString());
+    } catch {
+      throw new Error(CORRUPTED_CODE);
+    }
+  }
+  const puzzleId = flags & FLAG_PUZZLE_ID ? reader.readString() : undefined;
+
+  const count = reader.readVarint();
+
+  const actions = [];
+  let tick = 0;
+  for (let i = 0; i < count; i++) {
+    const packed = reader.readVarint();
+    tick += Math.floor(packed / ACTION_CODE_RANGE);
+    actions.push({ tick, action: ACTION_CODES[packed % ACTION_CODE_RANGE] });
+  }
+
+  if (!reader.isAtEnd()) {
+    throw new Error(CORRUPTED_CODE);
+  }
+
+  return parseReplay({
+    version,
+    mode,
+    seed,
+    startLevel,
+    customSettings,
+    puzzleId,
+    ticks,
+    actions,
+  });
+}
+
+/**
+ * Read a replay from a JSON file, a replay code or a share link
+ */
+export async function importReplayData(data: string): Promise<Replay> {
+  const text = data.trim();
+  if (!text.startsWith('{')) {
+    const link = SHARE_LINK_PATTERN.exec(text);
+    return decodeReplayCode(link?.[1] ?? text);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Replay file is not valid JSON');
+  }
+  return parseReplay(parsed);
+}
@@ -0,0 +1,206 @@
+/**
+ * Super Rotation System (SRS) for Tetris V2
+ * Wall kick tables per piece family, including 180° kicks
+ */
+
+import { TetrominoType } from '@/types/index';
+import type { Position } from '@/types/index';
+
+/**
+ * Kick offsets as written in the SRS specification: [x, y] with y pointing up
+ */
+type KickTable = Record<string, Array<[number, number]>>;
+
+/**
+ * Rotation state names used as table keys (0 = spawn, R = clockwise, 2 = half turn, L = counter-clockwise)
+ */
+const STATE_NAMES = ['0', 'R', '2', 'L'] as const;
+
+/**
+ * J, L, S, T and Z kicks
+ */
+const JLSTZ_KICKS: KickTable = {
+  '0>R': [
+    [0, 0],
+    [-1, 0],
+    [-1, 1],
+    [0, -2],
+    [-1, -2],
+  ],
+  'R>0': [
+    [0, 0],
+    [1, 0],
+    [1, -1],
+    [0, 2],
+    [1, 2],
+  ],
+  'R>2': [
+    [0, 0],
+    [1, 0],
+    [1, -1],
+    [0, 2],
+    [1, 2],
+  ],
+  '2>R': [
+    [0, 0],
+    [-1, 0],
+    [-1, 1],
+    [0, -2],
+    [-1, -2],
+  ],
+  '2>L': [
+    [0, 0],
+    [1, 0],
+    [1, 1],
+    [0, -2],
+    [1, -2],
+  ],
+  'L>2': [
+    [0, 0],
+    [-1, 0],
+    [-1, -1],
+    [0, 2],
+    [-1, 2],
+  ],
+  'L>0': [
+    [0, 0],
+    [-1, 0],
+    [-1, -1],
+    [0, 2],
+    [-1, 2],
+  ],
+  '0>L': [
+    [0, 0],
+    [1, 0],
+    [1, 1],
+    [0, -2],
+    [1, -2],
+  ],
+};
+
+/**
+ * I piece kicks
+ */
+const I_KICKS: KickTable = {
+  '0>R': [
+    [0, 0],
+    [-2, 0],
+    [1, 0],
+    [-2, -1],
+    [1, 2],
+  ],
+  'R>0': [
+    [0, 0],
+    [2, 0],
+    [-1, 0],
+    [2, 1],
+    [-1, -2],
+  ],
+  'R>2': [
+    [0, 0],
+    [-1, 0],
+    [2, 0],
+    [-1, 2],
+    [2, -1],
+  ],
+  '2>R': [
+    [0, 0],
+    [1, 0],
+    [-2, 0],
+    [1, -2],
+    [-2, 1],
+  ],
+  '2>L': [
+    [0, 0],
+    [2, 0],
+    [-1, 0],
+    [2, 1],
+    [-1, -2],
+  ],
+  'L>2': [
+    [0, 0],
+    [-2, 0],
+    [1, 0],
+    [-2, -1],
+    [1, 2],
+  ],
+  'L>0': [
+    [0, 0],
+    [1, 0],
+    [-2, 0],
+    [1, -2],
+    [-2, 1],
+  ],
+  '0>L': [
+    [0, 0],
+    [-1, 0],
+    [2, 0],
+    [-1, 2],
+    [2, -1],
+  ],
+};
+
+/**
+ * 180° kicks (not part of the original SRS, same set as most modern clients)
+ */
+const HALF_TURN_KICKS: KickTable = {
+  '0>2': [
+    [0, 0],
+    [0, 1],
+    [1, 1],
+    [-1, 1],
+    [1, 0],
+    [-1, 0],
+  ],
+  '2>0': [
+    [0, 0],
+    [0, -1],
+    [-1, -1],
+    [1, -1],
+    [-1, 0],
+    [1, 0],
+  ],
+  'R>L': [
+    [0, 0],
+    [1, 0],
+    [1, 2],
+    [1, 1],
+    [0, 2],
+    [0, 1],
+  ],
+  'L>R': [
+    [0, 0],
+    [-1, 0],
+    [-1, 2],
+    [-1, 1],
+    [0, 2],
+    [0, 1],
+  ],
+};
+
+const NO_KICK: Position[] = [{ x: 0, y: 0 }];
+
+/**
+ * Get the ordered kick tests for a rotation, as board offsets (y pointing down)
+ */
+export function getWallKickOffsets(
+  type: TetrominoType,
+  fromRotation: number,
+  toRotation: number
+): Position[] {
+  // The O piece never kicks
+  if (type === TetrominoType.O || fromRotation === toRotation) {
+    return NO_KICK;
+  }
+
+  const key = `${STATE_NAMES[fromRotation % 4]}>${STATE_NAMES[toRotation % 4]}`;
+  const isHalfTurn = (toRotation - fromRotation + 4) % 4 === 2;
+  const table = isHalfTurn ? HALF_TURN_KICKS : type === TetrominoType.I ? I_KICKS : JLSTZ_KICKS;
+  const kicks = table[key];
+
+  if (!kicks) {
+    return NO_KICK;
+  }
+
+  return kicks.map(([x, y]) => ({ x, y: y === 0 ? 0 : -y }));
+}
@@ -3,19 +3,37 @@
  * Migrated from main.js and Piece.js with improvements
  */
 
+import { TSpinType } from '@/types/index';
 import type { ScoreInfo } from '@/types/index';
 import {
   SCORE_BASE,
   SCORE_MULTIPLIERS,
+  T_SPIN_MULTIPLIERS,
+  BACK_TO_BACK_MULTIPLIER,
+  COMBO_BONUS,
+  PERFECT_CLEAR_BONUSES,
   LINES_PER_LEVEL,
+  FIRST_LEVEL_UP_MIN_LINES,
+  FIRST_LEVEL_UP_LINES_OFFSET,
   MAX_LEVEL,
   LEVEL_SPEEDS,
 } from '@constants/config';
 
 /**
- * Calculate score for cleared lines
+ * Calculate score for cleared lines (T-spins use their own multipliers and score without lines)
  */
-export function calculateLineScore(linesCleared: number, currentLevel: number): number {
+export function calculateLineScore(
+  linesCleared: number,
+  currentLevel: number,
+  tSpin: TSpinType = TSpinType.NONE
+): number {
+  if (tSpin !== TSpinType.NONE) {
+    const tSpinMultipliers = T_SPIN_MULTIPLIERS[tSpin];
+    const multiplier =
+      tSpinMultipliers[linesCleared] ?? Math.max(...Object.values(tSpinMultipliers));
+    return Math.floor(SCORE_BASE * multiplier + currentLevel * SCORE_BASE);
+  }
+
   if (linesCleared === 0) {
     return 0;
   }
@@ -27,6 +45,39 @@ export function calculateLineScore(linesCleared: number, currentLevel: number):
   return Math.floor(baseScore + levelBonus);
 }
 
+/**
+ * Check if a clear is "difficult" (tetris or T-spin with lines), which keeps back-to-back alive
+ */
+export function isDifficultClear(linesCleared: number, tSpin: TSpinType = TSpinType.NONE): boolean {
+  return linesCleared >= 4 || (linesCleared > 0 && tSpin !== TSpinType.NONE);
+}
+
+/**
+ * Calculate combo bonus (combo 0 is the first clear of a chain and earns nothing)
+ */
+export function calculateComboBonus(combo: number, currentLevel: number): number {
+  if (combo <= 0) {
+    return 0;
+  }
+
+  return COMBO_BONUS * combo * (currentLevel + 1);
+}
+
+/**
+ * Apply the back-to-back multiplier to a line score
+ */
+export function applyBackToBack(lineScore: number): number {
+  return Math.floor(lineScore * BACK_TO_BACK_MULTIPLIER);
+}
+
+/**
+ * Calculate perfect clear bonus (board left empty by a line clear)
+ */
+export function calculatePerfectClearBonus(linesCleared: number, currentLevel: number): number {
+  const bonus = PERFECT_CLEAR_BONUSES[linesCleared] ?? PERFECT_CLEAR_BONUSES[4] ?? 0;
+  return linesCleared > 0 ? bonus * (currentLevel + 1) : 0;
+}
+
 /**
  * Calculate soft drop bonus (points per cell dropped)
  */
@@ -41,57 +92,122 @@ export function calculateHardDropBonus(cellsDropped: number): number {
   return cellsDropped * 2;
 }
 
+/**
+ * Lines needed for the first level-up
+ * With the NES rule, starting at level N levels up at the larger of (N + 1) levels' worth of lines
+ * and max(100, N levels' worth - 50); otherwise after one level's worth of lines
+ */
+export function getFirstLevelUpLines(
+  startLevel: number = 0,
+  linesPerLevel: number = LINES_PER_LEVEL,
+  nesRule: boolean = false
+): number {
+  if (!nesRule) {
+    return linesPerLevel;
+  }
+
+  return Math.max(
+    (startLevel + 1) * linesPerLevel,
+    Math.max(FIRST_LEVEL_UP_MIN_LINES, startLevel * linesPerLevel - FIRST_LEVEL_UP_LINES_OFFSET)
+  );
+}
+
 /**
  * Calculate new level based on total lines cleared
  */
-export function calculateLevel(totalLines: number): number {
-  const level = Math.floor(totalLines / LINES_PER_LEVEL);
+export function calculateLevel(
+  totalLines: number,
+  startLevel: number = 0,
+  linesPerLevel: number = LINES_PER_LEVEL,
+  nesRule: boolean = false
+): number {
+  const firstLevelUp = getFirstLevelUpLines(startLevel, linesPerLevel, nesRule);
+  if (totalLines < firstLevelUp) {
+    return Math.min(startLevel, MAX_LEVEL);
+  }
+
+  const level = startLevel + 1 + Math.floor((totalLines - firstLevelUp) / linesPerLevel);
   return Math.min(level, MAX_LEVEL);
 }
 
 /**
  * Check if player should level up
  */
-export function shouldLevelUp(previousLines: number, newLines: number): boolean {
-  const previousLevel = calculateLevel(previousLines);
-  const newLevel = calculateLevel(newLines);
+export function shouldLevelUp(
+  previousLines: number,
+  newLines: number,
+  startLevel: number = 0,
+  linesPerLevel: number = LINES_PER_LEVEL,
+  nesRule: boolean = false
+): boolean {
+  const previousLevel = calculateLevel(previousLines, startLevel, linesPerLevel, nesRule);
+  const newLevel = calculateLevel(newLines, startLevel, linesPerLevel, nesRule);
   return newLevel > previousLevel;
 }
 
 /**
- * Get drop speed for a given level (in milliseconds)
+ * Get drop speed for a given level (in milliseconds) on a speed curve
  */
-export function getDropSpeed(level: number): number {
+export function getDropSpeed(
+  level: number,
+  speedCurve: Record<number, number> = LEVEL_SPEEDS
+): number {
   const clampedLevel = Math.min(Math.max(level, 0), MAX_LEVEL);
-  return LEVEL_SPEEDS[clampedLevel] ?? LEVEL_SPEEDS[MAX_LEVEL] ?? 40;
+  return speedCurve[clampedLevel] ?? speedCurve[MAX_LEVEL] ?? 40;
 }
 
 /**
  * Calculate progress to next level (0 to 1)
  */
-export function getLevelProgress(totalLines: number): number {
-  const linesInCurrentLevel = totalLines % LINES_PER_LEVEL;
-  return linesInCurrentLevel / LINES_PER_LEVEL;
+export function getLevelProgress(
+  totalLines: number,
+  startLevel: number = 0,
+  linesPerLevel: number = LINES_PER_LEVEL,
+  nesRule: boolean = false
+): number {
+  const firstLevelUp = getFirstLevelUpLines(startLevel, linesPerLevel, nesRule);
+  if (totalLines < firstLevelUp) {
+    return totalLines / firstLevelUp;
+  }
+
+  const linesInCurrentLevel = (totalLines - firstLevelUp) % linesPerLevel;
+  return linesInCurrentLevel / linesPerLevel;
 }
 
 /**
  * Get lines needed for next level
  */
-export function getLinesUntilNextLevel(totalLines: number): number {
-  const linesInCurrentLevel = totalLines % LINES_PER_LEVEL;
-  return LINES_PER_LEVEL - linesInCurrentLevel;
+export function getLinesUntilNextLevel(
+  totalLines: number,
+  startLevel: number = 0,
+  linesPerLevel: number = LINES_PER_LEVEL,
+  nesRule: boolean = false
+): number {
+  const firstLevelUp = getFirstLevelUpLines(startLevel, linesPerLevel, nesRule);
+  if (totalLines < firstLevelUp) {
+    return firstLevelUp - totalLines;
+  }
+
+  const linesInCurrentLevel = (totalLines - firstLevelUp) % linesPerLevel;
+  return linesPerLevel - linesInCurrentLevel;
 }
 
 /**
- * Update score after line clear
+ * Update score after a line clear or T-spin, including back-to-back and combo bonuses
  */
 export function updateScoreAfterLineClear(
   currentScore: number,
   currentLines: number,
   currentLevel: number,
-  linesCleared: number
+  linesCleared: number,
+  tSpin: TSpinType = TSpinType.NONE,
+  combo: number = -1,
+  isBackToBack: boolean = false,
+  startLevel: number = 0,
+  linesPerLevel: number = LINES_PER_LEVEL,
+  nesRule: boolean = false
 ): ScoreInfo {
-  if (linesCleared === 0) {
+  if (linesCleared === 0 && tSpin === TSpinType.NONE) {
     return {
       points: currentScore,
       linesCleared: currentLines,
@@ -100,10 +216,13 @@ export function updateScoreAfterLineClear(
     };
   }
 
-  const lineScore = calculateLineScore(linesCleared, currentLevel);
+  const baseScore = calculateLineScore(linesCleared, currentLevel, tSpin);
+  const lineScore =
+    (isBackToBack ? applyBackToBack(baseScore) : baseScore) +
+    calculateComboBonus(combo, currentLevel);
   const newScore = currentScore + lineScore;
   const newLines = currentLines + linesCleared;
-  const newLevel = calculateLevel(newLines);
+  const newLevel = calculateLevel(newLines, startLevel, linesPerLevel, nesRule);
 
   return {
     points: newScore,
@@ -156,9 +275,12 @@ export interface GameStatistics {
 export function calculateGameStatistics(
   score: number,
   lines: number,
-  durationSeconds: number
+  durationSeconds: number,
+  startLevel: number = 0,
+  linesPerLevel: number = LINES_PER_LEVEL,
+  nesRule: boolean = false
 ): GameStatistics {
-  const level = calculateLevel(lines);
+  const level = calculateLevel(lines, startLevel, linesPerLevel, nesRule);
   const durationMinutes = durationSeconds / 60;
   const linesPerMinute = durationMinutes > 0 ? lines / durationMinutes : 0;
   const averageScore = lines > 0 ? score / lines : 0;
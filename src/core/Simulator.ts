@@ -0,0 +1,146 @@
+/**
+ * Headless simulator for Tetris V2
+ * Runs the real GameEngine rules without DOM, timers or wall-clock time, for bots, fuzzers and
+ * balance scripts. Time only moves in fixed FRAME_TIME ticks, so a seed and a list of inputs
+ * always give the same game.
+ */
+
+import { GameMode } from '@/types/index';
+import type { BoardGrid, GameAction, Tetromino, TetrominoType } from '@/types/index';
+import { FRAME_TIME } from '@constants/config';
+import { cloneBoard } from './Board';
+import { FixedStepClock } from './GameClock';
+import { GameEngine } from './GameEngine';
+import { getRandomizerType } from './GameModes';
+import { createPieceGenerator, generateSeed } from './PieceGenerator';
+import { cloneTetromino } from './Tetromino';
+
+export interface SimulatorOptions {
+  mode?: GameMode;
+  seed?: number;
+  startLevel?: number;
+}
+
+/**
+ * Snapshot of a game for a bot: plain data, safe to keep and modify
+ */
+export interface SimulatorObservation {
+  /** Full grid, hidden buffer rows included */
+  board: BoardGrid;
+  currentPiece: Tetromino | null;
+  holdPiece: TetrominoType | null;
+  nextPieces: TetrominoType[];
+  canHold: boolean;
+  score: number;
+  lines: number;
+  level: number;
+  combo: number;
+  backToBack: boolean;
+  tick: number;
+  isGameOver: boolean;
+}
+
+/**
+ * Outcome of one step or placement
+ */
+export interface SimulatorResult {
+  /** False if the engine refused the action or placement */
+  accepted: boolean;
+  linesCleared: number;
+  scoreGained: number;
+  isGameOver: boolean;
+  observation: SimulatorObservation;
+}
+
+export class Simulator {
+  private mode: GameMode;
+  private engine: GameEngine;
+
+  constructor(options: SimulatorOptions = {}) {
+    this.mode = options.mode ?? GameMode.CLASSIC;
+    if (this.mode === GameMode.PUZZLE) {
+      throw new Error('Puzzle mode needs a puzzle: create a GameEngine with it instead');
+    }
+
+    this.engine = new GameEngine(this.mode, {
+      generator: createPieceGenerator(getRandomizerType(this.mode), options.seed ?? generateSeed()),
+      startLevel: options.startLevel,
+      clock: new FixedStepClock(),
+    });
+  }
+
+  /**
+   * Start a new game with the same mode (a new seed is drawn unless one is given)
+   */
+  public reset(seed?: number): SimulatorObservation {
+    this.engine.restart(this.mode, seed ?? generateSeed());
+    return this.getObservation();
+  }
+
+  /**
+   * Apply an action (or none) and advance the game by one tick
+   */
+  public step(action?: GameAction): SimulatorResult {
+    return this.track(() => {
+      const accepted = action === undefined || this.engine.dispatch(action);
+      this.engine.update(FRAME_TIME);
+      return accepted;
+    });
+  }
+
+  /**
+   * Drop the current piece at a column in a rotation state (0 = spawn, counted clockwise)
+   * x is the column of the piece's bounding box, as in Tetromino.position
+   */
+  public place(x: number, rotation: number): SimulatorResult {
+    return this.track(() => this.engine.place(x, rotation));
+  }
+
+  /**
+   * Swap the current piece with the hold piece
+   */
+  public hold(): SimulatorResult {
+    return this.track(() => this.engine.dispatch('hold'));
+  }
+
+  public getObservation(): SimulatorObservation {
+    const state = this.engine.getState();
+
+    return {
+      board: cloneBoard(state.board),
+      currentPiece: state.currentPiece ? cloneTetromino(state.currentPiece) : null,
+      holdPiece: state.holdPiece?.type ?? null,
+      nextPieces: state.nextPieces.map((piece) => piece.type),
+      canHold: state.canHold,
+      score: state.score,
+      lines: state.lines,
+      level: state.level,
+      combo: state.combo,
+      backToBack: state.backToBack,
+      tick: this.engine.getTick(),
+      isGameOver: state.isGameOver,
+    };
+  }
+
+  /**
+   * Get the engine being simulated (for listeners or anything the facade does not cover)
+   */
+  public getEngine(): GameEngine {
+    return this.engine;
+  }
+
+  private track(run: () => boolean): SimulatorResult {
+    const { score, lines } = this.engine.getState();
+
+    const accepted = run();
+
+    const after = this.engine.getState();
+    return {
+      accepted,
+      linesCleared: after.lines - lines,
+      scoreGained: after.score - score,
+      isGameOver: after.isGameOver,
+      observation: this.getObservation(),
+    };
+  }
+}
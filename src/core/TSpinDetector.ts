@@ -0,0 +1,83 @@
+/**
+ * T-spin detection for Tetris V2
+ * Three-corner rule with mini T-spins, as in the guideline
+ */
+
+import { TSpinType, TetrominoType } from '@/types/index';
+import type { BoardGrid, Position, Tetromino } from '@/types/index';
+import { isCellVacant } from './Board';
+
+/**
+ * Corners of the T piece's 3x3 box, relative to its position
+ */
+const CORNERS: Position[] = [
+  { x: 0, y: 0 },
+  { x: 2, y: 0 },
+  { x: 0, y: 2 },
+  { x: 2, y: 2 },
+];
+
+/**
+ * The two corners on the pointing side of the T, per rotation state (0, R, 2, L)
+ */
+const FRONT_CORNERS: Position[][] = [
+  [
+    { x: 0, y: 0 },
+    { x: 2, y: 0 },
+  ],
+  [
+    { x: 2, y: 0 },
+    { x: 2, y: 2 },
+  ],
+  [
+    { x: 0, y: 2 },
+    { x: 2, y: 2 },
+  ],
+  [
+    { x: 0, y: 0 },
+    { x: 0, y: 2 },
+  ],
+];
+
+/**
+ * Index of the last SRS kick test of a quarter turn (the TST kick), which always upgrades
+ * a mini T-spin to a full one
+ */
+const TST_KICK_INDEX = 4;
+
+/**
+ * Check whether a corner is blocked by a wall, the floor or a locked cell
+ */
+function isCornerBlocked(board: BoardGrid, piece: Tetromino, corner: Position): boolean {
+  return !isCellVacant(board, {
+    x: piece.position.x + corner.x,
+    y: piece.position.y + corner.y,
+  });
+}
+
+/**
+ * Detect a T-spin for a piece about to lock
+ * Only call this when the last successful action was a rotation
+ * 180° kicks are plain shifts, so they never upgrade a mini T-spin
+ */
+export function detectTSpin(
+  board: BoardGrid,
+  piece: Tetromino,
+  kickIndex: number,
+  halfTurn: boolean = false
+): TSpinType {
+  if (piece.type !== TetrominoType.T) {
+    return TSpinType.NONE;
+  }
+
+  const blockedCorners = CORNERS.filter((corner) => isCornerBlocked(board, piece, corner));
+  if (blockedCorners.length < 3) {
+    return TSpinType.NONE;
+  }
+
+  const frontCorners = FRONT_CORNERS[piece.rotation % 4] ?? [];
+  const frontBlocked = frontCorners.every((corner) => isCornerBlocked(board, piece, corner));
+
+  const tstKick = !halfTurn && kickIndex === TST_KICK_INDEX;
+  return frontBlocked || tstKick ? TSpinType.FULL : TSpinType.MINI;
+}
@@ -3,9 +3,9 @@
  * Migrated from tetrominoes.js with TypeScript types
  */
 
-import { TetrominoType } from '@/types/index';
+import { RotationDirection, TetrominoType } from '@/types/index';
 import type { TetrominoShape, Tetromino, Position, TetrominoMatrix } from '@/types/index';
-import { TETROMINO_COLORS, SPAWN_POSITION } from '@constants/config';
+import { BOARD_COLS, TETROMINO_COLORS, SPAWN_POSITION } from '@constants/config';
 
 /**
  * Tetromino shape definitions
@@ -217,6 +217,16 @@ export const ALL_TETROMINO_TYPES = [
   TetrominoType.Z,
 ];
 
+/**
+ * Spawn position for a board width, keeping pieces centered like on a 10-wide board
+ */
+export function getSpawnPosition(boardWidth: number = BOARD_COLS): Position {
+  return {
+    x: SPAWN_POSITION.x + Math.floor((boardWidth - BOARD_COLS) / 2),
+    y: SPAWN_POSITION.y,
+  };
+}
+
 /**
  * Create a tetromino of a specific type
  */
@@ -249,15 +259,27 @@ export function createRandomTetromino(position?: Position): Tetromino {
 }
 
 /**
- * Rotate a tetromino clockwise
+ * Quarter turns applied by each rotation direction
+ */
+const ROTATION_STEPS: Record<RotationDirection, number> = {
+  [RotationDirection.CLOCKWISE]: 1,
+  [RotationDirection.COUNTER_CLOCKWISE]: 3,
+  [RotationDirection.HALF_TURN]: 2,
+};
+
+/**
+ * Rotate a tetromino (clockwise by default) without any wall kick
  */
-export function rotateTetromino(tetromino: Tetromino): Tetromino {
+export function rotateTetromino(
+  tetromino: Tetromino,
+  direction: RotationDirection = RotationDirection.CLOCKWISE
+): Tetromino {
   const shapes = TETROMINO_SHAPES[tetromino.type]?.shape;
   if (!shapes || shapes.length === 0) {
     return tetromino;
   }
 
-  const newRotation = (tetromino.rotation + 1) % shapes.length;
+  const newRotation = (tetromino.rotation + ROTATION_STEPS[direction]) % shapes.length;
   const newShape = shapes[newRotation];
 
   if (!newShape || newShape.length === 0) {
@@ -271,6 +293,32 @@ export function rotateTetromino(tetromino: Tetromino): Tetromino {
   };
 }
 
+/**
+ * Get the number of distinct rotation states of a tetromino type
+ */
+export function getRotationCount(type: TetrominoType): number {
+  return TETROMINO_SHAPES[type].shape.length;
+}
+
+/**
+ * Turn a tetromino to a rotation state (0 = spawn, counted clockwise) without any wall kick
+ */
+export function setTetrominoRotation(tetromino: Tetromino, rotation: number): Tetromino {
+  const shapes = TETROMINO_SHAPES[tetromino.type].shape;
+  const newRotation = ((rotation % shapes.length) + shapes.length) % shapes.length;
+  const newShape = shapes[newRotation];
+
+  if (!newShape) {
+    return tetromino;
+  }
+
+  return {
+    ...tetromino,
+    rotation: newRotation,
+    shape: newShape,
+  };
+}
+
 /**
  * Move a tetromino to a new position
  */
@@ -0,0 +1,144 @@
+/**
+ * Versus matches for Tetris V2
+ * Two engines play side by side: line clears send garbage to the opponent through the attack table,
+ * and the first player to top out loses
+ */
+
+import { GameEventType, TSpinType } from '@/types/index';
+import type { GameEventCallback } from '@/types/index';
+import {
+  VERSUS_BACK_TO_BACK_BONUS,
+  VERSUS_COMBO_ATTACK,
+  VERSUS_LINE_ATTACK,
+  VERSUS_MINI_TSPIN_ATTACK,
+  VERSUS_PERFECT_CLEAR_ATTACK,
+  VERSUS_TSPIN_ATTACK,
+} from '@constants/config';
+import type { GameEngine } from './GameEngine';
+
+/**
+ * A line clear as reported by LINE_CLEARED
+ */
+export interface ClearInfo {
+  count: number;
+  tSpin: TSpinType;
+  combo: number;
+  backToBack: boolean;
+}
+
+export type VersusPlayers = readonly [GameEngine, GameEngine];
+
+export interface VersusMatchOptions {
+  /** Garbage sent once the attack has cancelled the sender's own queued rows */
+  onAttack?: (from: number, lines: number) => void;
+  onWinner?: (winner: number) => void;
+}
+
+function lookUp(table: readonly number[], index: number): number {
+  return table[Math.min(Math.max(index, 0), table.length - 1)] ?? 0;
+}
+
+/**
+ * Garbage lines a clear sends: its line or T-spin value, plus combo and back-to-back bonuses
+ */
+export function getAttack(clear: ClearInfo): number {
+  if (clear.count <= 0) {
+    return 0;
+  }
+
+  const base =
+    clear.tSpin === TSpinType.FULL
+      ? lookUp(VERSUS_TSPIN_ATTACK, clear.count)
+      : clear.tSpin === TSpinType.MINI
+        ? lookUp(VERSUS_MINI_TSPIN_ATTACK, clear.count)
+        : lookUp(VERSUS_LINE_ATTACK, clear.count);
+
+  return (
+    base +
+    lookUp(VERSUS_COMBO_ATTACK, clear.combo) +
+    (clear.backToBack ? VERSUS_BACK_TO_BACK_BONUS : 0)
+  );
+}
+
+/**
+ * Wires two engines into a match: sends attacks across and decides the winner
+ */
+export class VersusMatch {
+  private players: VersusPlayers;
+  private options: VersusMatchOptions;
+  private winner: number | null = null;
+
+  constructor(players: VersusPlayers, options: VersusMatchOptions = {}) {
+    this.players = players;
+    this.options = options;
+
+    players.forEach((engine, index) => {
+      const onClear: GameEventCallback = (event) => {
+        this.attack(index, getAttack(event.data as ClearInfo));
+      };
+      const onPerfectClear: GameEventCallback = () => {
+        this.attack(index, VERSUS_PERFECT_CLEAR_ATTACK);
+      };
+      const onTopOut: GameEventCallback = () => this.topOut(index);
+
+      engine.addEventListener(GameEventType.LINE_CLEARED, onClear);
+      engine.addEventListener(GameEventType.PERFECT_CLEAR, onPerfectClear);
+      engine.addEventListener(GameEventType.GAME_OVER, onTopOut);
+    });
+  }
+
+  public getPlayers(): VersusPlayers {
+    return this.players;
+  }
+
+  /**
+   * Get the index of the winning player, or null while the match is on
+   */
+  public getWinner(): number | null {
+    return this.winner;
+  }
+
+  public isOver(): boolean {
+    return this.winner !== null;
+  }
+
+  /**
+   * Start over with a new shared seed (both players get the same pieces)
+   */
+  public restart(seed?: number): void {
+    this.winner = null;
+    const [first, second] = this.players;
+    first.restart(undefined, seed);
+    second.restart(undefined, first.getSeed());
+  }
+
+  /**
+   * Cancel the sender's own queued garbage first, then send what is left to the opponent
+   */
+  private attack(from: number, lines: number): void {
+    if (lines <= 0 || this.isOver()) {
+      return;
+    }
+
+    const sender = this.players[from];
+    const opponent = this.players[1 - from];
+    if (!sender || !opponent) {
+      return;
+    }
+
+    const sent = sender.cancelGarbage(lines);
+    if (sent > 0) {
+      opponent.receiveGarbage(sent);
+    }
+    this.options.onAttack?.(from, sent);
+  }
+
+  private topOut(loser: number): void {
+    if (this.isOver()) {
+      return;
+    }
+
+    this.winner = 1 - loser;
+    this.options.onWinner?.(this.winner);
+  }
+}
@@ -21,12 +21,26 @@ export default {
     selectMode: 'Select a mode',
     classicDesc: 'Play until game over. Clear lines to level up and increase speed.',
     ultraDesc: 'Score as many points as possible in 2 minutes!',
+    sprint: 'Sprint Mode',
+    sprintDesc: 'Clear 40 lines as fast as you can!',
+    marathon: 'Marathon Mode',
+    marathonDesc: 'Clear 150 lines, starting from the level of your choice.',
+    dig: 'Dig Mode',
+    digDesc: 'Dig through 10 rows of garbage as fast as you can!',
+    survival: 'Survival Mode',
+    survivalDesc: 'Garbage rises from below, faster every level. Hold on as long as you can!',
+    puzzle: 'Puzzle Mode',
+    puzzleDesc: 'Solve a prebuilt board with a fixed set of pieces.',
+    custom: 'Custom Mode',
+    customDesc: 'Build your own rules and save them as presets.',
+    startLevel: '{mode} start level',
   },
   stats: {
     score: 'Score',
     lines: 'Lines',
     level: 'Level',
     timer: 'Time',
+    combo: 'Combo',
     mode: 'Mode',
     fps: 'FPS',
     highScores: 'High Scores',
@@ -34,6 +48,7 @@ export default {
     holdPiece: 'Hold',
     noScoresYet: 'No scores yet',
     rank: 'Rank',
+    finesse: 'Finesse',
     name: 'Name',
     details: 'Details',
     today: 'Today',
@@ -49,6 +64,10 @@ export default {
     levelUp: 'Level Up {level}!',
     timeUp: "Time's Up!",
     timeWarning: '{seconds} seconds remaining!',
+    garbageIncoming: 'Garbage incoming!',
+    sprintSplit: '{lines} lines: {time}',
+    timedGoalComplete: 'Finished in {time}!',
+    lineGoalComplete: '{lines} lines cleared!',
     newHighScore: 'New High Score {score} on {mode} mode!',
     enterName: 'Enter your name:',
     saveLastAttempt: 'Save your last attempt:',
@@ -61,7 +80,7 @@ export default {
     welcome:
       'Welcome! Choose your game mode and start playing. Controls are displayed at the bottom of the page. {controls}',
     controlsHint:
-      '⬅️➡️ Move • ⬆️ Rotate • ⬇️ Accelerate • Space Drop • Shift Hold • P Pause • R Restart',
+      '⬅️➡️ Move • ⬆️/X Rotate • Z Rotate Left • A 180° • ⬇️ Accelerate • Space Drop • Shift Hold • P Pause • R Restart',
     supportMessage:
       'If you enjoyed the game and your Tetris break, feel free to support me or contribute to the project',
     audioEnabled: '🔊 Audio enabled',
@@ -75,6 +94,8 @@ export default {
     moveRight: 'Move Right',
     moveDown: 'Move Down',
     rotate: 'Rotate',
+    rotateCCW: 'Rotate Left',
+    rotate180: 'Rotate 180°',
     softDrop: 'Soft Drop',
     hardDrop: 'Hard Drop',
     hold: 'Hold',
@@ -104,6 +125,8 @@ export default {
     resetSettings: 'Reset',
     accessibility: 'Accessibility',
     colorblindMode: 'Colorblind Mode',
+    finesseMode: 'Finesse Trainer',
+    hints: 'Placement Hints',
   },
   themes: {
     classic: 'Classic',
@@ -124,12 +147,21 @@ export default {
     tip: 'Buy me a coffee',
     contribute: 'Contribute',
     issues: 'Report an issue',
+    back: 'Back',
   },
   achievements: {
     tetris: 'TETRIS!',
     backToBack: 'BACK-TO-BACK TETRIS!',
     combo: '{count}x COMBO!',
     perfect: 'PERFECT!',
+    perfectClear: 'PERFECT CLEAR!',
+    tSpin: 'T-SPIN!',
+    tSpinClear: 'T-SPIN {clear}!',
+    miniTSpin: 'MINI T-SPIN!',
+    miniTSpinClear: 'MINI T-SPIN {clear}!',
+    single: 'SINGLE',
+    double: 'DOUBLE',
+    triple: 'TRIPLE',
   },
   results: {
     finalScore: 'Final Score',
@@ -148,4 +180,98 @@ export default {
     license: 'Pixabay License',
     licenseLink: 'https://pixabay.com/service/license-summary/',
   },
+  puzzles: {
+    selectPuzzle: 'Select a puzzle',
+    name: 'Puzzle {number}',
+    pieces: '{count} pieces',
+    goalClearLines: 'Clear {lines} lines',
+    goalTSpin: 'T-spin clearing {lines} lines',
+    goalMiniTSpin: 'Mini T-spin clearing {lines} lines',
+    goalPerfectClear: 'Perfect clear',
+    solved: 'Puzzle solved!',
+    failed: 'Out of pieces, try again!',
+  },
+  custom: {
+    title: 'Custom rules',
+    preset: 'Preset',
+    newPreset: 'New preset',
+    presetName: 'Preset name',
+    boardWidth: 'Board width',
+    boardHeight: 'Board height',
+    startLevel: 'Start level',
+    speedCurve: 'Gravity',
+    speedCurves: {
+      relaxed: 'Relaxed',
+      standard: 'Standard',
+      fast: 'Fast',
+    },
+    timeLimit: 'Time limit (seconds, 0 = none)',
+    lineGoal: 'Line goal (0 = none)',
+    previewCount: 'Next pieces',
+    hold: 'Hold',
+    ghost: 'Ghost piece',
+    randomizer: 'Randomizer',
+    randomizers: {
+      bag: '7-bag',
+      classic: 'Classic (random)',
+      history: 'History (TGM)',
+    },
+    savePreset: 'Save preset',
+    deletePreset: 'Delete preset',
+    start: 'Start',
+    presetSaved: 'Preset "{name}" saved',
+    presetDeleted: 'Preset "{name}" deleted',
+    presetNameRequired: 'Enter a preset name first',
+  },
+  hints: {
+    enabled: 'Hints on: games played with hints are not ranked',
+    disabled: 'Hints off',
+    unranked: 'Hints were shown during this game, so it does not count for the leaderboard.',
+  },
+  finesse: {
+    enabled: 'Finesse trainer on',
+    disabled: 'Finesse trainer off',
+    fault: 'Finesse fault on {piece}: {keys} ({used} keys, {needed} needed)',
+  },
+  demo: {
+    title: 'AI Demo',
+    playing: 'AI demo',
+    exit: 'Exit',
+  },
+  versus: {
+    title: 'Versus',
+    player: 'Player {number}',
+    garbage: 'Incoming',
+    exit: 'Exit',
+    winner: 'Player {number} wins!',
+    result: '{lines} lines',
+    rematch: 'Rematch',
+  },
+  replays: {
+    title: 'Replays',
+    empty: 'No saved replays yet. Save one from the game over screen.',
+    details: 'Score {score} · {lines} lines · {date}',
+    delete: 'Delete replay',
+    watching: 'Replay',
+    play: 'Play',
+    pause: 'Pause',
+    step: 'Step',
+    speed: 'Speed',
+    exit: 'Exit',
+    save: 'Save Replay',
+    watch: 'Watch Replay',
+    saved: 'Replay saved',
+    finished: 'Replay finished',
+    export: 'Share Replay',
+    exportTitle: 'Share replay',
+    exportDescription: 'Send this link, or download the replay as a JSON file.',
+    copyLink: 'Copy link',
+    copied: 'Copied!',
+    download: 'Download JSON',
+    importTitle: 'Import replay',
+    importDescription: 'Paste a replay link, code or JSON file, or pick a file.',
+    import: 'Import',
+    imported: 'Replay imported',
+    importFailed: 'Could not import this replay: {reason}',
+  },
 };
@@ -21,12 +21,27 @@ export default {
     selectMode: 'Sélectionnez un mode',
     classicDesc: "Jouez jusqu'au game over. Complétez des lignes pour augmenter de niveau.",
     ultraDesc: 'Marquez un maximum de points en 2 minutes !',
+    sprint: 'Mode Sprint',
+    sprintDesc: 'Complétez 40 lignes le plus vite possible !',
+    marathon: 'Mode Marathon',
+    marathonDesc: 'Complétez 150 lignes en partant du niveau de votre choix.',
+    dig: 'Mode Creuser',
+    digDesc: 'Creusez 10 lignes de déchets le plus vite possible !',
+    survival: 'Mode Survie',
+    survivalDesc:
+      'Les déchets montent par le bas, plus vite à chaque niveau. Tenez le plus longtemps possible !',
+    puzzle: 'Mode Puzzle',
+    puzzleDesc: 'Résolvez un plateau préparé avec une série de pièces imposée.',
+    custom: 'Mode Personnalisé',
+    customDesc: 'Créez vos propres règles et enregistrez-les en préréglages.',
+    startLevel: 'Niveau de départ ({mode})',
   },
   stats: {
     score: 'Score',
     lines: 'Lignes',
     level: 'Niveau',
     timer: 'Temps',
+    combo: 'Combo',
     mode: 'Mode',
     fps: 'FPS',
     highScores: 'Meilleurs Scores',
@@ -50,6 +65,10 @@ export default {
     levelUp: 'Niveau supérieur {level} !',
     timeUp: 'Temps écoulé !',
     timeWarning: '{seconds} secondes restantes !',
+    garbageIncoming: 'Déchets en approche !',
+    sprintSplit: '{lines} lignes : {time}',
+    timedGoalComplete: 'Terminé en {time} !',
+    lineGoalComplete: '{lines} lignes complétées !',
     newHighScore: 'Nouveau record {score} sur le mode {mode} !',
     enterName: 'Entrez votre nom :',
     saveLastAttempt: 'Sauvegarder votre dernière tentative :',
@@ -62,7 +81,7 @@ export default {
     welcome:
       'Bienvenue ! Choisissez votre mode et commencez à jouer. Les contrôles sont affichés en bas de page.',
     controlsHint:
-      '⬅️➡️ Déplacer • ⬆️ Pivoter • ⬇️ Accélérer • Espace Lâcher • Shift Garder • P Pause • R Redémarrer',
+      '⬅️➡️ Déplacer • ⬆️/X Pivoter • Z Pivoter à gauche • A 180° • ⬇️ Accélérer • Espace Lâcher • Shift Garder • P Pause • R Redémarrer',
     supportMessage:
       "Si vous avez aimé le jeu et votre pause Tetris, n'hésitez pas à me soutenir ou à contribuer au projet",
     audioEnabled: '🔊 Audio activé',
@@ -76,6 +95,8 @@ export default {
     moveRight: 'Déplacer à droite',
     moveDown: 'Déplacer en bas',
     rotate: 'Pivoter',
+    rotateCCW: 'Pivoter à gauche',
+    rotate180: 'Pivoter 180°',
     softDrop: 'Chute lente',
     hardDrop: 'Chute rapide',
     hold: 'Mettre en réserve',
@@ -105,6 +126,8 @@ export default {
     resetSettings: 'Réinitialiser',
     accessibility: 'Accessibilité',
     colorblindMode: 'Mode Daltonien',
+    finesseMode: 'Entraîneur de finesse',
+    hints: 'Aide au placement',
   },
   themes: {
     classic: 'Classique',
@@ -126,12 +149,21 @@ export default {
     tip: 'Offrir un café',
     contribute: 'Contribuer',
     issues: 'Signaler un bug',
+    back: 'Retour',
   },
   achievements: {
     tetris: 'TETRIS !',
     backToBack: 'TETRIS DOS-À-DOS !',
     combo: '{count}x COMBO !',
     perfect: 'PARFAIT !',
+    perfectClear: 'PERFECT CLEAR !',
+    tSpin: 'T-SPIN !',
+    tSpinClear: 'T-SPIN {clear} !',
+    miniTSpin: 'MINI T-SPIN !',
+    miniTSpinClear: 'MINI T-SPIN {clear} !',
+    single: 'SIMPLE',
+    double: 'DOUBLE',
+    triple: 'TRIPLE',
   },
   results: {
     finalScore: 'Score final',
@@ -140,6 +172,7 @@ export default {
     playTime: 'Temps de jeu',
     linesPerMinute: 'Lignes/min',
     rank: 'Classement',
+    finesse: 'Finesse',
   },
   credits: {
     music: 'Musique',
@@ -150,4 +183,100 @@ export default {
     license: 'Licence Pixabay',
     licenseLink: 'https://pixabay.com/service/license-summary/',
   },
+  puzzles: {
+    selectPuzzle: 'Sélectionnez un puzzle',
+    name: 'Puzzle {number}',
+    pieces: '{count} pièces',
+    goalClearLines: 'Complétez {lines} lignes',
+    goalTSpin: 'T-spin de {lines} lignes',
+    goalMiniTSpin: 'Mini T-spin de {lines} lignes',
+    goalPerfectClear: 'Perfect clear',
+    solved: 'Puzzle résolu !',
+    failed: 'Plus de pièces, réessayez !',
+  },
+  custom: {
+    title: 'Règles personnalisées',
+    preset: 'Préréglage',
+    newPreset: 'Nouveau préréglage',
+    presetName: 'Nom du préréglage',
+    boardWidth: 'Largeur du plateau',
+    boardHeight: 'Hauteur du plateau',
+    startLevel: 'Niveau de départ',
+    speedCurve: 'Gravité',
+    speedCurves: {
+      relaxed: 'Détendue',
+      standard: 'Standard',
+      fast: 'Rapide',
+    },
+    timeLimit: 'Limite de temps (secondes, 0 = aucune)',
+    lineGoal: 'Objectif de lignes (0 = aucun)',
+    previewCount: 'Pièces suivantes',
+    hold: 'Réserve',
+    ghost: 'Pièce fantôme',
+    randomizer: 'Tirage des pièces',
+    randomizers: {
+      bag: 'Sac de 7',
+      classic: 'Classique (aléatoire)',
+      history: 'Historique (TGM)',
+    },
+    savePreset: 'Enregistrer le préréglage',
+    deletePreset: 'Supprimer le préréglage',
+    start: 'Jouer',
+    presetSaved: 'Préréglage « {name} » enregistré',
+    presetDeleted: 'Préréglage « {name} » supprimé',
+    presetNameRequired: 'Saisissez d’abord un nom de préréglage',
+  },
+  hints: {
+    enabled: "Aide activée : les parties jouées avec l'aide ne sont pas classées",
+    disabled: 'Aide désactivée',
+    unranked:
+      "L'aide au placement était affichée pendant cette partie, elle ne compte pas au classement.",
+  },
+  finesse: {
+    enabled: 'Entraîneur de finesse activé',
+    disabled: 'Entraîneur de finesse désactivé',
+    fault: 'Faute de finesse sur {piece} : {keys} ({used} touches, {needed} suffisent)',
+  },
+  demo: {
+    title: 'Démo IA',
+    playing: 'Démo IA',
+    exit: 'Quitter',
+  },
+  versus: {
+    title: 'Duel',
+    player: 'Joueur {number}',
+    garbage: 'Entrant',
+    exit: 'Quitter',
+    winner: 'Le joueur {number} gagne !',
+    result: '{lines} lignes',
+    rematch: 'Revanche',
+  },
+  replays: {
+    title: 'Replays',
+    empty: 'Aucun replay enregistré. Enregistrez-en un depuis l’écran de fin de partie.',
+    details: 'Score {score} · {lines} lignes · {date}',
+    delete: 'Supprimer le replay',
+    watching: 'Replay',
+    play: 'Lecture',
+    pause: 'Pause',
+    step: 'Image suivante',
+    speed: 'Vitesse',
+    exit: 'Quitter',
+    save: 'Enregistrer le replay',
+    watch: 'Revoir la partie',
+    saved: 'Replay enregistré',
+    finished: 'Replay terminé',
+    export: 'Partager le replay',
+    exportTitle: 'Partager le replay',
+    exportDescription: 'Envoyez ce lien ou téléchargez le replay au format JSON.',
+    copyLink: 'Copier le lien',
+    copied: 'Copié !',
+    download: 'Télécharger le JSON',
+    importTitle: 'Importer un replay',
+    importDescription:
+      'Collez un lien, un code ou un fichier JSON de replay, ou choisissez un fichier.',
+    import: 'Importer',
+    imported: 'Replay importé',
+    importFailed: 'Impossible d’importer ce replay : {reason}',
+  },
 };
@@ -11,13 +11,23 @@ type InputAction =
   | 'moveRight'
   | 'moveDown'
   | 'rotate'
+  | 'rotateCCW'
+  | 'rotate180'
   | 'hardDrop'
   | 'hold'
   | 'pause'
   | 'restart'
   | 'quit';
 
-type ActionCallback = () => void;
+/** repeat is true for the auto-repeats of a held key, false for the press itself */
+type ActionCallback = (repeat: boolean) => void;
+
+/**
+ * Physical key of an event (its code), or its key for synthetic events without one
+ */
+function getPhysicalKey(event: KeyboardEvent): string {
+  return event.code || event.key;
+}
 
 export class InputHandler {
   private controls: ControlsConfig;
@@ -33,6 +43,12 @@ export class InputHandler {
   private lastTapTime: number = 0;
   private repeatIntervals: Map<string, ReturnType<typeof setInterval | typeof setTimeout>> =
     new Map();
+  // Bound once so destroy() can remove the same listeners that were added
+  private onKeyDown = this.handleKeyDown.bind(this);
+  private onKeyUp = this.handleKeyUp.bind(this);
+  private onTouchStart = this.handleTouchStart.bind(this);
+  private onTouchMove = this.handleTouchMove.bind(this);
+  private onTouchEnd = this.handleTouchEnd.bind(this);
 
   constructor(controls?: ControlsConfig) {
     this.controls = controls || DEFAULT_CONTROLS;
@@ -51,17 +67,17 @@ export class InputHandler {
    */
   private setupEventListeners(): void {
     // Keyboard events
-    document.addEventListener('keydown', this.handleKeyDown.bind(this));
-    document.addEventListener('keyup', this.handleKeyUp.bind(this));
+    document.addEventListener('keydown', this.onKeyDown);
+    document.addEventListener('keyup', this.onKeyUp);
 
     // Touch events (mobile support)
-    document.addEventListener('touchstart', this.handleTouchStart.bind(this), {
+    document.addEventListener('touchstart', this.onTouchStart, {
       passive: false,
     });
-    document.addEventListener('touchmove', this.handleTouchMove.bind(this), {
+    document.addEventListener('touchmove', this.onTouchMove, {
       passive: false,
     });
-    document.addEventListener('touchend', this.handleTouchEnd.bind(this));
+    document.addEventListener('touchend', this.onTouchEnd);
   }
 
   /**
@@ -83,6 +99,9 @@ export class InputHandler {
    */
   private handleKeyDown(event: KeyboardEvent): void {
     const key = event.key;
+    // Pressed keys are tracked by physical key, so a modifier changing event.key between
+    // keydown and keyup cannot leave a key stuck
+    const physicalKey = getPhysicalKey(event);
 
     // Don't intercept keys if user is typing in an input field
     // This allows R, P, Q, D to be used in the player name input
@@ -98,11 +117,11 @@ export class InputHandler {
     const action = this.getActionForKey(key);
 
     // If key is already pressed, don't start another interval
-    if (this.pressedKeys.has(key)) {
+    if (this.pressedKeys.has(physicalKey)) {
       return;
     }
 
-    this.pressedKeys.add(key);
+    this.pressedKeys.add(physicalKey);
 
     // Execute action immediately
     if (action) {
@@ -114,17 +133,17 @@ export class InputHandler {
         const initialDelay = setTimeout(() => {
           // Then repeat continuously
           const interval = setInterval(() => {
-            if (this.pressedKeys.has(key)) {
-              this.executeAction(action);
+            if (this.pressedKeys.has(physicalKey)) {
+              this.executeAction(action, true);
             } else {
               clearInterval(interval);
             }
           }, this.movementRepeatInterval); // Repeat at configured interval
 
-          this.repeatIntervals.set(key, interval);
+          this.repeatIntervals.set(physicalKey, interval);
         }, this.movementInitialDelay); // Wait before starting repeat
 
-        this.repeatIntervals.set(key + '_initial', initialDelay);
+        this.repeatIntervals.set(physicalKey + '_initial', initialDelay);
       }
     }
   }
@@ -133,7 +152,7 @@ export class InputHandler {
    * Handle key up
    */
   private handleKeyUp(event: KeyboardEvent): void {
-    const key = event.key;
+    const key = getPhysicalKey(event);
     this.pressedKeys.delete(key);
 
     // Clear any repeat intervals
@@ -262,7 +281,7 @@ export class InputHandler {
   /**
    * Execute action with debouncing
    */
-  private executeAction(action: InputAction): void {
+  private executeAction(action: InputAction, repeat = false): void {
     // Check debounce for certain actions
     const overrideDebounce = this.debounceOverrides[action];
     const debounceTime = overrideDebounce !== undefined ? overrideDebounce : INPUT_DEBOUNCE[action];
@@ -280,7 +299,7 @@ export class InputHandler {
     // Execute callback
     const callback = this.actionCallbacks.get(action);
     if (callback) {
-      callback();
+      callback(repeat);
     }
   }
 
@@ -313,7 +332,7 @@ export class InputHandler {
   }
 
   /**
-   * Check if key is currently pressed
+   * Check if a physical key (KeyboardEvent.code) is currently pressed
    */
   public isKeyPressed(key: string): boolean {
     return this.pressedKeys.has(key);
@@ -344,7 +363,10 @@ export class InputHandler {
     this.movementInitialDelay = Math.max(90, baseInitialDelay / effectiveFactor);
     this.movementRepeatInterval = Math.max(25, baseInterval / effectiveFactor);
 
-    this.debounceOverrides.rotate = Math.max(90, baseRotateDebounce / effectiveFactor);
+    const rotateDebounce = Math.max(90, baseRotateDebounce / effectiveFactor);
+    this.debounceOverrides.rotate = rotateDebounce;
+    this.debounceOverrides.rotateCCW = rotateDebounce;
+    this.debounceOverrides.rotate180 = rotateDebounce;
   }
 
   /**
@@ -358,10 +380,12 @@ export class InputHandler {
     });
     this.repeatIntervals.clear();
 
-    document.removeEventListener('keydown', this.handleKeyDown.bind(this));
-    document.removeEventListener('keyup', this.handleKeyUp.bind(this));
-    document.removeEventListener('touchstart', this.handleTouchStart.bind(this));
-    document.removeEventListener('touchmove', this.handleTouchMove.bind(this));
-    document.removeEventListener('touchend', this.handleTouchEnd.bind(this));
+    this.pressedKeys.clear();
+
+    document.removeEventListener('keydown', this.onKeyDown);
+    document.removeEventListener('keyup', this.onKeyUp);
+    document.removeEventListener('touchstart', this.onTouchStart);
+    document.removeEventListener('touchmove', this.onTouchMove);
+    document.removeEventListener('touchend', this.onTouchEnd);
   }
 }
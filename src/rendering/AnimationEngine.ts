@@ -69,6 +69,13 @@ export class AnimationEngine {
     }
 
     ctx.globalAlpha = 1;
+
+    // Perfect clear: fading glow over the whole board
+    const perfectClear = this.animations.get('perfect_clear');
+    if (perfectClear) {
+      const progress = perfectClear.currentTime / perfectClear.duration;
+      this.flash(ctx, '#ffd700', 0.4 * (1 - progress));
+    }
   }
 
   /**
@@ -141,6 +148,31 @@ export class AnimationEngine {
     });
   }
 
+  /**
+   * Perfect clear animation: bursts across the whole board plus a fading glow
+   */
+  public animatePerfectClear(canvas: HTMLCanvasElement): void {
+    const columns = 5;
+    const rows = 10;
+    const stepX = canvas.width / columns;
+    const stepY = canvas.height / rows;
+
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < columns; col++) {
+        this.createParticles(
+          col * stepX + stepX / 2,
+          row * stepY + stepY / 2,
+          PARTICLE_CONFIGS.PERFECT_CLEAR
+        );
+      }
+    }
+
+    this.animations.set('perfect_clear', {
+      currentTime: 0,
+      duration: ANIMATION_DURATIONS.PERFECT_CLEAR,
+    });
+  }
+
   /**
    * Flash effect
    */
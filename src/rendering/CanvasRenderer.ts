@@ -5,18 +5,31 @@
 
 import type { BoardGrid, Tetromino } from '@/types/index';
 import {
+  BOARD_BUFFER_ROWS,
   BOARD_COLS,
+  BOARD_PEEK_ROWS,
   BOARD_ROWS,
   CELL_SIZE,
   GHOST_PIECE_OPACITY,
+  HINT_OUTLINE_DASH,
+  HINT_PIECE_OPACITY,
   VACANT_COLOR,
 } from '@constants/config';
+import { getBoardWidth, getVisibleHeight, isGarbageCell } from '@core/Board';
 import { getTetrominoOccupiedCells } from '@core/Tetromino';
 
+// Height of one next-queue slot relative to the preview canvas width
+const PREVIEW_SLOT_RATIO = 0.6;
+
+// Board row drawn at the top of the canvas: the hidden buffer stays hidden except for the peek rows
+const FIRST_DRAWN_ROW = BOARD_BUFFER_ROWS - BOARD_PEEK_ROWS;
+
 export class CanvasRenderer {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
   private cellSize: number;
+  private boardCols: number = BOARD_COLS;
+  private boardRows: number = BOARD_ROWS; // visible rows, peek rows not included
   private colorBlindMode: boolean = false;
 
   constructor(canvas: HTMLCanvasElement, cellSize: number = CELL_SIZE) {
@@ -30,8 +43,22 @@ export class CanvasRenderer {
     this.ctx = ctx;
 
     // Set canvas dimensions
-    this.canvas.width = BOARD_COLS * this.cellSize;
-    this.canvas.height = BOARD_ROWS * this.cellSize;
+    this.canvas.width = this.boardCols * this.cellSize;
+    this.canvas.height = (this.boardRows + BOARD_PEEK_ROWS) * this.cellSize;
+  }
+
+  /**
+   * Match the canvas to the size of the board being drawn
+   */
+  public setBoardSize(cols: number, rows: number): void {
+    if (cols === this.boardCols && rows === this.boardRows) {
+      return;
+    }
+
+    this.boardCols = cols;
+    this.boardRows = rows;
+    this.resize(this.cellSize);
+    this.autoResize();
   }
 
   /**
@@ -45,8 +72,9 @@ export class CanvasRenderer {
    * Draw a single square with optional 3D effects
    */
   private drawSquare(x: number, y: number, color: string, opacity = 1, with3D = false): void {
-    // Don't draw if off-screen (above board)
-    if (y < 0) {
+    // Don't draw if off-screen (hidden buffer above the peek rows)
+    const row = y - FIRST_DRAWN_ROW;
+    if (row < 0) {
       return;
     }
 
@@ -54,7 +82,7 @@ export class CanvasRenderer {
     this.ctx.globalAlpha = opacity;
 
     const xPos = x * this.cellSize;
-    const yPos = y * this.cellSize;
+    const yPos = row * this.cellSize;
 
     if (with3D) {
       // Fill with subtle gradient for soft 3D effect
@@ -123,15 +151,16 @@ export class CanvasRenderer {
    * Draw the game board (with 3D effects only for occupied cells)
    */
   public drawBoard(board: BoardGrid): void {
-    for (let row = 0; row < BOARD_ROWS; row++) {
+    for (let row = 0; row < board.length; row++) {
       const boardRow = board[row];
       if (!boardRow) continue;
 
-      for (let col = 0; col < BOARD_COLS; col++) {
+      for (let col = 0; col < boardRow.length; col++) {
         const color = boardRow[col];
         // Only draw if cell is not vacant
         if (color && color !== VACANT_COLOR) {
-          this.drawSquare(col, row, color, 1, true); // With 3D effect for occupied cells
+          // Garbage stays flat so it reads apart from placed pieces
+          this.drawSquare(col, row, color, 1, !isGarbageCell(color));
         }
       }
     }
@@ -145,7 +174,7 @@ export class CanvasRenderer {
     this.ctx.lineWidth = 0.5;
 
     // Vertical lines
-    for (let col = 0; col <= BOARD_COLS; col++) {
+    for (let col = 0; col <= this.boardCols; col++) {
       this.ctx.beginPath();
       this.ctx.moveTo(col * this.cellSize, 0);
       this.ctx.lineTo(col * this.cellSize, this.canvas.height);
@@ -153,12 +182,16 @@ export class CanvasRenderer {
     }
 
     // Horizontal lines
-    for (let row = 0; row <= BOARD_ROWS; row++) {
+    for (let row = 0; row <= this.boardRows + BOARD_PEEK_ROWS; row++) {
       this.ctx.beginPath();
       this.ctx.moveTo(0, row * this.cellSize);
       this.ctx.lineTo(this.canvas.width, row * this.cellSize);
       this.ctx.stroke();
     }
+
+    // Shade the peek rows so the top of the visible field stays readable
+    this.ctx.fillStyle = 'rgba(0, 0, 0, 0.35)';
+    this.ctx.fillRect(0, 0, this.canvas.width, BOARD_PEEK_ROWS * this.cellSize);
   }
 
   /**
@@ -179,6 +212,36 @@ export class CanvasRenderer {
     this.drawTetromino(ghostPiece, GHOST_PIECE_OPACITY);
   }
 
+  /**
+   * Draw the suggested placement: a faint fill with a dashed outline, unlike the solid ghost
+   */
+  public drawHintPiece(hintPiece: Tetromino): void {
+    const inset = 2;
+    const size = this.cellSize - inset * 2;
+
+    this.ctx.save();
+    this.ctx.strokeStyle = hintPiece.color;
+    this.ctx.lineWidth = 2;
+    this.ctx.setLineDash(HINT_OUTLINE_DASH);
+
+    for (const cell of getTetrominoOccupiedCells(hintPiece)) {
+      const row = cell.y - FIRST_DRAWN_ROW;
+      if (row < 0) continue;
+
+      const xPos = cell.x * this.cellSize + inset;
+      const yPos = row * this.cellSize + inset;
+
+      this.ctx.globalAlpha = HINT_PIECE_OPACITY;
+      this.ctx.fillStyle = hintPiece.color;
+      this.ctx.fillRect(xPos, yPos, size, size);
+
+      this.ctx.globalAlpha = 1;
+      this.ctx.strokeRect(xPos, yPos, size, size);
+    }
+
+    this.ctx.restore();
+  }
+
   /**
    * Draw preview piece (smaller scale) with gradient and highlight
    */
@@ -189,14 +252,95 @@ export class CanvasRenderer {
     // Clear preview canvas
     previewCtx.clearRect(0, 0, previewCanvas.width, previewCanvas.height);
 
-    const previewCellSize = this.cellSize * 0.7;
+    this.drawPreviewShape(
+      previewCtx,
+      tetromino,
+      0,
+      0,
+      previewCanvas.width,
+      previewCanvas.height,
+      this.cellSize * 0.7
+    );
+  }
+
+  /**
+   * Draw the next queue as a vertical stack of previews (first piece on top)
+   */
+  public drawPreviewQueue(pieces: Tetromino[], previewCanvas: HTMLCanvasElement): void {
+    const previewCtx = previewCanvas.getContext('2d');
+    if (!previewCtx || pieces.length === 0) return;
+
+    // One slot per piece: slots are wide enough for an I piece and tall enough for two rows
+    const slotHeight = Math.round(previewCanvas.width * PREVIEW_SLOT_RATIO);
+    const canvasHeight = slotHeight * pieces.length;
+    if (previewCanvas.height !== canvasHeight) {
+      previewCanvas.height = canvasHeight;
+    }
+
+    previewCtx.clearRect(0, 0, previewCanvas.width, previewCanvas.height);
+
+    const previewCellSize = Math.min(
+      this.cellSize * 0.7,
+      previewCanvas.width / 5,
+      slotHeight / 2.5
+    );
+
+    pieces.forEach((piece, index) => {
+      // Upcoming pieces further down the queue are drawn slightly faded
+      previewCtx.globalAlpha = index === 0 ? 1 : 0.75;
+      this.drawPreviewShape(
+        previewCtx,
+        piece,
+        0,
+        index * slotHeight,
+        previewCanvas.width,
+        slotHeight,
+        previewCellSize
+      );
+    });
+
+    previewCtx.globalAlpha = 1;
+  }
+
+  /**
+   * Draw a tetromino centered (on its occupied cells) inside a preview region
+   */
+  private drawPreviewShape(
+    previewCtx: CanvasRenderingContext2D,
+    tetromino: Tetromino,
+    regionX: number,
+    regionY: number,
+    regionWidth: number,
+    regionHeight: number,
+    previewCellSize: number
+  ): void {
     const shape = tetromino.shape;
 
-    // Center the piece in preview
-    const pieceWidth = shape[0]?.length || 0;
-    const pieceHeight = shape.length;
-    const offsetX = (previewCanvas.width - pieceWidth * previewCellSize) / 2;
-    const offsetY = (previewCanvas.height - pieceHeight * previewCellSize) / 2;
+    // Bounding box of the occupied cells
+    let minRow = shape.length;
+    let maxRow = -1;
+    let minCol = Infinity;
+    let maxCol = -1;
+    shape.forEach((shapeRow, row) => {
+      shapeRow.forEach((cell, col) => {
+        if (cell === 1) {
+          minRow = Math.min(minRow, row);
+          maxRow = Math.max(maxRow, row);
+          minCol = Math.min(minCol, col);
+          maxCol = Math.max(maxCol, col);
+        }
+      });
+    });
+
+    if (maxRow < 0) return;
+
+    // Center the piece in the region
+    const pieceWidth = maxCol - minCol + 1;
+    const pieceHeight = maxRow - minRow + 1;
+    const offsetX =
+      regionX + (regionWidth - pieceWidth * previewCellSize) / 2 - minCol * previewCellSize;
+    const offsetY =
+      regionY + (regionHeight - pieceHeight * previewCellSize) / 2 - minRow * previewCellSize;
 
     for (let row = 0; row < shape.length; row++) {
       const shapeRow = shape[row];
@@ -277,12 +421,18 @@ export class CanvasRenderer {
   public render(
     board: BoardGrid,
     currentPiece: Tetromino | null,
-    ghostPiece: Tetromino | null
+    ghostPiece: Tetromino | null,
+    hintPiece: Tetromino | null = null
   ): void {
+    this.setBoardSize(getBoardWidth(board), getVisibleHeight(board));
     this.clear();
     this.drawBoard(board);
     this.drawGrid();
 
+    if (hintPiece) {
+      this.drawHintPiece(hintPiece);
+    }
+
     if (ghostPiece) {
       this.drawGhostPiece(ghostPiece);
     }
@@ -298,7 +448,8 @@ export class CanvasRenderer {
   public highlightLines(lineIndices: number[], color = 'white'): void {
     for (const lineIndex of lineIndices) {
       this.ctx.fillStyle = color;
-      this.ctx.fillRect(0, lineIndex * this.cellSize, this.canvas.width, this.cellSize);
+      const row = lineIndex - FIRST_DRAWN_ROW;
+      this.ctx.fillRect(0, row * this.cellSize, this.canvas.width, this.cellSize);
     }
   }
 
@@ -307,8 +458,8 @@ export class CanvasRenderer {
    */
   public resize(newCellSize: number): void {
     this.cellSize = newCellSize;
-    this.canvas.width = BOARD_COLS * this.cellSize;
-    this.canvas.height = BOARD_ROWS * this.cellSize;
+    this.canvas.width = this.boardCols * this.cellSize;
+    this.canvas.height = (this.boardRows + BOARD_PEEK_ROWS) * this.cellSize;
   }
 
   /**
@@ -322,8 +473,8 @@ export class CanvasRenderer {
     const containerHeight = container.clientHeight;
 
     // Calculate optimal cell size based on container
-    const maxWidthBasedSize = Math.floor(containerWidth / BOARD_COLS);
-    const maxHeightBasedSize = Math.floor(containerHeight / BOARD_ROWS);
+    const maxWidthBasedSize = Math.floor(containerWidth / this.boardCols);
+    const maxHeightBasedSize = Math.floor(containerHeight / (this.boardRows + BOARD_PEEK_ROWS));
 
     // Use the smaller of the two to ensure it fits
     const optimalCellSize = Math.min(
@@ -27,6 +27,25 @@ export enum TetrominoType {
   Z = 'Z',
 }
 
+export enum RotationDirection {
+  CLOCKWISE = 'cw',
+  COUNTER_CLOCKWISE = 'ccw',
+  HALF_TURN = '180',
+}
+
+export enum RandomizerType {
+  BAG = 'bag',
+  CLASSIC = 'classic',
+  HISTORY = 'history',
+  FIXED = 'fixed', // deals a predefined sequence (puzzles)
+}
+
+export enum TSpinType {
+  NONE = 'none',
+  MINI = 'mini',
+  FULL = 'full',
+}
+
 export interface Tetromino {
   shape: TetrominoMatrix;
   color: string;
@@ -41,11 +60,14 @@ export interface GameState {
   board: BoardGrid;
   currentPiece: Tetromino | null;
   nextPiece: Tetromino | null;
+  nextPieces: Tetromino[]; // upcoming pieces, nextPieces[0] === nextPiece
   holdPiece: Tetromino | null;
   canHold: boolean;
   score: number;
   lines: number;
   level: number;
+  combo: number; // consecutive clearing pieces minus one, -1 when no chain is running
+  backToBack: boolean; // last line clear was difficult (tetris or T-spin)
   isGameOver: boolean;
   isPaused: boolean;
   gameMode: GameMode;
@@ -54,13 +76,124 @@ export interface GameState {
 export enum GameMode {
   CLASSIC = 'classic',
   ULTRA = 'ultra',
+  SPRINT = 'sprint',
+  MARATHON = 'marathon',
+  DIG = 'dig',
+  SURVIVAL = 'survival',
+  PUZZLE = 'puzzle',
+  CUSTOM = 'custom',
+}
+
+export enum GoalType {
+  NONE = 'none', // play until top out
+  TIME_LIMIT = 'time_limit', // game ends when timeLimit runs out
+  LINES = 'lines', // game ends when lineGoal lines are cleared
+  CLEAR_GARBAGE = 'clear_garbage', // game ends when every garbage cell is cleared
+  PUZZLE = 'puzzle', // game ends when the puzzle goal is met or its pieces run out
+}
+
+export enum RankingMetric {
+  SCORE = 'score', // highest score first
+  TIME = 'time', // fastest completion first
+}
+
+export enum SpeedCurvePreset {
+  RELAXED = 'relaxed',
+  STANDARD = 'standard',
+  FAST = 'fast',
 }
 
 export interface GameModeConfig {
   mode: GameMode;
+  goalType: GoalType;
+  rankBy: RankingMetric;
   timeLimit?: number; // in seconds, undefined for infinite
+  lineGoal?: number; // lines to clear for GoalType.LINES
+  splitLines?: number; // record a split time every N lines, undefined for no splits
+  garbageRows?: number; // garbage rows on the board at start, each with one hole
+  garbageInterval?: number; // ms between rising garbage rows at level 0, undefined for none
   startLevel: number;
+  maxStartLevel?: number; // highest start level players can pick, undefined when fixed
+  linesPerLevel: number; // lines between level-ups once the first one is reached
+  nesLevelUp?: boolean; // first level-up follows the NES start-level rule, false when undefined
   speedCurve: Record<number, number>; // level -> drop interval in ms
+  previewCount: number; // number of upcoming pieces shown (1 to 6)
+  lockDelay: number; // in ms, time a grounded piece waits before locking (0 locks instantly)
+  maxLockResets: number; // moves or rotations allowed to restart the lock delay per piece
+  boardWidth?: number; // columns, BOARD_COLS when undefined
+  boardHeight?: number; // visible rows, BOARD_ROWS when undefined
+  randomizer?: RandomizerType; // 7-bag when undefined
+  holdEnabled?: boolean; // true when undefined
+  ghostEnabled?: boolean; // true when undefined
+  customSettings?: CustomModeSettings; // builder settings a custom config was made from
+}
+
+/**
+ * Rules picked in the custom mode builder (0 disables the time limit or line goal)
+ */
+export interface CustomModeSettings {
+  boardWidth: number;
+  boardHeight: number;
+  startLevel: number;
+  speedCurve: SpeedCurvePreset;
+  timeLimit: number; // in seconds
+  lineGoal: number;
+  previewCount: number;
+  holdEnabled: boolean;
+  ghostEnabled: boolean;
+  randomizer: RandomizerType;
+}
+
+export interface CustomModePreset {
+  name: string;
+  settings: CustomModeSettings;
+}
+
+/**
+ * Player actions the engine can perform and replay (same names as the input actions)
+ */
+export type GameAction =
+  | 'moveLeft'
+  | 'moveRight'
+  | 'moveDown'
+  | 'rotate'
+  | 'rotateCCW'
+  | 'rotate180'
+  | 'hardDrop'
+  | 'hold';
+
+/**
+ * Weights of the board features the AI player scores placements with
+ */
+export interface AIWeights {
+  aggregateHeight: number;
+  linesCleared: number;
+  holes: number;
+  bumpiness: number;
+}
+
+export interface ReplayAction {
+  tick: number; // engine update ticks played before the action
+  action: GameAction;
+}
+
+export interface Replay {
+  version: number;
+  mode: GameMode;
+  seed: number;
+  startLevel: number;
+  customSettings?: CustomModeSettings; // custom rules the game was played with
+  puzzleId?: string; // bundled puzzle the game was played on
+  ticks: number; // engine update ticks the game ran for
+  actions: ReplayAction[];
+}
+
+export interface SavedReplay {
+  id: string;
+  savedAt: number; // timestamp
+  score: number;
+  lines: number;
+  replay: Replay;
 }
 
 export interface ScoreInfo {
@@ -70,6 +203,29 @@ export interface ScoreInfo {
   bonus: number;
 }
 
+export enum PuzzleGoalType {
+  CLEAR_LINES = 'clear_lines', // clear at least `lines` lines in total
+  T_SPIN = 't_spin', // perform a `tSpin` T-spin clearing `lines` lines
+  PERFECT_CLEAR = 'perfect_clear', // leave the board empty after a clear
+}
+
+export interface PuzzleGoal {
+  type: PuzzleGoalType;
+  lines?: number;
+  tSpin?: TSpinType;
+}
+
+/**
+ * Puzzle as stored in JSON. Board rows are listed top to bottom and aligned to the
+ * bottom of the board: '.' is empty, 'G' is garbage, a tetromino letter is a block of that color.
+ */
+export interface PuzzleDefinition {
+  id: string;
+  board: string[];
+  pieces: TetrominoType[];
+  goal: PuzzleGoal;
+}
+
 export interface HighScore {
   playerName: string;
   score: number;
@@ -78,6 +234,12 @@ export interface HighScore {
   mode: GameMode;
   timestamp: number;
   duration?: string; // formatted time string
+  time?: number; // completion time in seconds, set for finished runs of time-ranked modes
+}
+
+export interface WallKick {
+  offset: Position; // board offset applied to the rotated piece
+  index: number; // index of the kick test that succeeded (0 = no kick)
 }
 
 export interface CollisionResult {
@@ -102,6 +264,15 @@ export enum GameEventType {
   SCORE_UPDATED = 'score_updated',
   TIME_WARNING = 'time_warning',
   TIME_UP = 'time_up',
+  LOCK_DELAY_STARTED = 'lock_delay_started',
+  LOCK_DELAY_RESET = 'lock_delay_reset',
+  HOLD_USED = 'hold_used',
+  T_SPIN = 't_spin',
+  PERFECT_CLEAR = 'perfect_clear',
+  SPLIT = 'split',
+  GOAL_REACHED = 'goal_reached',
+  GARBAGE_INCOMING = 'garbage_incoming',
+  ACTION = 'action',
 }
 
 export type GameEventCallback = (event: GameEvent) => void;
@@ -139,6 +310,8 @@ export interface ControlsConfig {
   moveRight: string[];
   moveDown: string[];
   rotate: string[];
+  rotateCCW: string[];
+  rotate180: string[];
   hardDrop: string[];
   hold: string[];
   pause: string[];
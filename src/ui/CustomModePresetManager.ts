@@ -0,0 +1,138 @@
+/**
+ * Custom Mode Preset Manager for Tetris V2
+ * Saves named custom mode settings to localStorage
+ */
+
+import type { CustomModePreset, CustomModeSettings } from '@/types/index';
+import { CUSTOM_PRESET_NAME_MAX_LENGTH, MAX_CUSTOM_PRESETS, STORAGE_KEYS } from '@constants/config';
+import { normalizeCustomModeSettings } from '@core/GameModes';
+
+export class CustomModePresetManager {
+  private isLocalStorageAvailable: boolean;
+  private fallbackPresets: CustomModePreset[] = [];
+
+  constructor() {
+    this.isLocalStorageAvailable = this.checkLocalStorage();
+  }
+
+  /**
+   * Check if localStorage is available (can be blocked in private mode on mobile)
+   */
+  private checkLocalStorage(): boolean {
+    try {
+      const testKey = '__tetris_storage_test__';
+      localStorage.setItem(testKey, 'test');
+      localStorage.removeItem(testKey);
+      return true;
+    } catch (e) {
+      console.warn('localStorage is not available. Custom presets will not persist.', e);
+      return false;
+    }
+  }
+
+  /**
+   * Get saved presets, most recently saved first
+   */
+  public getPresets(): CustomModePreset[] {
+    if (this.isLocalStorageAvailable) {
+      try {
+        const stored = localStorage.getItem(STORAGE_KEYS.CUSTOM_MODE_PRESETS);
+        return stored ? this.validatePresets(JSON.parse(stored)) : [];
+      } catch (e) {
+        console.error('Failed to load custom presets from localStorage:', e);
+      }
+    }
+
+    return [...this.fallbackPresets];
+  }
+
+  /**
+   * Get a saved preset by name
+   */
+  public getPreset(name: string): CustomModePreset | null {
+    return this.getPresets().find((preset) => preset.name === name) ?? null;
+  }
+
+  /**
+   * Save settings under a name, replacing a preset with the same name
+   * Returns the saved preset, or null when the name is empty
+   */
+  public savePreset(name: string, settings: CustomModeSettings): CustomModePreset | null {
+    const presetName = this.sanitizePresetName(name);
+    if (!presetName) {
+      return null;
+    }
+
+    const preset: CustomModePreset = {
+      name: presetName,
+      settings: normalizeCustomModeSettings(settings),
+    };
+    const others = this.getPresets().filter((saved) => saved.name !== presetName);
+    this.savePresets([preset, ...others].slice(0, MAX_CUSTOM_PRESETS));
+
+    return preset;
+  }
+
+  /**
+   * Delete a preset by name
+   */
+  public deletePreset(name: string): boolean {
+    const presets = this.getPresets();
+    const remaining = presets.filter((preset) => preset.name !== name);
+    if (remaining.length === presets.length) {
+      return false;
+    }
+
+    this.savePresets(remaining);
+    return true;
+  }
+
+  /**
+   * Save presets to localStorage (or memory fallback)
+   */
+  private savePresets(presets: CustomModePreset[]): void {
+    if (this.isLocalStorageAvailable) {
+      try {
+        localStorage.setItem(STORAGE_KEYS.CUSTOM_MODE_PRESETS, JSON.stringify(presets));
+        return;
+      } catch (e) {
+        console.error('Failed to save custom presets to localStorage:', e);
+      }
+    }
+
+    this.fallbackPresets = presets;
+  }
+
+  /**
+   * Keep well-formed presets, clamping their settings to the builder limits
+   */
+  private validatePresets(data: unknown): CustomModePreset[] {
+    if (!Array.isArray(data)) {
+      return [];
+    }
+
+    return data
+      .filter(
+        (preset): preset is { name: string; settings: unknown } =>
+          typeof preset === 'object' &&
+          preset !== null &&
+          typeof (preset as { name?: unknown }).name === 'string'
+      )
+      .map((preset) => ({
+        name: this.sanitizePresetName(preset.name),
+        settings: normalizeCustomModeSettings(preset.settings),
+      }))
+      .filter((preset) => preset.name !== '')
+      .slice(0, MAX_CUSTOM_PRESETS);
+  }
+
+  /**
+   * Trim a preset name and strip markup characters
+   */
+  private sanitizePresetName(name: string): string {
+    return name
+      .replace(/[<>"'&]/g, '')
+      .trim()
+      .slice(0, CUSTOM_PRESET_NAME_MAX_LENGTH);
+  }
+}
@@ -6,6 +6,7 @@
 import { GameMode } from '@/types/index';
 import type { HighScore } from '@/types/index';
 import { MAX_HIGH_SCORES, PLAYER_NAME_MAX_LENGTH, STORAGE_KEYS } from '@constants/config';
+import { formatPreciseTime, isRankedByTime } from '@core/GameModes';
 import { i18n } from '@i18n/i18n';
 
 export class HighScoreManager {
@@ -66,8 +67,14 @@ export class HighScoreManager {
     score: number,
     lines: number,
     level: number,
-    duration?: string
+    duration?: string,
+    time?: number
   ): boolean {
+    // Time-ranked modes only keep finished runs
+    if (isRankedByTime(mode) && time === undefined) {
+      return false;
+    }
+
     const highScore: HighScore = {
       playerName: this.sanitizePlayerName(playerName),
       score: Math.round(score),
@@ -76,13 +83,14 @@ export class HighScoreManager {
       mode,
       timestamp: Date.now(),
       duration,
+      time,
     };
 
     const scores = this.getHighScores(mode);
     scores.push(highScore);
 
-    // Sort by score (descending)
-    scores.sort((a, b) => b.score - a.score);
+    // Sort by score (descending) or by time (ascending)
+    scores.sort((a, b) => this.compareScores(mode, a, b));
 
     // Keep only top scores
     const topScores = scores.slice(0, MAX_HIGH_SCORES);
@@ -98,8 +106,13 @@ export class HighScoreManager {
 
   /**
    * Check if a score qualifies as a high score
+   * Time-ranked modes compare the completion time instead of the score
    */
-  public isHighScore(mode: GameMode, score: number): boolean {
+  public isHighScore(mode: GameMode, score: number, time?: number): boolean {
+    if (isRankedByTime(mode) && time === undefined) {
+      return false;
+    }
+
     const scores = this.getHighScores(mode);
 
     if (scores.length < MAX_HIGH_SCORES) {
@@ -107,7 +120,24 @@ export class HighScoreManager {
     }
 
     const lowestHighScore = scores[scores.length - 1];
-    return lowestHighScore ? score > lowestHighScore.score : true;
+    if (!lowestHighScore) {
+      return true;
+    }
+
+    if (isRankedByTime(mode)) {
+      return (time ?? Number.MAX_VALUE) < (lowestHighScore.time ?? Number.MAX_VALUE);
+    }
+    return score > lowestHighScore.score;
+  }
+
+  /**
+   * Order two entries for a mode: best first
+   */
+  private compareScores(mode: GameMode, a: HighScore, b: HighScore): number {
+    if (isRankedByTime(mode)) {
+      return (a.time ?? Number.MAX_VALUE) - (b.time ?? Number.MAX_VALUE);
+    }
+    return b.score - a.score;
   }
 
   /**
@@ -160,14 +190,18 @@ export class HighScoreManager {
   }
 
   /**
-   * Get high score rank for a given score
+   * Get high score rank for a given score (or time for time-ranked modes)
    */
-  public getRank(mode: GameMode, score: number): number {
+  public getRank(mode: GameMode, score: number, time?: number): number {
     const scores = this.getHighScores(mode);
+    const rankedByTime = isRankedByTime(mode);
     let rank = 1;
 
     for (const highScore of scores) {
-      if (score >= highScore.score) {
+      const isBetter = rankedByTime
+        ? (time ?? Number.MAX_VALUE) <= (highScore.time ?? Number.MAX_VALUE)
+        : score >= highScore.score;
+      if (isBetter) {
         return rank;
       }
       rank++;
@@ -217,12 +251,21 @@ export class HighScoreManager {
       return;
     }
 
+    // Time-ranked modes show the completion time as the main column
+    const rankedByTime = isRankedByTime(mode);
+    const formatMain = (entry: HighScore): string => {
+      if (!rankedByTime) {
+        return entry.score.toLocaleString();
+      }
+      return entry.time !== undefined ? formatPreciseTime(entry.time) : '—';
+    };
+
     // Render header with column titles
     html += `
       <li class="high-score-header">
         <span class="rank">${i18n.t('stats.rank')}</span>
         <span class="name">${i18n.t('stats.name')}</span>
-        <span class="score">${i18n.t('stats.score')}</span>
+        <span class="score">${i18n.t(rankedByTime ? 'stats.timer' : 'stats.score')}</span>
         <span class="details">${i18n.t('stats.details')}</span>
       </li>
     `;
@@ -239,7 +282,7 @@ export class HighScoreManager {
           <li class="high-score-item">
             <span class="rank">${index + 1}.</span>
             <span class="name">${score.playerName}</span>
-            <span class="score">${score.score.toLocaleString()}</span>
+            <span class="score">${formatMain(score)}</span>
             <span class="details" title="${dateStr}">
               <span class="lines" title="${linesTooltip}">${score.lines}L</span>
               <span class="level" title="${levelTooltip}">L${score.level}</span>
@@ -264,7 +307,7 @@ export class HighScoreManager {
           <li class="high-score-item last-attempt">
             <span class="rank">—</span>
             <span class="name">${lastAttempt.playerName}</span>
-            <span class="score">${lastAttempt.score.toLocaleString()}</span>
+            <span class="score">${formatMain(lastAttempt)}</span>
             <span class="details" title="${dateStr}">
               <span class="lines" title="${linesTooltip}">${lastAttempt.lines}L</span>
               <span class="level" title="${levelTooltip}">L${lastAttempt.level}</span>
@@ -286,7 +329,8 @@ export class HighScoreManager {
     playerName: string,
     score: number,
     lines: number,
-    level: number
+    level: number,
+    time?: number
   ): void {
     const lastAttempt: HighScore = {
       playerName: this.sanitizePlayerName(playerName),
@@ -295,6 +339,7 @@ export class HighScoreManager {
       level,
       mode,
       timestamp: Date.now(),
+      time,
     };
 
     const key = this.getLastAttemptStorageKey(mode);
@@ -342,6 +387,14 @@ export class HighScoreManager {
         return STORAGE_KEYS.LAST_ATTEMPT_CLASSIC;
       case GameMode.ULTRA:
         return STORAGE_KEYS.LAST_ATTEMPT_ULTRA;
+      case GameMode.SPRINT:
+        return STORAGE_KEYS.LAST_ATTEMPT_SPRINT;
+      case GameMode.MARATHON:
+        return STORAGE_KEYS.LAST_ATTEMPT_MARATHON;
+      case GameMode.DIG:
+        return STORAGE_KEYS.LAST_ATTEMPT_DIG;
+      case GameMode.SURVIVAL:
+        return STORAGE_KEYS.LAST_ATTEMPT_SURVIVAL;
       default:
         return 'tetris_v2_last_attempt_unknown';
     }
@@ -356,6 +409,14 @@ export class HighScoreManager {
         return STORAGE_KEYS.HIGH_SCORES_CLASSIC;
       case GameMode.ULTRA:
         return STORAGE_KEYS.HIGH_SCORES_ULTRA;
+      case GameMode.SPRINT:
+        return STORAGE_KEYS.HIGH_SCORES_SPRINT;
+      case GameMode.MARATHON:
+        return STORAGE_KEYS.HIGH_SCORES_MARATHON;
+      case GameMode.DIG:
+        return STORAGE_KEYS.HIGH_SCORES_DIG;
+      case GameMode.SURVIVAL:
+        return STORAGE_KEYS.HIGH_SCORES_SURVIVAL;
       default:
         return 'tetris_v2_highscores_unknown';
     }
@@ -399,6 +460,7 @@ export class HighScoreManager {
           score !== null &&
           typeof score.score === 'number' &&
           typeof score.playerName === 'string' &&
+          (score.time === undefined || typeof score.time === 'number') &&
           score.score >= 0
         );
       })
@@ -0,0 +1,145 @@
+/**
+ * Replay Manager for Tetris V2
+ * Saves finished games as replays in localStorage, and imports shared replay files and codes
+ */
+
+import type { Replay, SavedReplay } from '@/types/index';
+import { MAX_SAVED_REPLAYS, STORAGE_KEYS } from '@constants/config';
+import { getReplayResult, parseReplay } from '@core/Replay';
+import { importReplayData } from '@core/ReplayCodec';
+
+export class ReplayManager {
+  private isLocalStorageAvailable: boolean;
+  private fallbackReplays: SavedReplay[] = [];
+
+  constructor() {
+    this.isLocalStorageAvailable = this.checkLocalStorage();
+  }
+
+  /**
+   * Check if localStorage is available (can be blocked in private mode on mobile)
+   */
+  private checkLocalStorage(): boolean {
+    try {
+      const testKey = '__tetris_storage_test__';
+      localStorage.setItem(testKey, 'test');
+      localStorage.removeItem(testKey);
+      return true;
+    } catch (e) {
+      console.warn('localStorage is not available. Replays will not persist.', e);
+      return false;
+    }
+  }
+
+  /**
+   * Get saved replays, most recently saved first
+   */
+  public getReplays(): SavedReplay[] {
+    if (this.isLocalStorageAvailable) {
+      try {
+        const stored = localStorage.getItem(STORAGE_KEYS.REPLAYS);
+        return stored ? this.validateReplays(JSON.parse(stored)) : [];
+      } catch (e) {
+        console.error('Failed to load replays from localStorage:', e);
+      }
+    }
+
+    return [...this.fallbackReplays];
+  }
+
+  /**
+   * Get a saved replay by id
+   */
+  public getReplay(id: string): SavedReplay | null {
+    return this.getReplays().find((saved) => saved.id === id) ?? null;
+  }
+
+  /**
+   * Save a replay with the result it reached, dropping the oldest beyond the limit
+   */
+  public saveReplay(replay: Replay, score: number, lines: number): SavedReplay {
+    const savedAt = Date.now();
+    const saved: SavedReplay = {
+      id: `${savedAt.toString(36)}-${replay.seed.toString(36)}`,
+      savedAt,
+      score,
+      lines,
+      replay,
+    };
+    this.saveReplays([saved, ...this.getReplays()].slice(0, MAX_SAVED_REPLAYS));
+
+    return saved;
+  }
+
+  /**
+   * Import a replay from a JSON file or replay code and save it
+   * Its result is found by playing it through; rejects with the reason if the data is invalid
+   */
+  public async importReplay(data: string): Promise<SavedReplay> {
+    const replay = await importReplayData(data);
+    const { score, lines } = getReplayResult(replay);
+
+    return this.saveReplay(replay, score, lines);
+  }
+
+  /**
+   * Delete a saved replay by id
+   */
+  public deleteReplay(id: string): boolean {
+    const replays = this.getReplays();
+    const remaining = replays.filter((saved) => saved.id !== id);
+    if (remaining.length === replays.length) {
+      return false;
+    }
+
+    this.saveReplays(remaining);
+    return true;
+  }
+
+  /**
+   * Save replays to localStorage (or memory fallback)
+   */
+  private saveReplays(replays: SavedReplay[]): void {
+    if (this.isLocalStorageAvailable) {
+      try {
+        localStorage.setItem(STORAGE_KEYS.REPLAYS, JSON.stringify(replays));
+        return;
+      } catch (e) {
+        console.error('Failed to save replays to localStorage:', e);
+      }
+    }
+
+    this.fallbackReplays = replays;
+  }
+
+  /**
+   * Keep well-formed saved replays, dropping any that no longer load
+   */
+  private validateReplays(data: unknown): SavedReplay[] {
+    if (!Array.isArray(data)) {
+      return [];
+    }
+
+    return data.flatMap((entry: unknown): SavedReplay[] => {
+      if (typeof entry !== 'object' || entry === null) {
+        return [];
+      }
+
+      const { id, savedAt, score, lines, replay } = entry as Record<string, unknown>;
+      if (
+        typeof id !== 'string' ||
+        typeof savedAt !== 'number' ||
+        typeof score !== 'number' ||
+        typeof lines !== 'number'
+      ) {
+        return [];
+      }
+
+      try {
+        return [{ id, savedAt, score, lines, replay: parseReplay(replay) }];
+      } catch {
+        return [];
+      }
+    });
+  }
+}
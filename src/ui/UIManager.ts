@@ -4,7 +4,7 @@
  */
 
 import type { GameState, GameMode } from '@/types/index';
-import { formatTime } from '@core/GameModes';
+import { formatPreciseTime, formatTime, getLineGoal, isRankedByTime } from '@core/GameModes';
 
 export class UIManager {
   private elements: Map<string, HTMLElement>;
@@ -24,6 +24,8 @@ export class UIManager {
       'level',
       'timer',
       'mode',
+      'combo',
+      'combo-stat',
       'next-canvas',
       'hold-canvas',
       'game-over-modal',
@@ -58,12 +60,12 @@ export class UIManager {
   }
 
   /**
-   * Update lines display
+   * Update lines display (as progress when the mode has a line goal)
    */
-  public updateLines(lines: number): void {
+  public updateLines(lines: number, lineGoal?: number): void {
     const element = this.getElement('lines');
     if (element) {
-      element.textContent = lines.toString();
+      element.textContent = lineGoal !== undefined ? `${lines}/${lineGoal}` : lines.toString();
     }
   }
 
@@ -78,12 +80,27 @@ export class UIManager {
   }
 
   /**
-   * Update timer display
+   * Update timer display (with hundredths for time-ranked modes)
    */
-  public updateTimer(seconds: number): void {
+  public updateTimer(seconds: number, precise = false): void {
     const element = this.getElement('timer');
     if (element) {
-      element.textContent = formatTime(seconds);
+      element.textContent = precise ? formatPreciseTime(seconds) : formatTime(seconds);
+    }
+  }
+
+  /**
+   * Update combo counter (hidden while no combo is running)
+   */
+  public updateCombo(combo: number): void {
+    const element = this.getElement('combo');
+    if (element) {
+      element.textContent = Math.max(combo, 0).toString();
+    }
+
+    const container = this.getElement('combo-stat');
+    if (container) {
+      container.style.display = combo > 0 ? '' : 'none';
     }
   }
 
@@ -102,10 +119,11 @@ export class UIManager {
    */
   public updateGameStats(state: GameState, elapsedTime: number): void {
     this.updateScore(state.score);
-    this.updateLines(state.lines);
+    this.updateLines(state.lines, getLineGoal(state.gameMode));
     this.updateLevel(state.level);
-    this.updateTimer(elapsedTime);
+    this.updateTimer(elapsedTime, isRankedByTime(state.gameMode));
     this.updateMode(state.gameMode);
+    this.updateCombo(state.combo);
   }
 
   /**
@@ -224,6 +242,18 @@ export class UIManager {
     this.showModal('game-over-modal');
   }
 
+  /**
+   * Show the finesse percentage in the game over modal, or hide it when finesse mode was off
+   */
+  public showFinesseResult(percentage: number | null): void {
+    const card = document.getElementById('game-over-finesse-card');
+    const value = document.getElementById('game-over-finesse');
+    if (!card || !value) return;
+
+    card.style.display = percentage === null ? 'none' : '';
+    value.textContent = percentage === null ? '' : `${Math.round(percentage)}%`;
+  }
+
   /**
    * Show pause modal
    */
@@ -301,6 +331,13 @@ export class UIManager {
     this.showNotification(`${secondsRemaining} seconds remaining!`, 'warning', 2000);
   }
 
+  /**
+   * Announce a special clear (T-spin, combo, ...)
+   */
+  public showAchievement(message: string): void {
+    this.showNotification(message, 'success', 1500);
+  }
+
   /**
    * Update button state
    */
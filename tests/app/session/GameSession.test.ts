@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { GameSession } from '../../../src/app/session/GameSession';
+import type { GameSessionDeps } from '../../../src/app/session/GameSession';
+import { VersusSession } from '../../../src/app/session/VersusSession';
+import { createVersusScreen } from '../../../src/app/setup/versusScreen';
+import type { AnimationEngine } from '../../../src/rendering/AnimationEngine';
+import type { CanvasRenderer } from '../../../src/rendering/CanvasRenderer';
+import type { AudioManager } from '../../../src/ui/AudioManager';
+import type { FPSCounter } from '../../../src/ui/FPSCounter';
+import type { UIManager } from '../../../src/ui/UIManager';
+import { GameMode } from '../../../src/types/index';
+
+const audioManager = { play: vi.fn() } as unknown as AudioManager;
+
+/** Stand-in whose every method is a no-op mock, for deps the frame loop only draws to. */
+function createStub<T>(): T {
+  const methods = new Map<PropertyKey, ReturnType<typeof vi.fn>>();
+  return new Proxy(
+    {},
+    {
+      get: (_target, key): ReturnType<typeof vi.fn> => {
+        const method = methods.get(key) ?? vi.fn();
+        methods.set(key, method);
+        return method;
+      },
+    }
+  ) as T;
+}
+
+function createDeps(): GameSessionDeps {
+  return {
+    renderer: createStub<CanvasRenderer>(),
+    animationEngine: createStub<AnimationEngine>(),
+    uiManager: createStub<UIManager>(),
+    audioManager,
+    fpsCounter: createStub<FPSCounter>(),
+    callbacks: { onGameOver: vi.fn(), onRestart: vi.fn(), onQuit: vi.fn() },
+  };
+}
+
+function press(key: string): void {
+  document.dispatchEvent(new KeyboardEvent('keydown', { key }));
+  document.dispatchEvent(new KeyboardEvent('keyup', { key }));
+}
+
+describe('GameSession', () => {
+  beforeEach(() => {
+    vi.stubGlobal(
+      'requestAnimationFrame',
+      vi.fn(() => 1)
+    );
+    vi.stubGlobal('cancelAnimationFrame', vi.fn());
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(
+      createStub<CanvasRenderingContext2D>()
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    document.body.innerHTML = '';
+  });
+
+  it('should release the keyboard when it quits', () => {
+    const deps = createDeps();
+    const session = new GameSession(deps);
+    session.start(GameMode.CLASSIC);
+
+    session.quit();
+    press('Tab');
+
+    expect(deps.callbacks.onQuit).not.toHaveBeenCalled();
+  });
+
+  it('should leave versus alone when versus starts after a single-player game', () => {
+    const deps = createDeps();
+    const session = new GameSession(deps);
+    session.start(GameMode.CLASSIC);
+    const engine = session.getEngine();
+    if (!engine) throw new Error('No engine');
+    const dispatch = vi.spyOn(engine, 'dispatch');
+    session.quit();
+
+    const screen = createVersusScreen({ onExit: vi.fn() });
+    const versus = new VersusSession({
+      views: screen.views,
+      audioManager,
+      colorBlindMode: false,
+      onWinner: vi.fn(),
+      onPauseChange: vi.fn(),
+    });
+    versus.start();
+
+    press('Tab');
+    press('ArrowLeft');
+
+    expect(deps.callbacks.onQuit).not.toHaveBeenCalled();
+    expect(dispatch).not.toHaveBeenCalled();
+    versus.quit();
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AIPlayer,
+  evaluatePlacement,
+  findBestPlacement,
+  findPlacements,
+  getBoardFeatures,
+} from '../../src/core/AIPlayer';
+import { createBoard } from '../../src/core/Board';
+import { FixedStepClock } from '../../src/core/GameClock';
+import { GameEngine } from '../../src/core/GameEngine';
+import { BagGenerator, FixedSequenceGenerator } from '../../src/core/PieceGenerator';
+import {
+  createTetromino,
+  getSpawnPosition,
+  getTetrominoOccupiedCells,
+} from '../../src/core/Tetromino';
+import { BOARD_COLS, FRAME_TIME, VACANT_COLOR } from '../../src/constants/config';
+import { GameEventType, GameMode, TetrominoType } from '../../src/types/index';
+import { BOTTOM_ROW, createState, createWellBoard } from './fixtures';
+
+describe('AIPlayer', () => {
+  describe('getBoardFeatures', () => {
+    it('should measure heights, holes and bumpiness', () => {
+      const board = createBoard();
+      const set = (x: number, y: number): void => {
+        const row = board[y];
+        if (row) row[x] = 'gray';
+      };
+      set(0, BOTTOM_ROW);
+      set(0, BOTTOM_ROW - 2); // column 0: height 3, one hole
+      set(1, BOTTOM_ROW); // column 1: height 1
+
+      expect(getBoardFeatures(board, 2)).toEqual({
+        aggregateHeight: 4,
+        linesCleared: 2,
+        holes: 1,
+        bumpiness: 3,
+      });
+    });
+  });
+
+  describe('findPlacements', () => {
+    it('should reach both walls in every rotation state', () => {
+      const board = createBoard();
+      const placements = findPlacements(
+        board,
+        createTetromino(TetrominoType.I, getSpawnPosition())
+      );
+
+      const columns = placements.map((placement) =>
+        getTetrominoOccupiedCells(placement.piece).map(({ x }) => x)
+      );
+      expect(columns.some((cells) => cells.every((x) => x === 0))).toBe(true);
+      expect(columns.some((cells) => cells.every((x) => x === BOARD_COLS - 1))).toBe(true);
+      // 7 horizontal + 10 vertical columns, twice (both horizontal and both vertical states)
+      expect(placements).toHaveLength(34);
+    });
+
+    it('should rest every placement on the stack', () => {
+      const board = createWellBoard(2, 4);
+      const placements = findPlacements(
+        board,
+        createTetromino(TetrominoType.T, getSpawnPosition())
+      );
+
+      for (const { piece } of placements) {
+        const cells = getTetrominoOccupiedCells(piece);
+        expect(
+          cells.some(({ x, y }) => y === BOTTOM_ROW || board[y + 1]?.[x] !== VACANT_COLOR)
+        ).toBe(true);
+      }
+    });
+  });
+
+  describe('evaluatePlacement', () => {
+    it('should prefer clearing lines to leaving holes', () => {
+      const board = createWellBoard(4, 9);
+      const spawn = getSpawnPosition();
+      const placements = findPlacements(board, createTetromino(TetrominoType.I, spawn));
+      const best = placements.reduce((a, b) => (b.score > a.score ? b : a));
+
+      expect(getTetrominoOccupiedCells(best.piece).every(({ x }) => x === 9)).toBe(true);
+      expect(best.score).toBe(evaluatePlacement(board, best.piece));
+    });
+  });
+
+  describe('findBestPlacement', () => {
+    it('should hold when the next piece fits much better', () => {
+      const state = createState(createWellBoard(4, 0), TetrominoType.S, TetrominoType.I);
+
+      const best = findBestPlacement(state);
+
+      expect(best?.useHold).toBe(true);
+      expect(best?.piece.type).toBe(TetrominoType.I);
+    });
+
+    it('should not hold when hold is already used', () => {
+      const state = { ...createState(createWellBoard(4, 0), TetrominoType.S, TetrominoType.I) };
+      state.canHold = false;
+
+      expect(findBestPlacement(state)?.useHold).toBe(false);
+    });
+  });
+
+  describe('playing a game', () => {
+    it('should reach its target through engine actions', () => {
+      const engine = new GameEngine(GameMode.CLASSIC, {
+        generator: new FixedSequenceGenerator([TetrominoType.I, TetrominoType.O, TetrominoType.T]),
+        clock: new FixedStepClock(),
+      });
+      const ai = new AIPlayer(engine);
+      const actions: string[] = [];
+      engine.addEventListener(GameEventType.ACTION, (event) => {
+        actions.push((event.data as { action: string }).action);
+      });
+
+      while (engine.getState().currentPiece?.type === TetrominoType.I) {
+        ai.update();
+        engine.update(FRAME_TIME);
+      }
+
+      expect(actions[actions.length - 1]).toBe('hardDrop');
+      expect(actions.every((action) => action !== 'moveDown')).toBe(true);
+    });
+
+    // Regression guard for the heuristics: a fixed seed must keep clearing lines without topping out
+    it('should survive a long seeded game', () => {
+      const engine = new GameEngine(GameMode.CLASSIC, {
+        generator: new BagGenerator(2024),
+        clock: new FixedStepClock(),
+      });
+      const ai = new AIPlayer(engine);
+      let pieces = 0;
+      engine.addEventListener(GameEventType.PIECE_LOCKED, () => pieces++);
+
+      while (pieces < 300 && !engine.getState().isGameOver) {
+        ai.update();
+        engine.update(FRAME_TIME);
+      }
+
+      expect(engine.getState().isGameOver).toBe(false);
+      expect(engine.getState().lines).toBeGreaterThanOrEqual(100);
+    });
+  });
+});
@@ -1,22 +1,59 @@
 import { describe, it, expect } from 'vitest';
 import {
   createBoard,
+  createBoardFromRows,
+  getBoardHeight,
+  getBoardWidth,
+  getVisibleHeight,
+  isBufferRow,
+  isLockOut,
   isValidPosition,
   isCellVacant,
   findCompleteLines,
   clearLines,
   isBoardEmpty,
+  insertGarbageRows,
+  countGarbageCells,
+  isGarbageCell,
 } from '../../src/core/Board';
-import { BOARD_ROWS, BOARD_COLS, VACANT_COLOR } from '../../src/constants/config';
+import { createTetromino } from '../../src/core/Tetromino';
+import { TetrominoType } from '../../src/types/index';
+import {
+  BOARD_BUFFER_ROWS,
+  BOARD_ROWS,
+  BOARD_COLS,
+  GARBAGE_COLOR,
+  TETROMINO_COLORS,
+  VACANT_COLOR,
+} from '../../src/constants/config';
+
+// Rows of a default board, hidden buffer included
+const TOTAL_ROWS = BOARD_BUFFER_ROWS + BOARD_ROWS;
 
 describe('Board', () => {
   describe('createBoard', () => {
     it('should create a board with correct dimensions', () => {
       const board = createBoard();
-      expect(board.length).toBe(BOARD_ROWS);
+      expect(board.length).toBe(TOTAL_ROWS);
       expect(board[0]?.length).toBe(BOARD_COLS);
     });
 
+    it('should create a board with the given dimensions', () => {
+      const board = createBoard(4, 40);
+
+      expect(getVisibleHeight(board)).toBe(40);
+      expect(getBoardHeight(board)).toBe(40 + BOARD_BUFFER_ROWS);
+      expect(getBoardWidth(board)).toBe(4);
+    });
+
+    it('should stack a hidden buffer above the visible field', () => {
+      const board = createBoard();
+
+      expect(getVisibleHeight(board)).toBe(BOARD_ROWS);
+      expect(isBufferRow(BOARD_BUFFER_ROWS - 1)).toBe(true);
+      expect(isBufferRow(BOARD_BUFFER_ROWS)).toBe(false);
+    });
+
     it('should create an empty board filled with VACANT_COLOR', () => {
       const board = createBoard();
       board.forEach((row) => {
@@ -27,18 +64,50 @@ describe('Board', () => {
     });
   });
 
+  describe('createBoardFromRows', () => {
+    it('should align the layout to the bottom of the visible field', () => {
+      const board = createBoardFromRows(['T.........', 'GGGGGGGGG.']);
+
+      expect(board.length).toBe(TOTAL_ROWS);
+      expect(board[TOTAL_ROWS - 2]?.[0]).toBe(TETROMINO_COLORS.T);
+      expect(board[TOTAL_ROWS - 2]?.[1]).toBe(VACANT_COLOR);
+      expect(board[TOTAL_ROWS - 1]?.filter(isGarbageCell)).toHaveLength(BOARD_COLS - 1);
+      expect(board[TOTAL_ROWS - 3]?.every((cell) => cell === VACANT_COLOR)).toBe(true);
+    });
+
+    it('should reject rows of the wrong width', () => {
+      expect(() => createBoardFromRows(['GGG'])).toThrow();
+    });
+
+    it('should reject unknown cells and layouts taller than the board', () => {
+      expect(() => createBoardFromRows(['GGGGGGGGG?'])).toThrow();
+      expect(() =>
+        createBoardFromRows(Array.from({ length: BOARD_ROWS + 1 }, () => '..........'))
+      ).toThrow();
+    });
+  });
+
   describe('isValidPosition', () => {
+    const board = createBoard();
+
     it('should return true for valid positions', () => {
-      expect(isValidPosition({ x: 0, y: 0 })).toBe(true);
-      expect(isValidPosition({ x: 5, y: 10 })).toBe(true);
-      expect(isValidPosition({ x: BOARD_COLS - 1, y: BOARD_ROWS - 1 })).toBe(true);
+      expect(isValidPosition(board, { x: 0, y: 0 })).toBe(true);
+      expect(isValidPosition(board, { x: 5, y: 10 })).toBe(true);
+      expect(isValidPosition(board, { x: BOARD_COLS - 1, y: TOTAL_ROWS - 1 })).toBe(true);
     });
 
     it('should return false for invalid positions', () => {
-      expect(isValidPosition({ x: -1, y: 0 })).toBe(false);
-      expect(isValidPosition({ x: 0, y: -1 })).toBe(false);
-      expect(isValidPosition({ x: BOARD_COLS, y: 0 })).toBe(false);
-      expect(isValidPosition({ x: 0, y: BOARD_ROWS })).toBe(false);
+      expect(isValidPosition(board, { x: -1, y: 0 })).toBe(false);
+      expect(isValidPosition(board, { x: 0, y: -1 })).toBe(false);
+      expect(isValidPosition(board, { x: BOARD_COLS, y: 0 })).toBe(false);
+      expect(isValidPosition(board, { x: 0, y: TOTAL_ROWS })).toBe(false);
+    });
+
+    it('should use the bounds of the board it is given', () => {
+      const big = createBoard(20, 40);
+
+      expect(isValidPosition(big, { x: 19, y: 40 + BOARD_BUFFER_ROWS - 1 })).toBe(true);
+      expect(isValidPosition(createBoard(4, 20), { x: 4, y: 0 })).toBe(false);
     });
   });
 
@@ -49,10 +118,10 @@ describe('Board', () => {
       expect(isCellVacant(board, { x: 5, y: 10 })).toBe(true);
     });
 
-    it('should return true for positions above the board', () => {
+    it('should return false for positions above the hidden buffer', () => {
       const board = createBoard();
-      expect(isCellVacant(board, { x: 0, y: -1 })).toBe(true);
-      expect(isCellVacant(board, { x: 5, y: -5 })).toBe(true);
+      expect(isCellVacant(board, { x: 0, y: -1 })).toBe(false);
+      expect(isCellVacant(board, { x: 5, y: -5 })).toBe(false);
     });
 
     it('should return false for occupied cells', () => {
@@ -99,7 +168,7 @@ describe('Board', () => {
     it('should clear specified lines', () => {
       const board = createBoard();
       // Fill bottom line
-      const lastRow = BOARD_ROWS - 1;
+      const lastRow = TOTAL_ROWS - 1;
       if (board[lastRow]) {
         for (let col = 0; col < BOARD_COLS; col++) {
           board[lastRow][col] = 'green';
@@ -114,8 +183,8 @@ describe('Board', () => {
 
     it('should clear multiple complete lines simultaneously', () => {
       const board = createBoard();
-      const lastRow = BOARD_ROWS - 1;
-      const secondLast = BOARD_ROWS - 2;
+      const lastRow = TOTAL_ROWS - 1;
+      const secondLast = TOTAL_ROWS - 2;
       // Fill bottom two lines
       for (const row of [lastRow, secondLast]) {
         if (board[row]) {
@@ -131,7 +200,7 @@ describe('Board', () => {
       expect(newBoard[0]?.every((cell) => cell === VACANT_COLOR)).toBe(true);
       expect(newBoard[1]?.every((cell) => cell === VACANT_COLOR)).toBe(true);
       // Board height unchanged
-      expect(newBoard.length).toBe(BOARD_ROWS);
+      expect(newBoard.length).toBe(TOTAL_ROWS);
     });
   });
 
@@ -149,4 +218,77 @@ describe('Board', () => {
       expect(isBoardEmpty(board)).toBe(false);
     });
   });
+
+  describe('isLockOut', () => {
+    it('should only lock out a piece entirely inside the hidden buffer', () => {
+      const hidden = createTetromino(TetrominoType.O, { x: 4, y: BOARD_BUFFER_ROWS - 3 });
+      const straddling = createTetromino(TetrominoType.O, { x: 4, y: BOARD_BUFFER_ROWS - 2 });
+
+      expect(isLockOut(hidden)).toBe(true);
+      expect(isLockOut(straddling)).toBe(false);
+    });
+  });
+
+  describe('insertGarbageRows', () => {
+    it('should add garbage rows at the bottom with one hole each', () => {
+      const { board, overflowed } = insertGarbageRows(createBoard(), [2, 7]);
+
+      expect(board.length).toBe(TOTAL_ROWS);
+      expect(overflowed).toBe(false);
+      expect(board[TOTAL_ROWS - 2]?.[2]).toBe(VACANT_COLOR);
+      expect(board[TOTAL_ROWS - 1]?.[7]).toBe(VACANT_COLOR);
+      expect(board[TOTAL_ROWS - 1]?.filter(isGarbageCell)).toHaveLength(BOARD_COLS - 1);
+    });
+
+    it('should push existing rows up', () => {
+      const board = createBoard();
+      const bottom = board[TOTAL_ROWS - 1];
+      if (bottom) bottom[0] = 'yellow';
+
+      const result = insertGarbageRows(board, [5]);
+
+      expect(result.board[TOTAL_ROWS - 2]?.[0]).toBe('yellow');
+      expect(board[TOTAL_ROWS - 1]?.[0]).toBe('yellow'); // original untouched
+    });
+
+    it('should report blocks pushed past the top', () => {
+      const board = createBoard();
+      if (board[0]) board[0][4] = 'yellow';
+
+      expect(insertGarbageRows(board, [0]).overflowed).toBe(true);
+    });
+  });
+
+  describe('other board sizes', () => {
+    it('should clear full rows of a narrow board', () => {
+      const board = createBoardFromRows(['GGG.', 'GGGG'], 4, 10);
+      const bottomRow = getBoardHeight(board) - 1;
+
+      expect(findCompleteLines(board)).toEqual([bottomRow]);
+
+      const cleared = clearLines(board, [bottomRow]);
+      expect(getBoardWidth(cleared)).toBe(4);
+      expect(getVisibleHeight(cleared)).toBe(10);
+      expect(cleared[0]?.every((cell) => cell === VACANT_COLOR)).toBe(true);
+    });
+
+    it('should fit garbage rows to the board width', () => {
+      const { board } = insertGarbageRows(createBoard(20, 40), [19]);
+      const bottomRow = getBoardHeight(board) - 1;
+
+      expect(board[bottomRow]?.filter(isGarbageCell)).toHaveLength(19);
+      expect(board[bottomRow]?.[19]).toBe(VACANT_COLOR);
+    });
+  });
+
+  describe('countGarbageCells', () => {
+    it('should count only garbage cells', () => {
+      const { board } = insertGarbageRows(createBoard(), [0, 1, 2]);
+      if (board[0]) board[0][0] = 'yellow';
+
+      expect(countGarbageCells(board)).toBe(3 * (BOARD_COLS - 1));
+      expect(isGarbageCell(GARBAGE_COLOR)).toBe(true);
+      expect(isGarbageCell('yellow')).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,146 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FinesseTracker } from '../../src/core/Finesse';
+import type { FinesseFault } from '../../src/core/Finesse';
+import { FixedStepClock } from '../../src/core/GameClock';
+import { GameEngine } from '../../src/core/GameEngine';
+import { FixedSequenceGenerator } from '../../src/core/PieceGenerator';
+import { GameMode, TetrominoType } from '../../src/types/index';
+import type { GameAction } from '../../src/types/index';
+
+function createEngine(): GameEngine {
+  return new GameEngine(GameMode.CLASSIC, {
+    generator: new FixedSequenceGenerator(Array<TetrominoType>(20).fill(TetrominoType.T)),
+    clock: new FixedStepClock(),
+  });
+}
+
+/**
+ * Press each key once, the way the session feeds the tracker
+ */
+function play(engine: GameEngine, tracker: FinesseTracker, actions: GameAction[]): void {
+  for (const action of actions) {
+    if (engine.dispatch(action)) tracker.recordPress(action);
+  }
+}
+
+/**
+ * Hold a key long enough for its auto-repeats to run into the wall
+ */
+function holdKey(engine: GameEngine, tracker: FinesseTracker, action: GameAction): void {
+  play(engine, tracker, [action]);
+  for (let repeat = 0; repeat < 10; repeat++) {
+    engine.dispatch(action);
+  }
+}
+
+describe('Finesse', () => {
+  describe('FinesseTracker', () => {
+    it('should not fault a piece placed with the fewest inputs', () => {
+      const engine = createEngine();
+      const tracker = new FinesseTracker(engine);
+
+      play(engine, tracker, ['hardDrop', 'moveLeft', 'moveLeft', 'hardDrop', 'rotate', 'hardDrop']);
+
+      expect(tracker.getStats()).toEqual({ pieces: 3, faults: 0, percentage: 100 });
+    });
+
+    it('should fault wasted inputs and report the optimal keys', () => {
+      const engine = createEngine();
+      const onFault = vi.fn<(fault: FinesseFault) => void>();
+      const tracker = new FinesseTracker(engine, { onFault });
+
+      play(engine, tracker, ['moveLeft', 'moveRight', 'moveLeft', 'hardDrop']);
+
+      expect(tracker.getStats()).toEqual({ pieces: 1, faults: 1, percentage: 0 });
+      expect(onFault).toHaveBeenCalledWith({
+        type: TetrominoType.T,
+        used: ['moveLeft', 'moveRight', 'moveLeft'],
+        optimal: ['moveLeft', 'hardDrop'],
+        needed: 1,
+      });
+    });
+
+    it('should fault a long way round to a rotation', () => {
+      const engine = createEngine();
+      const tracker = new FinesseTracker(engine);
+
+      play(engine, tracker, ['rotate', 'rotate', 'rotate', 'hardDrop', 'rotateCCW', 'hardDrop']);
+
+      expect(tracker.getStats()).toEqual({ pieces: 2, faults: 1, percentage: 50 });
+    });
+
+    it('should count a shift held to the wall as one input', () => {
+      const engine = createEngine();
+      const tracker = new FinesseTracker(engine);
+
+      holdKey(engine, tracker, 'moveLeft');
+      play(engine, tracker, ['hardDrop']);
+      play(engine, tracker, ['rotate']);
+      holdKey(engine, tracker, 'moveRight');
+      play(engine, tracker, ['hardDrop']);
+
+      expect(tracker.getStats()).toEqual({ pieces: 2, faults: 0, percentage: 100 });
+    });
+
+    it('should fault tapping to the wall where holding the shift takes one input', () => {
+      const engine = createEngine();
+      const tracker = new FinesseTracker(engine);
+
+      play(engine, tracker, ['moveLeft', 'moveLeft', 'moveLeft', 'hardDrop']);
+
+      expect(tracker.getStats().faults).toBe(1);
+    });
+
+    it('should not count presses the engine refused', () => {
+      const engine = createEngine();
+      const tracker = new FinesseTracker(engine);
+
+      holdKey(engine, tracker, 'moveLeft');
+      play(engine, tracker, ['moveLeft', 'moveLeft', 'hardDrop']);
+
+      expect(tracker.getStats().faults).toBe(0);
+    });
+
+    it('should not count soft drops', () => {
+      const engine = createEngine();
+      const tracker = new FinesseTracker(engine);
+
+      play(engine, tracker, ['moveDown', 'moveDown', 'moveDown', 'moveRight', 'hardDrop']);
+
+      expect(tracker.getStats().faults).toBe(0);
+    });
+
+    it('should judge a held piece from the piece that replaces it', () => {
+      const engine = createEngine();
+      const tracker = new FinesseTracker(engine);
+
+      play(engine, tracker, ['moveLeft', 'moveRight', 'hold', 'hardDrop']);
+
+      expect(tracker.getStats()).toEqual({ pieces: 1, faults: 0, percentage: 100 });
+    });
+
+    it('should count a piece left to lock on its own as clean', () => {
+      const engine = createEngine();
+      const tracker = new FinesseTracker(engine);
+
+      for (let tick = 0; tick < 5000 && tracker.getStats().pieces === 0; tick++) {
+        engine.update(0);
+      }
+
+      expect(tracker.getStats()).toEqual({ pieces: 1, faults: 0, percentage: 100 });
+    });
+
+    it('should forget the counts on reset and stop counting once detached', () => {
+      const engine = createEngine();
+      const tracker = new FinesseTracker(engine);
+
+      play(engine, tracker, ['moveLeft', 'moveRight', 'hardDrop']);
+      tracker.reset();
+      expect(tracker.getStats()).toEqual({ pieces: 0, faults: 0, percentage: 100 });
+
+      tracker.detach();
+      play(engine, tracker, ['moveLeft', 'moveRight', 'hardDrop']);
+      expect(tracker.getStats().pieces).toBe(0);
+    });
+  });
+});
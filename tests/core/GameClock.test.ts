@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { FixedStepClock, TickClock } from '../../src/core/GameClock';
+import { FRAME_TIME } from '../../src/constants/config';
+
+describe('GameClock', () => {
+  describe('TickClock', () => {
+    it('should add up the delta time of each tick', () => {
+      const clock = new TickClock();
+
+      clock.advance(16);
+      clock.advance(20);
+
+      expect(clock.now()).toBe(36);
+    });
+
+    it('should never run backwards and restart from zero on reset', () => {
+      const clock = new TickClock();
+
+      clock.advance(10);
+      clock.advance(-5);
+      expect(clock.now()).toBe(10);
+
+      clock.reset();
+      expect(clock.now()).toBe(0);
+    });
+  });
+
+  describe('FixedStepClock', () => {
+    it('should move one step per tick whatever delta it is given', () => {
+      const clock = new FixedStepClock();
+
+      clock.advance();
+      clock.advance();
+      clock.advance();
+
+      expect(clock.getTicks()).toBe(3);
+      expect(clock.now()).toBe(3 * FRAME_TIME);
+    });
+
+    it('should count time in ticks so long runs stay exact', () => {
+      const clock = new FixedStepClock(10);
+      for (let i = 0; i < 100_000; i++) {
+        clock.advance();
+      }
+
+      expect(clock.now()).toBe(1_000_000);
+
+      clock.reset();
+      expect(clock.now()).toBe(0);
+    });
+
+    it('should reject a step that does not move time forward', () => {
+      expect(() => new FixedStepClock(0)).toThrow();
+    });
+  });
+});
@@ -1,6 +1,130 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Mock } from 'vitest';
 import { GameEngine } from '../../src/core/GameEngine';
-import { GameMode, GameEventType } from '../../src/types/index';
+import { FixedStepClock } from '../../src/core/GameClock';
+import {
+  BagGenerator,
+  FixedSequenceGenerator,
+  HistoryGenerator,
+} from '../../src/core/PieceGenerator';
+import type { PieceGenerator } from '../../src/core/PieceGenerator';
+import {
+  applyBackToBack,
+  calculateLineScore,
+  calculatePerfectClearBonus,
+  getDropSpeed,
+} from '../../src/core/ScoringSystem';
+import { createTetromino, getTetrominoOccupiedCells } from '../../src/core/Tetromino';
+import { countGarbageCells, isGarbageCell } from '../../src/core/Board';
+import {
+  createCustomModeConfig,
+  getGameModeConfig,
+  setCustomModeConfig,
+} from '../../src/core/GameModes';
+import { getBuiltInPuzzles } from '../../src/core/Puzzle';
+import {
+  BOARD_BUFFER_ROWS,
+  BOARD_COLS,
+  BOARD_ROWS,
+  COMBO_BONUS,
+  DEFAULT_CUSTOM_MODE_SETTINGS,
+  DIG_GARBAGE_ROWS,
+  FRAME_TIME,
+  GARBAGE_WARNING_TIME,
+  LOCK_DELAY,
+  MAX_LOCK_RESETS,
+  SURVIVAL_GARBAGE_INTERVAL,
+  TETROMINO_COLORS,
+  VACANT_COLOR,
+} from '../../src/constants/config';
+import {
+  GameMode,
+  GameEventType,
+  RandomizerType,
+  TSpinType,
+  TetrominoType,
+} from '../../src/types/index';
+import type {
+  CustomModeSettings,
+  GameEventCallback,
+  PuzzleDefinition,
+} from '../../src/types/index';
+
+const alwaysI: PieceGenerator = {
+  type: RandomizerType.BAG,
+  next: () => TetrominoType.I,
+  reset: () => undefined,
+  getSeed: () => 0,
+};
+
+// Bottom row of a default board, below the hidden buffer
+const BOTTOM_ROW = BOARD_BUFFER_ROWS + BOARD_ROWS - 1;
+
+/** Fill the four bottom rows except the right column */
+function prepareWell(target: GameEngine): void {
+  // getState() shares the board grid, so the test can shape it in place
+  const board = target.getState().board;
+  for (let y = BOTTOM_ROW - 3; y <= BOTTOM_ROW; y++) {
+    const row = board[y];
+    row?.fill('red');
+    if (row) row[9] = VACANT_COLOR;
+  }
+}
+
+/** Drop a vertical I into the right column */
+function dropIntoWell(target: GameEngine): void {
+  target.rotate();
+  while (target.moveRight());
+  target.hardDrop();
+}
+
+/** Slide the current piece until its leftmost block sits in the given column */
+function moveToColumn(target: GameEngine, column: number): void {
+  const leftmost = (): number => {
+    const piece = target.getState().currentPiece;
+    return piece ? Math.min(...getTetrominoOccupiedCells(piece).map((cell) => cell.x)) : column;
+  };
+
+  while (leftmost() > column && target.moveLeft());
+  while (leftmost() < column && target.moveRight());
+}
+
+/** Known solution for each bundled puzzle */
+const PUZZLE_SOLUTIONS: Record<string, (target: GameEngine) => void> = {
+  'first-tetris': (target) => dropIntoWell(target),
+  'five-piece-tetris': (target) => {
+    moveToColumn(target, 5);
+    target.hardDrop();
+    moveToColumn(target, 7);
+    target.hardDrop();
+    moveToColumn(target, 5);
+    target.hardDrop();
+    moveToColumn(target, 5);
+    target.hardDrop();
+    dropIntoWell(target);
+  },
+  't-spin-double': (target) => {
+    target.rotate();
+    moveToColumn(target, 4);
+    while (target.moveDown());
+    target.rotate();
+    target.hardDrop();
+  },
+  'perfect-clear': (target) => {
+    moveToColumn(target, 6);
+    target.hardDrop();
+    moveToColumn(target, 8);
+    target.hardDrop();
+  },
+};
+
+function getPuzzle(id: string): PuzzleDefinition {
+  const puzzle = getBuiltInPuzzles().find((candidate) => candidate.id === id);
+  if (!puzzle) {
+    throw new Error(`Missing puzzle ${id}`);
+  }
+  return puzzle;
+}
 
 describe('GameEngine', () => {
   let engine: GameEngine;
@@ -33,6 +157,90 @@ describe('GameEngine', () => {
     });
   });
 
+  describe('Piece Generator', () => {
+    const dealtTypes = (gameEngine: GameEngine, count: number): string[] => {
+      const types: string[] = [];
+      for (let i = 0; i < count; i++) {
+        types.push(gameEngine.getState().currentPiece?.type ?? '');
+        gameEngine.hardDrop();
+      }
+      return types;
+    };
+
+    it('should deal the same sequence for the same seed', () => {
+      const a = new GameEngine(GameMode.CLASSIC, { generator: new BagGenerator(1234) });
+      const b = new GameEngine(GameMode.CLASSIC, { generator: new BagGenerator(1234) });
+
+      expect(dealtTypes(a, 7)).toEqual(dealtTypes(b, 7));
+    });
+
+    it('should deal pieces from the injected generator', () => {
+      const expected = new BagGenerator(42);
+      const seeded = new GameEngine(GameMode.CLASSIC, { generator: new BagGenerator(42) });
+
+      const state = seeded.getState();
+      expect(state.currentPiece?.type).toBe(expected.next());
+      expect(state.nextPiece?.type).toBe(expected.next());
+      expect(seeded.getSeed()).toBe(42);
+    });
+
+    it('should replay a seed on restart', () => {
+      const seeded = new GameEngine(GameMode.CLASSIC, { generator: new BagGenerator(9) });
+      const first = dealtTypes(seeded, 5);
+
+      seeded.restart(GameMode.CLASSIC, 9);
+
+      expect(dealtTypes(seeded, 5)).toEqual(first);
+    });
+  });
+
+  describe('Next Queue', () => {
+    it('should expose the mode preview count by default', () => {
+      const state = engine.getState();
+
+      expect(state.nextPieces).toHaveLength(engine.getPreviewCount());
+      expect(state.nextPiece).toBe(state.nextPieces[0]);
+    });
+
+    it('should expose a configurable number of upcoming pieces', () => {
+      const sixPreviews = new GameEngine(GameMode.CLASSIC, { previewCount: 6 });
+
+      expect(sixPreviews.getState().nextPieces).toHaveLength(6);
+    });
+
+    it('should clamp the preview count between 1 and 6', () => {
+      expect(new GameEngine(GameMode.CLASSIC, { previewCount: 0 }).getPreviewCount()).toBe(1);
+      expect(new GameEngine(GameMode.CLASSIC, { previewCount: 12 }).getPreviewCount()).toBe(6);
+    });
+
+    it('should list pieces in generator order', () => {
+      const expected = new BagGenerator(21);
+      const seeded = new GameEngine(GameMode.CLASSIC, {
+        generator: new BagGenerator(21),
+        previewCount: 5,
+      });
+      const state = seeded.getState();
+
+      expect(state.currentPiece?.type).toBe(expected.next());
+      state.nextPieces.forEach((piece) => expect(piece.type).toBe(expected.next()));
+    });
+
+    it('should advance the queue when a piece locks', () => {
+      const seeded = new GameEngine(GameMode.CLASSIC, {
+        generator: new BagGenerator(3),
+        previewCount: 4,
+      });
+      const queued = seeded.getState().nextPieces.map((piece) => piece.type);
+
+      seeded.hardDrop();
+      const state = seeded.getState();
+
+      expect(state.currentPiece?.type).toBe(queued[0]);
+      expect(state.nextPieces.map((piece) => piece.type).slice(0, 3)).toEqual(queued.slice(1));
+      expect(state.nextPieces).toHaveLength(4);
+    });
+  });
+
   describe('Movement', () => {
     it('should move piece left when possible', () => {
       const initialState = engine.getState();
@@ -104,6 +312,40 @@ describe('GameEngine', () => {
     });
   });
 
+  describe('Rotation Directions', () => {
+    it('should rotate counter-clockwise', () => {
+      const seeded = new GameEngine(GameMode.CLASSIC, { generator: new BagGenerator(1) });
+      if (seeded.getState().currentPiece?.type === TetrominoType.O) seeded.hold();
+      seeded.moveDown();
+      seeded.moveDown();
+
+      expect(seeded.rotateCounterClockwise()).toBe(true);
+      expect(seeded.getState().currentPiece?.rotation).toBe(3);
+    });
+
+    it('should rotate by 180°', () => {
+      const seeded = new GameEngine(GameMode.CLASSIC, { generator: new BagGenerator(1) });
+      if (seeded.getState().currentPiece?.type === TetrominoType.O) seeded.hold();
+      seeded.moveDown();
+      seeded.moveDown();
+
+      expect(seeded.rotate180()).toBe(true);
+      expect(seeded.getState().currentPiece?.rotation).toBe(2);
+    });
+
+    it('should report the rotation direction in PIECE_ROTATED', () => {
+      const callback = vi.fn();
+      engine.addEventListener(GameEventType.PIECE_ROTATED, callback);
+      engine.moveDown();
+      engine.moveDown();
+
+      if (engine.rotateCounterClockwise()) {
+        const event = callback.mock.calls[0]?.[0] as { data: { direction: string } };
+        expect(event.data.direction).toBe('ccw');
+      }
+    });
+  });
+
   describe('Hard Drop', () => {
     it('should drop piece to bottom instantly', () => {
       const initialScore = engine.getState().score;
@@ -115,6 +357,722 @@ describe('GameEngine', () => {
     });
   });
 
+  describe('Place', () => {
+    beforeEach(() => {
+      engine = new GameEngine(GameMode.CLASSIC, {
+        generator: new FixedSequenceGenerator([
+          TetrominoType.I,
+          TetrominoType.O,
+          TetrominoType.T,
+          TetrominoType.S,
+          TetrominoType.Z,
+          TetrominoType.L,
+          TetrominoType.J,
+        ]),
+      });
+    });
+
+    it('should drop the piece in the given column and rotation state', () => {
+      expect(engine.place(-2, 1)).toBe(true);
+
+      const board = engine.getState().board;
+      for (let row = BOTTOM_ROW - 3; row <= BOTTOM_ROW; row++) {
+        expect(board[row]?.[0]).toBe(TETROMINO_COLORS.I);
+      }
+      expect(engine.getState().currentPiece?.type).toBe(TetrominoType.O);
+    });
+
+    it('should refuse a spot the piece does not fit in', () => {
+      const pieceBefore = engine.getState().currentPiece;
+
+      expect(engine.place(BOARD_COLS, 0)).toBe(false);
+      expect(engine.place(-3, 1)).toBe(false);
+      expect(engine.place(0.5, 0)).toBe(false);
+      expect(engine.getState().currentPiece).toEqual(pieceBefore);
+    });
+  });
+
+  describe('Received Garbage', () => {
+    beforeEach(() => {
+      engine = new GameEngine(GameMode.CLASSIC, {
+        generator: new FixedSequenceGenerator(Array<TetrominoType>(10).fill(TetrominoType.O)),
+      });
+    });
+
+    it('should queue garbage until a piece locks without clearing lines', () => {
+      engine.receiveGarbage(3);
+
+      expect(engine.getPendingGarbage()).toBe(3);
+      expect(countGarbageCells(engine.getState().board)).toBe(0);
+
+      engine.hardDrop();
+
+      const board = engine.getState().board;
+      const holes = [BOTTOM_ROW, BOTTOM_ROW - 1, BOTTOM_ROW - 2].map((row) =>
+        board[row]?.findIndex((cell) => !isGarbageCell(cell))
+      );
+      expect(engine.getPendingGarbage()).toBe(0);
+      expect(countGarbageCells(board)).toBe(3 * (BOARD_COLS - 1));
+      expect(new Set(holes).size).toBe(1);
+    });
+
+    it('should cancel queued rows and return the attack left over', () => {
+      engine.receiveGarbage(2);
+
+      expect(engine.cancelGarbage(3)).toBe(1);
+      expect(engine.getPendingGarbage()).toBe(0);
+      expect(engine.cancelGarbage(2)).toBe(2);
+    });
+
+    it('should forget queued garbage on restart', () => {
+      engine.receiveGarbage(4);
+      engine.restart();
+
+      expect(engine.getPendingGarbage()).toBe(0);
+    });
+  });
+
+  describe('Lock Delay', () => {
+    let locked: Mock<GameEventCallback>;
+
+    beforeEach(() => {
+      locked = vi.fn<GameEventCallback>();
+      engine = new GameEngine(GameMode.CLASSIC, { generator: new BagGenerator(1) });
+      engine.addEventListener(GameEventType.PIECE_LOCKED, locked);
+      while (engine.moveDown());
+    });
+
+    /** Slide the grounded piece back and forth without leaving its row */
+    const slide = (times: number): void => {
+      for (let i = 0; i < times; i++) {
+        if (i % 2 === 0) {
+          engine.moveLeft();
+        } else {
+          engine.moveRight();
+        }
+      }
+    };
+
+    it('should expose lock delay settings on the mode config', () => {
+      const config = getGameModeConfig(GameMode.CLASSIC);
+
+      expect(config.lockDelay).toBe(LOCK_DELAY);
+      expect(config.maxLockResets).toBe(MAX_LOCK_RESETS);
+    });
+
+    it('should not lock as soon as the piece lands', () => {
+      expect(locked).not.toHaveBeenCalled();
+      expect(engine.moveDown()).toBe(false);
+      expect(locked).not.toHaveBeenCalled();
+    });
+
+    it('should emit LOCK_DELAY_STARTED once when the piece lands', () => {
+      const callback = vi.fn();
+      engine.restart(GameMode.CLASSIC, 1);
+      engine.addEventListener(GameEventType.LOCK_DELAY_STARTED, callback);
+
+      while (engine.moveDown());
+      engine.moveDown();
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { delay: LOCK_DELAY, resetsLeft: MAX_LOCK_RESETS },
+        })
+      );
+    });
+
+    it('should start the delay when a piece lands by shifting sideways', () => {
+      const started = vi.fn();
+      const oPieces = new FixedSequenceGenerator(Array<TetrominoType>(5).fill(TetrominoType.O));
+      engine = new GameEngine(GameMode.CLASSIC, { generator: oPieces });
+      engine.addEventListener(GameEventType.LOCK_DELAY_STARTED, started);
+      engine.addEventListener(GameEventType.PIECE_LOCKED, locked);
+
+      // A ledge right under the O's right side once it shifts one column over
+      const piece = engine.getState().currentPiece;
+      if (!piece) throw new Error('No current piece');
+      const cells = getTetrominoOccupiedCells(piece);
+      const right = Math.max(...cells.map(({ x }) => x));
+      const bottom = Math.max(...cells.map(({ y }) => y));
+      const ledge = engine.getState().board[bottom + 1];
+      if (ledge) ledge[right + 1] = 'red';
+
+      expect(engine.moveRight()).toBe(true);
+      expect(started).toHaveBeenCalledTimes(1);
+
+      engine.update(LOCK_DELAY);
+      expect(locked).toHaveBeenCalledTimes(1);
+    });
+
+    it('should lock once the delay has elapsed', () => {
+      engine.update(LOCK_DELAY - 1);
+      expect(locked).not.toHaveBeenCalled();
+
+      engine.update(1);
+      expect(locked).toHaveBeenCalledTimes(1);
+    });
+
+    it('should restart the delay when the piece moves', () => {
+      const callback = vi.fn();
+      engine.addEventListener(GameEventType.LOCK_DELAY_RESET, callback);
+
+      engine.update(LOCK_DELAY - 100);
+      slide(1);
+      engine.update(LOCK_DELAY - 100);
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(locked).not.toHaveBeenCalled();
+    });
+
+    it('should stop restarting the delay after the reset limit', () => {
+      const callback = vi.fn();
+      engine.addEventListener(GameEventType.LOCK_DELAY_RESET, callback);
+
+      slide(MAX_LOCK_RESETS + 5);
+      expect(callback).toHaveBeenCalledTimes(MAX_LOCK_RESETS);
+
+      engine.update(LOCK_DELAY);
+      expect(locked).toHaveBeenCalledTimes(1);
+    });
+
+    it('should lock immediately on landing once resets are used up', () => {
+      slide(MAX_LOCK_RESETS);
+
+      engine.moveDown();
+
+      expect(locked).toHaveBeenCalledTimes(1);
+    });
+
+    it('should still lock instantly on hard drop', () => {
+      engine.restart(GameMode.CLASSIC, 1);
+      engine.hardDrop();
+
+      expect(locked).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('T-Spin', () => {
+    const alwaysT: PieceGenerator = {
+      type: RandomizerType.BAG,
+      next: () => TetrominoType.T,
+      reset: () => undefined,
+      getSeed: () => 0,
+    };
+
+    /**
+     * Bottom rows shaped for a T-spin single slot under an overhang at x=3
+     * The bottom row misses x=4, the row above misses x=3..6
+     */
+    function prepareSlot(target: GameEngine): void {
+      // getState() shares the board grid, so the test can shape it in place
+      const board = target.getState().board;
+      board[BOTTOM_ROW]?.fill('red');
+      board[BOTTOM_ROW - 1]?.fill('red');
+      const bottom = board[BOTTOM_ROW];
+      if (bottom) bottom[4] = VACANT_COLOR;
+      const above = board[BOTTOM_ROW - 1];
+      [3, 4, 5, 6].forEach((x) => {
+        if (above) above[x] = VACANT_COLOR;
+      });
+      const overhang = board[BOTTOM_ROW - 2];
+      if (overhang) overhang[3] = 'red';
+    }
+
+    let tEngine: GameEngine;
+
+    beforeEach(() => {
+      tEngine = new GameEngine(GameMode.CLASSIC, { generator: alwaysT });
+      prepareSlot(tEngine);
+      tEngine.moveRight();
+      while (tEngine.moveDown());
+      tEngine.moveLeft();
+    });
+
+    it('should emit T_SPIN when a rotated T locks in a three-corner slot', () => {
+      const callback = vi.fn();
+      tEngine.addEventListener(GameEventType.T_SPIN, callback);
+
+      expect(tEngine.rotate180()).toBe(true);
+      tEngine.hardDrop();
+
+      expect(callback).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ type: TSpinType.FULL, lines: 1 }) as unknown,
+        })
+      );
+      expect(tEngine.getState().lines).toBe(1);
+    });
+
+    it('should score the T-spin single', () => {
+      const scoreBefore = tEngine.getState().score;
+
+      tEngine.rotate180();
+      tEngine.hardDrop();
+
+      expect(tEngine.getState().score - scoreBefore).toBe(calculateLineScore(1, 0, TSpinType.FULL));
+    });
+
+    it('should not count a T-spin when the last action was a move', () => {
+      const callback = vi.fn();
+      tEngine.addEventListener(GameEventType.T_SPIN, callback);
+
+      tEngine.hardDrop();
+
+      expect(callback).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Combo and Back-to-Back', () => {
+    let iEngine: GameEngine;
+    let cleared: Mock<GameEventCallback>;
+
+    beforeEach(() => {
+      iEngine = new GameEngine(GameMode.CLASSIC, { generator: alwaysI });
+      cleared = vi.fn<GameEventCallback>();
+      iEngine.addEventListener(GameEventType.LINE_CLEARED, cleared);
+    });
+
+    it('should start without combo or back-to-back', () => {
+      const state = iEngine.getState();
+
+      expect(state.combo).toBe(-1);
+      expect(state.backToBack).toBe(false);
+    });
+
+    it('should report combo and back-to-back on LINE_CLEARED', () => {
+      prepareWell(iEngine);
+      dropIntoWell(iEngine);
+      prepareWell(iEngine);
+      dropIntoWell(iEngine);
+
+      expect(cleared.mock.calls[0]?.[0].data).toMatchObject({
+        count: 4,
+        combo: 0,
+        backToBack: false,
+      });
+      expect(cleared.mock.calls[1]?.[0].data).toMatchObject({
+        count: 4,
+        combo: 1,
+        backToBack: true,
+      });
+      expect(iEngine.getState().backToBack).toBe(true);
+    });
+
+    it('should score the back-to-back tetris higher', () => {
+      prepareWell(iEngine);
+      dropIntoWell(iEngine);
+      const firstBonus = (cleared.mock.calls[0]?.[0].data as { bonus: number }).bonus;
+      prepareWell(iEngine);
+      dropIntoWell(iEngine);
+      const secondBonus = (cleared.mock.calls[1]?.[0].data as { bonus: number }).bonus;
+
+      expect(firstBonus).toBe(calculateLineScore(4, 0));
+      expect(secondBonus).toBe(applyBackToBack(calculateLineScore(4, 1)) + COMBO_BONUS * 2);
+    });
+
+    it('should break the combo when a piece clears nothing', () => {
+      prepareWell(iEngine);
+      dropIntoWell(iEngine);
+      iEngine.hardDrop();
+
+      expect(iEngine.getState().combo).toBe(-1);
+      expect(iEngine.getState().backToBack).toBe(true);
+    });
+
+    it('should emit PERFECT_CLEAR when a clear empties the board', () => {
+      const callback = vi.fn<GameEventCallback>();
+      iEngine.addEventListener(GameEventType.PERFECT_CLEAR, callback);
+      prepareWell(iEngine);
+      const scoreBefore = iEngine.getState().score;
+
+      dropIntoWell(iEngine);
+
+      const bonus = calculatePerfectClearBonus(4, 0);
+      expect(callback).toHaveBeenCalledWith(expect.objectContaining({ data: { lines: 4, bonus } }));
+      expect(iEngine.getState().score).toBeGreaterThanOrEqual(
+        scoreBefore + calculateLineScore(4, 0) + bonus
+      );
+    });
+
+    it('should not emit PERFECT_CLEAR when blocks remain', () => {
+      const callback = vi.fn<GameEventCallback>();
+      iEngine.addEventListener(GameEventType.PERFECT_CLEAR, callback);
+      prepareWell(iEngine);
+      const row = iEngine.getState().board[BOTTOM_ROW - 9];
+      if (row) row[0] = 'red';
+
+      dropIntoWell(iEngine);
+
+      expect(cleared).toHaveBeenCalled();
+      expect(callback).not.toHaveBeenCalled();
+    });
+
+    it('should reset combo and back-to-back on restart', () => {
+      prepareWell(iEngine);
+      dropIntoWell(iEngine);
+      iEngine.restart();
+
+      expect(iEngine.getState().combo).toBe(-1);
+      expect(iEngine.getState().backToBack).toBe(false);
+    });
+  });
+
+  describe('Sprint', () => {
+    let sprintEngine: GameEngine;
+
+    beforeEach(() => {
+      sprintEngine = new GameEngine(GameMode.SPRINT, { generator: alwaysI });
+    });
+
+    /** Score one tetris and let a second pass */
+    function clearTetris(): void {
+      prepareWell(sprintEngine);
+      dropIntoWell(sprintEngine);
+      sprintEngine.update(1000);
+    }
+
+    it('should record a split every 10 lines', () => {
+      const split = vi.fn<GameEventCallback>();
+      sprintEngine.addEventListener(GameEventType.SPLIT, split);
+
+      for (let i = 0; i < 3; i++) clearTetris();
+
+      expect(sprintEngine.getState().lines).toBe(12);
+      expect(split).toHaveBeenCalledTimes(1);
+      expect(split.mock.calls[0]?.[0].data).toMatchObject({ lines: 10 });
+      expect(sprintEngine.getSplits()).toHaveLength(1);
+    });
+
+    it('should end the game as completed at 40 lines', () => {
+      const goal = vi.fn<GameEventCallback>();
+      const over = vi.fn<GameEventCallback>();
+      sprintEngine.addEventListener(GameEventType.GOAL_REACHED, goal);
+      sprintEngine.addEventListener(GameEventType.GAME_OVER, over);
+
+      for (let i = 0; i < 10; i++) clearTetris();
+
+      expect(sprintEngine.getState().isGameOver).toBe(true);
+      expect(goal).toHaveBeenCalledTimes(1);
+      expect(over.mock.calls[0]?.[0].data).toMatchObject({ lines: 40, completed: true });
+      expect(sprintEngine.getSplits()).toHaveLength(4);
+    });
+
+    it('should not mark a top out as completed', () => {
+      const over = vi.fn<GameEventCallback>();
+      sprintEngine.addEventListener(GameEventType.GAME_OVER, over);
+
+      for (let i = 0; i < 100 && !sprintEngine.getState().isGameOver; i++) {
+        sprintEngine.hardDrop();
+      }
+
+      expect(over.mock.calls[0]?.[0].data).toMatchObject({ completed: false });
+    });
+
+    it('should clear splits on restart', () => {
+      for (let i = 0; i < 3; i++) clearTetris();
+
+      sprintEngine.restart(GameMode.SPRINT);
+
+      expect(sprintEngine.getSplits()).toHaveLength(0);
+    });
+  });
+
+  describe('Marathon', () => {
+    it('should start from the picked level', () => {
+      const marathon = new GameEngine(GameMode.MARATHON, { startLevel: 12 });
+
+      expect(marathon.getState().level).toBe(12);
+      expect(marathon.getStartLevel()).toBe(12);
+    });
+
+    it('should keep the start level within range', () => {
+      expect(new GameEngine(GameMode.MARATHON, { startLevel: 42 }).getState().level).toBe(20);
+      expect(new GameEngine(GameMode.MARATHON, { startLevel: -3 }).getState().level).toBe(0);
+    });
+
+    it('should ignore the start level in modes without a level pick', () => {
+      expect(new GameEngine(GameMode.CLASSIC, { startLevel: 12 }).getState().level).toBe(0);
+    });
+
+    it('should keep the start level on restart', () => {
+      const marathon = new GameEngine(GameMode.MARATHON, { startLevel: 8 });
+
+      marathon.restart();
+
+      expect(marathon.getState().level).toBe(8);
+    });
+
+    it('should end as completed after 150 lines without splits', () => {
+      const marathon = new GameEngine(GameMode.MARATHON, { generator: alwaysI, startLevel: 5 });
+      const over = vi.fn<GameEventCallback>();
+      const split = vi.fn<GameEventCallback>();
+      marathon.addEventListener(GameEventType.GAME_OVER, over);
+      marathon.addEventListener(GameEventType.SPLIT, split);
+
+      for (let i = 0; i < 40 && !marathon.getState().isGameOver; i++) {
+        prepareWell(marathon);
+        dropIntoWell(marathon);
+        marathon.update(16);
+      }
+
+      expect(marathon.getState().lines).toBe(152);
+      expect(over.mock.calls[0]?.[0].data).toMatchObject({ completed: true });
+      expect(split).not.toHaveBeenCalled();
+    });
+
+    it('should level up at the NES threshold', () => {
+      const marathon = new GameEngine(GameMode.MARATHON, { generator: alwaysI, startLevel: 5 });
+      const levelUp = vi.fn<GameEventCallback>();
+      marathon.addEventListener(GameEventType.LEVEL_UP, levelUp);
+
+      // 25 tetrises = 100 lines, the first level-up from level 5
+      for (let i = 0; i < 24; i++) {
+        prepareWell(marathon);
+        dropIntoWell(marathon);
+      }
+      expect(marathon.getState().level).toBe(5);
+
+      prepareWell(marathon);
+      dropIntoWell(marathon);
+
+      expect(marathon.getState().level).toBe(6);
+      expect(levelUp).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Dig', () => {
+    it('should start with garbage rows, each with one hole', () => {
+      const dig = new GameEngine(GameMode.DIG);
+      const board = dig.getState().board;
+      const garbageRows = board.filter((row) => row.some(isGarbageCell));
+
+      expect(garbageRows).toHaveLength(DIG_GARBAGE_ROWS);
+      garbageRows.forEach((row) => {
+        expect(row.filter((cell) => cell === VACANT_COLOR)).toHaveLength(1);
+      });
+      expect(countGarbageCells(board)).toBe(DIG_GARBAGE_ROWS * (BOARD_COLS - 1));
+    });
+
+    it('should place the same holes for the same seed', () => {
+      const a = new GameEngine(GameMode.DIG, { generator: new BagGenerator(21) });
+      const b = new GameEngine(GameMode.DIG, { generator: new BagGenerator(21) });
+
+      expect(a.getState().board).toEqual(b.getState().board);
+    });
+
+    it('should end as completed once the garbage is cleared', () => {
+      const dig = new GameEngine(GameMode.DIG);
+      const over = vi.fn<GameEventCallback>();
+      dig.addEventListener(GameEventType.GAME_OVER, over);
+
+      dig.update(16);
+      expect(dig.getState().isGameOver).toBe(false);
+
+      // getState() shares the board grid, so the test can clear it in place
+      dig.getState().board.forEach((row) => row.fill(VACANT_COLOR));
+      dig.update(16);
+
+      expect(dig.getState().isGameOver).toBe(true);
+      expect(over.mock.calls[0]?.[0].data).toMatchObject({ completed: true });
+    });
+  });
+
+  describe('Survival', () => {
+    let survival: GameEngine;
+
+    beforeEach(() => {
+      survival = new GameEngine(GameMode.SURVIVAL);
+    });
+
+    it('should warn before a garbage row rises', () => {
+      const incoming = vi.fn<GameEventCallback>();
+      survival.addEventListener(GameEventType.GARBAGE_INCOMING, incoming);
+
+      survival.update(SURVIVAL_GARBAGE_INTERVAL - GARBAGE_WARNING_TIME);
+
+      expect(incoming).toHaveBeenCalledTimes(1);
+      expect(incoming.mock.calls[0]?.[0].data).toEqual({ rows: 1, delay: GARBAGE_WARNING_TIME });
+      expect(countGarbageCells(survival.getState().board)).toBe(0);
+    });
+
+    it('should push a garbage row in from the bottom on its timer', () => {
+      const board = survival.getState().board;
+      if (board[BOTTOM_ROW]) board[BOTTOM_ROW][0] = 'red';
+
+      survival.update(SURVIVAL_GARBAGE_INTERVAL);
+
+      const risen = survival.getState().board;
+      expect(risen[BOTTOM_ROW - 1]?.[0]).toBe('red');
+      expect(risen[BOTTOM_ROW]?.filter(isGarbageCell)).toHaveLength(BOARD_COLS - 1);
+    });
+
+    it('should top out when the stack is pushed past the top', () => {
+      const over = vi.fn<GameEventCallback>();
+      survival.addEventListener(GameEventType.GAME_OVER, over);
+      const board = survival.getState().board;
+      if (board[0]) board[0][0] = 'red';
+
+      survival.update(SURVIVAL_GARBAGE_INTERVAL);
+
+      expect(survival.getState().isGameOver).toBe(true);
+      expect(over.mock.calls[0]?.[0].data).toMatchObject({ completed: false });
+    });
+
+    it('should not raise garbage in other modes', () => {
+      engine.update(SURVIVAL_GARBAGE_INTERVAL);
+
+      expect(countGarbageCells(engine.getState().board)).toBe(0);
+    });
+  });
+
+  describe('Puzzle', () => {
+    it('should load the puzzle board and deal only its pieces', () => {
+      const puzzle = getPuzzle('five-piece-tetris');
+      const game = new GameEngine(GameMode.PUZZLE, { puzzle });
+      const state = game.getState();
+
+      expect(countGarbageCells(state.board)).toBe(4 * 5);
+      expect(state.currentPiece?.type).toBe(TetrominoType.O);
+      expect(state.nextPieces.map((piece) => piece.type)).toEqual(
+        puzzle.pieces.slice(1, 1 + game.getPreviewCount())
+      );
+      expect(game.getPuzzle()).toBe(puzzle);
+    });
+
+    it('should fail once the pieces run out', () => {
+      const game = new GameEngine(GameMode.PUZZLE, { puzzle: getPuzzle('first-tetris') });
+      const over = vi.fn<GameEventCallback>();
+      game.addEventListener(GameEventType.GAME_OVER, over);
+
+      game.hardDrop();
+      expect(game.getState().currentPiece).toBeNull();
+      expect(game.hold()).toBe(false);
+
+      game.update(16);
+
+      expect(game.getState().isGameOver).toBe(true);
+      expect(over.mock.calls[0]?.[0].data).toMatchObject({ completed: false });
+    });
+
+    it('should play the held piece once the queue runs out', () => {
+      const puzzle = {
+        ...getPuzzle('first-tetris'),
+        pieces: [TetrominoType.I, TetrominoType.O],
+      };
+      const game = new GameEngine(GameMode.PUZZLE, { puzzle });
+      const over = vi.fn<GameEventCallback>();
+      game.addEventListener(GameEventType.GAME_OVER, over);
+
+      game.hold();
+      moveToColumn(game, 0);
+      game.hardDrop();
+      game.update(16);
+
+      expect(game.getState().currentPiece?.type).toBe(TetrominoType.I);
+      expect(game.getState().holdPiece).toBeNull();
+      expect(over).not.toHaveBeenCalled();
+
+      dropIntoWell(game);
+      game.update(16);
+
+      expect(over.mock.calls[0]?.[0].data).toMatchObject({ completed: true });
+    });
+
+    it.each(getBuiltInPuzzles().map((puzzle) => [puzzle.id, puzzle] as const))(
+      'should solve %s with its known solution',
+      (id, puzzle) => {
+        const game = new GameEngine(GameMode.PUZZLE, { puzzle });
+        const over = vi.fn<GameEventCallback>();
+        const goal = vi.fn<GameEventCallback>();
+        game.addEventListener(GameEventType.GAME_OVER, over);
+        game.addEventListener(GameEventType.GOAL_REACHED, goal);
+
+        PUZZLE_SOLUTIONS[id]?.(game);
+        game.update(16);
+
+        expect(goal).toHaveBeenCalledTimes(1);
+        expect(over.mock.calls[0]?.[0].data).toMatchObject({ completed: true });
+      }
+    );
+
+    it('should reload the puzzle on restart', () => {
+      const puzzle = getPuzzle('first-tetris');
+      const game = new GameEngine(GameMode.PUZZLE, { puzzle });
+      game.hardDrop();
+
+      game.restart();
+
+      expect(game.getState().currentPiece?.type).toBe(TetrominoType.I);
+      expect(countGarbageCells(game.getState().board)).toBe(4 * 9);
+    });
+  });
+
+  describe('Custom', () => {
+    function createCustomEngine(settings: Partial<CustomModeSettings>): GameEngine {
+      setCustomModeConfig(createCustomModeConfig({ ...DEFAULT_CUSTOM_MODE_SETTINGS, ...settings }));
+      return new GameEngine(GameMode.CUSTOM);
+    }
+
+    afterEach(() => {
+      setCustomModeConfig(null);
+    });
+
+    it('should play on the picked board size', () => {
+      const custom = createCustomEngine({ boardWidth: 4, boardHeight: 40 });
+      const state = custom.getState();
+
+      expect(state.board).toHaveLength(40 + BOARD_BUFFER_ROWS);
+      expect(state.board[0]).toHaveLength(4);
+
+      while (custom.moveRight());
+      const piece = custom.getState().currentPiece;
+      const columns = piece ? getTetrominoOccupiedCells(piece).map((cell) => cell.x) : [];
+      expect(Math.max(...columns)).toBe(3);
+    });
+
+    it('should refuse to hold when hold is off', () => {
+      const custom = createCustomEngine({ holdEnabled: false });
+
+      expect(custom.hold()).toBe(false);
+      expect(custom.getState().holdPiece).toBeNull();
+    });
+
+    it('should hide the ghost piece when the ghost is off', () => {
+      expect(createCustomEngine({ ghostEnabled: false }).getGhostPosition()).toBeNull();
+      expect(createCustomEngine({ ghostEnabled: true }).getGhostPosition()).not.toBeNull();
+    });
+
+    it('should deal pieces from the picked randomizer', () => {
+      const custom = createCustomEngine({ randomizer: RandomizerType.HISTORY });
+      const expected = new HistoryGenerator(custom.getSeed());
+
+      expect(custom.getState().currentPiece?.type).toBe(expected.next());
+      expect(custom.getState().nextPiece?.type).toBe(expected.next());
+    });
+
+    it('should fail a line goal when its time limit runs out', () => {
+      const custom = createCustomEngine({ lineGoal: 20, timeLimit: 30 });
+      const over = vi.fn<GameEventCallback>();
+      custom.addEventListener(GameEventType.GAME_OVER, over);
+
+      custom.update(30_000);
+
+      expect(custom.getState().isGameOver).toBe(true);
+      expect(over.mock.calls[0]?.[0].data).toMatchObject({ completed: false });
+    });
+
+    it('should complete a time limit without a line goal', () => {
+      const custom = createCustomEngine({ timeLimit: 30 });
+      const over = vi.fn<GameEventCallback>();
+      custom.addEventListener(GameEventType.GAME_OVER, over);
+
+      custom.update(30_000);
+
+      expect(over.mock.calls[0]?.[0].data).toMatchObject({ completed: true });
+    });
+  });
+
   describe('Hold System', () => {
     it('should allow holding a piece', () => {
       const held = engine.hold();
@@ -139,6 +1097,86 @@ describe('GameEngine', () => {
       const newState = engine.getState();
       expect(newState.canHold).toBe(true);
     });
+
+    it('should store the real piece on first hold', () => {
+      const seeded = new GameEngine(GameMode.CLASSIC, { generator: new BagGenerator(8) });
+      const { currentPiece, nextPiece } = seeded.getState();
+      if (!currentPiece) throw new Error('Expected a current piece');
+
+      seeded.hold();
+      const state = seeded.getState();
+
+      expect(state.holdPiece).toEqual(createTetromino(currentPiece.type));
+      expect(state.currentPiece?.type).toBe(nextPiece?.type);
+    });
+
+    it('should swap with the held piece and respawn it from its type', () => {
+      const seeded = new GameEngine(GameMode.CLASSIC, { generator: new BagGenerator(8) });
+      const firstType = seeded.getState().currentPiece?.type ?? TetrominoType.I;
+      seeded.hold();
+      seeded.hardDrop();
+
+      const secondType = seeded.getState().currentPiece?.type ?? TetrominoType.I;
+      seeded.moveLeft();
+      seeded.moveDown();
+      seeded.rotate();
+      seeded.hold();
+      const state = seeded.getState();
+
+      expect(state.currentPiece).toEqual(createTetromino(firstType));
+      expect(state.holdPiece).toEqual(createTetromino(secondType));
+    });
+
+    it('should keep the next queue when swapping', () => {
+      engine.hold();
+      engine.hardDrop();
+      const queued = engine.getState().nextPieces.map((piece) => piece.type);
+
+      engine.hold();
+
+      expect(engine.getState().nextPieces.map((piece) => piece.type)).toEqual(queued);
+    });
+
+    it('should emit HOLD_USED for the first hold', () => {
+      const callback = vi.fn();
+      engine.addEventListener(GameEventType.HOLD_USED, callback);
+      const { currentPiece, nextPiece } = engine.getState();
+
+      engine.hold();
+
+      expect(callback).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { held: currentPiece?.type, current: nextPiece?.type, swapped: false },
+        })
+      );
+    });
+
+    it('should emit HOLD_USED for a swap', () => {
+      const callback = vi.fn();
+      engine.hold();
+      engine.hardDrop();
+      engine.addEventListener(GameEventType.HOLD_USED, callback);
+      const heldType = engine.getState().holdPiece?.type;
+      const currentType = engine.getState().currentPiece?.type;
+
+      engine.hold();
+
+      expect(callback).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { held: currentType, current: heldType, swapped: true },
+        })
+      );
+    });
+
+    it('should not emit HOLD_USED when hold is refused', () => {
+      const callback = vi.fn();
+      engine.hold();
+      engine.addEventListener(GameEventType.HOLD_USED, callback);
+
+      engine.hold();
+
+      expect(callback).not.toHaveBeenCalled();
+    });
   });
 
   describe('Pause/Resume', () => {
@@ -262,6 +1300,43 @@ describe('GameEngine', () => {
     });
   });
 
+  describe('Piece Generator', () => {
+    const dealtTypes = (gameEngine: GameEngine, count: number): string[] => {
+      const types: string[] = [];
+      for (let i = 0; i < count; i++) {
+        types.push(gameEngine.getState().currentPiece?.type ?? '');
+        gameEngine.hardDrop();
+      }
+      return types;
+    };
+
+    it('should deal the same sequence for the same seed', () => {
+      const a = new GameEngine(GameMode.CLASSIC, { generator: new BagGenerator(1234) });
+      const b = new GameEngine(GameMode.CLASSIC, { generator: new BagGenerator(1234) });
+
+      expect(dealtTypes(a, 7)).toEqual(dealtTypes(b, 7));
+    });
+
+    it('should deal pieces from the injected generator', () => {
+      const expected = new BagGenerator(42);
+      const seeded = new GameEngine(GameMode.CLASSIC, { generator: new BagGenerator(42) });
+
+      const state = seeded.getState();
+      expect(state.currentPiece?.type).toBe(expected.next());
+      expect(state.nextPiece?.type).toBe(expected.next());
+      expect(seeded.getSeed()).toBe(42);
+    });
+
+    it('should replay a seed on restart', () => {
+      const seeded = new GameEngine(GameMode.CLASSIC, { generator: new BagGenerator(9) });
+      const first = dealtTypes(seeded, 5);
+
+      seeded.restart(GameMode.CLASSIC, 9);
+
+      expect(dealtTypes(seeded, 5)).toEqual(first);
+    });
+  });
+
   describe('Update Loop', () => {
     it('should update game state', () => {
       const initialTime = engine.getElapsedTime();
@@ -298,6 +1373,44 @@ describe('GameEngine', () => {
     });
   });
 
+  describe('Dispatch', () => {
+    it('should emit each action with the tick it was dispatched on', () => {
+      const listener = vi.fn();
+      engine.addEventListener(GameEventType.ACTION, listener);
+
+      engine.update(16);
+      engine.dispatch('moveLeft');
+
+      expect(engine.getTick()).toBe(1);
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { action: 'moveLeft', tick: 1 } })
+      );
+    });
+
+    it('should run the action it names', () => {
+      const x = engine.getState().currentPiece?.position.x ?? 0;
+
+      expect(engine.dispatch('moveRight')).toBe(true);
+      expect(engine.getState().currentPiece?.position.x).toBe(x + 1);
+    });
+
+    it('should ignore actions while paused', () => {
+      const listener = vi.fn();
+      engine.addEventListener(GameEventType.ACTION, listener);
+      engine.pause();
+
+      expect(engine.dispatch('hardDrop')).toBe(false);
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should count ticks from zero again after restart', () => {
+      engine.update(16);
+      engine.restart();
+
+      expect(engine.getTick()).toBe(0);
+    });
+  });
+
   describe('Time Management', () => {
     it('should track elapsed time', () => {
       const initialTime = engine.getElapsedTime();
@@ -308,6 +1421,43 @@ describe('GameEngine', () => {
       expect(newTime).toBeGreaterThan(initialTime);
     });
 
+    it('should drop the piece by gravity frame by frame on a fixed-step clock', () => {
+      const stepped = new GameEngine(GameMode.CLASSIC, {
+        generator: new BagGenerator(1),
+        clock: new FixedStepClock(),
+      });
+      const startY = stepped.getState().currentPiece?.position.y;
+      const frames = Math.ceil(getDropSpeed(stepped.getState().level) / FRAME_TIME);
+
+      for (let frame = 1; frame < frames; frame++) {
+        stepped.update(0);
+      }
+      expect(stepped.getState().currentPiece?.position.y).toBe(startY);
+
+      stepped.update(0);
+      expect(stepped.getState().currentPiece?.position.y).toBe((startY ?? 0) + 1);
+    });
+
+    it('should warn once when a long tick crosses a time warning', () => {
+      const ultra = new GameEngine(GameMode.ULTRA);
+      const warning = vi.fn<GameEventCallback>();
+      ultra.addEventListener(GameEventType.TIME_WARNING, warning);
+
+      ultra.update((120 - 30) * 1000 - 1);
+      expect(warning).not.toHaveBeenCalled();
+
+      ultra.update(500);
+      expect(warning).toHaveBeenCalledTimes(1);
+      expect(warning.mock.calls[0]?.[0].data).toEqual({ secondsRemaining: 30 });
+    });
+
+    it('should restart the clock with the game', () => {
+      engine.update(1000);
+      engine.restart();
+
+      expect(engine.getElapsedTime()).toBe(0);
+    });
+
     it('should calculate remaining time for Ultra mode', () => {
       const ultraEngine = new GameEngine(GameMode.ULTRA);
       const remainingTime = ultraEngine.getRemainingTime();
@@ -401,5 +1551,52 @@ describe('GameEngine', () => {
         expect(event.data).toHaveProperty('duration');
       }
     });
+
+    describe('Top out', () => {
+      let iEngine: GameEngine;
+
+      /** Fill rows from the given one to the bottom, leaving one column open so nothing clears */
+      function fillFrom(target: GameEngine, fromRow: number, openColumn: number): void {
+        const board = target.getState().board;
+        for (let y = fromRow; y <= BOTTOM_ROW; y++) {
+          const row = board[y];
+          row?.fill('red');
+          if (row) row[openColumn] = VACANT_COLOR;
+        }
+      }
+
+      beforeEach(() => {
+        iEngine = new GameEngine(GameMode.CLASSIC, { generator: alwaysI });
+      });
+
+      it('should keep the cells of a piece locked partly in the hidden buffer', () => {
+        fillFrom(iEngine, BOARD_BUFFER_ROWS + 2, 0);
+
+        dropIntoWell(iEngine);
+
+        const board = iEngine.getState().board;
+        expect(board[BOARD_BUFFER_ROWS - 2]?.[BOARD_COLS - 1]).toBe(TETROMINO_COLORS.I);
+        expect(iEngine.getState().isGameOver).toBe(false);
+      });
+
+      it('should lock out when a piece locks entirely in the hidden buffer', () => {
+        fillFrom(iEngine, BOARD_BUFFER_ROWS, BOARD_COLS - 1);
+
+        iEngine.hardDrop();
+
+        expect(iEngine.getState().isGameOver).toBe(true);
+      });
+
+      it('should block out when the next piece spawns overlapping blocks', () => {
+        const spawnRow = BOARD_BUFFER_ROWS - 1;
+        while (iEngine.moveLeft());
+        const board = iEngine.getState().board;
+        if (board[spawnRow]) board[spawnRow][5] = 'red';
+
+        iEngine.hardDrop();
+
+        expect(iEngine.getState().isGameOver).toBe(true);
+      });
+    });
   });
 });
@@ -0,0 +1,118 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  createCustomModeConfig,
+  getGameModeConfig,
+  isGhostEnabled,
+  isHoldEnabled,
+  isRankedMode,
+  normalizeCustomModeSettings,
+  setCustomModeConfig,
+} from '../../src/core/GameModes';
+import {
+  CUSTOM_MAX_BOARD_WIDTH,
+  DEFAULT_CUSTOM_MODE_SETTINGS,
+  GAME_MODE_CONFIGS,
+  MAX_PREVIEW_COUNT,
+  SPEED_CURVES,
+} from '../../src/constants/config';
+import {
+  GameMode,
+  GoalType,
+  RandomizerType,
+  RankingMetric,
+  SpeedCurvePreset,
+} from '../../src/types/index';
+
+describe('GameModes', () => {
+  describe('normalizeCustomModeSettings', () => {
+    it('should fill in defaults for missing or invalid settings', () => {
+      expect(normalizeCustomModeSettings(undefined)).toEqual(DEFAULT_CUSTOM_MODE_SETTINGS);
+      expect(
+        normalizeCustomModeSettings({ speedCurve: 'warp', randomizer: 'fixed', holdEnabled: 1 })
+      ).toEqual(DEFAULT_CUSTOM_MODE_SETTINGS);
+    });
+
+    it('should clamp numbers to the builder limits', () => {
+      const settings = normalizeCustomModeSettings({
+        boardWidth: 99,
+        previewCount: 12,
+        timeLimit: -5,
+        startLevel: 2.7,
+      });
+
+      expect(settings.boardWidth).toBe(CUSTOM_MAX_BOARD_WIDTH);
+      expect(settings.previewCount).toBe(MAX_PREVIEW_COUNT);
+      expect(settings.timeLimit).toBe(0);
+      expect(settings.startLevel).toBe(2);
+    });
+  });
+
+  describe('createCustomModeConfig', () => {
+    it('should play endless without a time limit or line goal', () => {
+      const config = createCustomModeConfig(DEFAULT_CUSTOM_MODE_SETTINGS);
+
+      expect(config.mode).toBe(GameMode.CUSTOM);
+      expect(config.goalType).toBe(GoalType.NONE);
+      expect(config.timeLimit).toBeUndefined();
+      expect(config.lineGoal).toBeUndefined();
+    });
+
+    it('should race a line goal against the clock', () => {
+      const config = createCustomModeConfig({
+        ...DEFAULT_CUSTOM_MODE_SETTINGS,
+        lineGoal: 20,
+        timeLimit: 60,
+      });
+
+      expect(config.goalType).toBe(GoalType.LINES);
+      expect(config.rankBy).toBe(RankingMetric.TIME);
+      expect(config.timeLimit).toBe(60);
+    });
+
+    it('should carry the picked rules', () => {
+      const config = createCustomModeConfig({
+        ...DEFAULT_CUSTOM_MODE_SETTINGS,
+        timeLimit: 90,
+        speedCurve: SpeedCurvePreset.FAST,
+        randomizer: RandomizerType.HISTORY,
+        holdEnabled: false,
+      });
+
+      expect(config.goalType).toBe(GoalType.TIME_LIMIT);
+      expect(config.speedCurve).toBe(SPEED_CURVES[SpeedCurvePreset.FAST]);
+      expect(config.randomizer).toBe(RandomizerType.HISTORY);
+      expect(config.holdEnabled).toBe(false);
+    });
+  });
+
+  describe('setCustomModeConfig', () => {
+    afterEach(() => {
+      setCustomModeConfig(null);
+    });
+
+    it('should be used for the custom mode only', () => {
+      setCustomModeConfig(
+        createCustomModeConfig({ ...DEFAULT_CUSTOM_MODE_SETTINGS, ghostEnabled: false })
+      );
+
+      expect(isGhostEnabled(GameMode.CUSTOM)).toBe(false);
+      expect(isGhostEnabled(GameMode.CLASSIC)).toBe(true);
+      expect(isHoldEnabled(GameMode.CUSTOM)).toBe(true);
+    });
+
+    it('should fall back to the default custom config once cleared', () => {
+      setCustomModeConfig(createCustomModeConfig(DEFAULT_CUSTOM_MODE_SETTINGS));
+      setCustomModeConfig(null);
+
+      expect(getGameModeConfig(GameMode.CUSTOM)).toBe(GAME_MODE_CONFIGS[GameMode.CUSTOM]);
+    });
+  });
+
+  describe('isRankedMode', () => {
+    it('should not rank puzzles or custom rules', () => {
+      expect(isRankedMode(GameMode.SPRINT)).toBe(true);
+      expect(isRankedMode(GameMode.PUZZLE)).toBe(false);
+      expect(isRankedMode(GameMode.CUSTOM)).toBe(false);
+    });
+  });
+});
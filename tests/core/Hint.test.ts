@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { PlacementHint, findHintPlacement } from '../../src/core/Hint';
+import { createBoard } from '../../src/core/Board';
+import { FixedStepClock } from '../../src/core/GameClock';
+import { GameEngine } from '../../src/core/GameEngine';
+import { FixedSequenceGenerator } from '../../src/core/PieceGenerator';
+import { getTetrominoOccupiedCells } from '../../src/core/Tetromino';
+import { GameMode, TetrominoType } from '../../src/types/index';
+import { createState, createWellBoard } from './fixtures';
+
+describe('Hint', () => {
+  describe('findHintPlacement', () => {
+    it('should suggest the spot the evaluator scores best', () => {
+      const hint = findHintPlacement(
+        createState(createWellBoard(4, 0), TetrominoType.I, TetrominoType.I)
+      );
+      if (!hint) throw new Error('No hint');
+
+      expect(getTetrominoOccupiedCells(hint).map(({ x }) => x)).toEqual([0, 0, 0, 0]);
+    });
+
+    it('should only suggest spots for the piece in play, never a hold', () => {
+      const hint = findHintPlacement(
+        createState(createWellBoard(4, 0), TetrominoType.S, TetrominoType.I)
+      );
+
+      expect(hint?.type).toBe(TetrominoType.S);
+    });
+
+    it('should give no hint without a piece', () => {
+      expect(findHintPlacement(createState(createBoard(), null, TetrominoType.I))).toBeNull();
+    });
+  });
+
+  describe('PlacementHint', () => {
+    it('should keep the hint until the piece locks', () => {
+      const engine = new GameEngine(GameMode.CLASSIC, {
+        generator: new FixedSequenceGenerator(Array<TetrominoType>(10).fill(TetrominoType.O)),
+        clock: new FixedStepClock(),
+      });
+      const hint = new PlacementHint();
+
+      const first = hint.get(engine.getState());
+      engine.dispatch('moveLeft');
+      expect(hint.get(engine.getState())).toBe(first);
+
+      engine.dispatch('hardDrop');
+      expect(hint.get(engine.getState())).not.toBe(first);
+    });
+  });
+});
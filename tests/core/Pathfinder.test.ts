@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findPlacement,
+  findReachablePlacements,
+  findShortestPath,
+} from '../../src/core/Pathfinder';
+import { createBoard } from '../../src/core/Board';
+import { GameEngine } from '../../src/core/GameEngine';
+import { FixedSequenceGenerator } from '../../src/core/PieceGenerator';
+import {
+  createTetromino,
+  getSpawnPosition,
+  getTetrominoOccupiedCells,
+  moveTetromino,
+} from '../../src/core/Tetromino';
+import {
+  BOARD_BUFFER_ROWS,
+  BOARD_COLS,
+  BOARD_ROWS,
+  TETROMINO_COLORS,
+} from '../../src/constants/config';
+import { GameMode, TetrominoType } from '../../src/types/index';
+import type { BoardGrid, Tetromino } from '../../src/types/index';
+
+const BOTTOM_ROW = BOARD_BUFFER_ROWS + BOARD_ROWS - 1;
+
+function spawn(type: TetrominoType): Tetromino {
+  return createTetromino(type, getSpawnPosition());
+}
+
+function fill(board: BoardGrid, cells: Array<[number, number]>): void {
+  for (const [x, y] of cells) {
+    const row = board[y];
+    if (row) row[x] = 'gray';
+  }
+}
+
+describe('Pathfinder', () => {
+  describe('findReachablePlacements', () => {
+    it('should find every distinct spot on an empty board', () => {
+      const placements = findReachablePlacements(createBoard(), spawn(TetrominoType.T));
+
+      // Two flat states over 8 columns, two upright states over 9 columns
+      expect(placements).toHaveLength(34);
+    });
+
+    it('should count mirror-identical states as one spot', () => {
+      const placements = findReachablePlacements(createBoard(), spawn(TetrominoType.S));
+
+      // Flat: 8 columns, upright: 9 columns
+      expect(placements).toHaveLength(17);
+    });
+
+    it('should give the shortest inputs to each spot', () => {
+      const placements = findReachablePlacements(createBoard(), spawn(TetrominoType.T));
+      const straightDown = placements.find(({ path }) => path.length === 1);
+      const leftWall = placements.find(
+        ({ piece }) =>
+          piece.rotation === 0 && getTetrominoOccupiedCells(piece).some(({ x }) => x === 0)
+      );
+
+      expect(straightDown?.path).toEqual(['hardDrop']);
+      expect(leftWall?.path).toEqual(['moveLeft', 'moveLeft', 'moveLeft', 'hardDrop']);
+    });
+
+    it('should leave out 180° turns when asked', () => {
+      const placements = findReachablePlacements(createBoard(), spawn(TetrominoType.T), {
+        allow180: false,
+      });
+
+      expect(placements.every(({ path }) => !path.includes('rotate180'))).toBe(true);
+      expect(placements).toHaveLength(34);
+    });
+
+    it('should hold a shift to the wall as one input when searching for finesse', () => {
+      const placements = findReachablePlacements(createBoard(), spawn(TetrominoType.T), {
+        finesse: true,
+      });
+      const leftWall = placements.find(
+        ({ piece }) =>
+          piece.rotation === 0 && getTetrominoOccupiedCells(piece).some(({ x }) => x === 0)
+      );
+
+      expect(leftWall?.path).toEqual(['moveLeft', 'moveLeft', 'moveLeft', 'hardDrop']);
+      expect(leftWall?.inputs).toBe(1);
+    });
+  });
+
+  describe('findPlacement', () => {
+    it('should let soft drops reach a spot for fewer inputs when searching for finesse', () => {
+      const board = createBoard();
+      const piece = spawn(TetrominoType.T);
+      // Turning on the floor kicks the T a column over, which takes a shift when turned up top
+      const target = findReachablePlacements(board, piece).find(
+        ({ path }) => path.join() === 'rotate,moveLeft,hardDrop'
+      );
+      if (!target) throw new Error('No target');
+
+      const shortest = findPlacement(board, piece, target.piece);
+      const finesse = findPlacement(board, piece, target.piece, { finesse: true });
+
+      expect(shortest?.inputs).toBe(2);
+      expect(finesse?.inputs).toBe(1);
+      expect(finesse?.path).toContain('moveDown');
+      expect(finesse?.path.slice(-2)).toEqual(['rotate', 'hardDrop']);
+    });
+  });
+
+  describe('findShortestPath', () => {
+    it('should tuck a piece under an overhang with soft drops and shifts', () => {
+      const board = createBoard();
+      fill(board, [
+        [0, BOTTOM_ROW - 2],
+        [1, BOTTOM_ROW - 2],
+        [2, BOTTOM_ROW - 2],
+      ]);
+      const piece = spawn(TetrominoType.O);
+      const target = moveTetromino(piece, -piece.position.x - 1, BOTTOM_ROW - 2 - piece.position.y);
+      expect(getTetrominoOccupiedCells(target).every(({ y }) => y >= BOTTOM_ROW - 1)).toBe(true);
+
+      const path = findShortestPath(board, piece, target);
+
+      expect(path).not.toBeNull();
+      expect(path).toContain('moveDown');
+      expect(path?.slice(-2)).toEqual(['moveLeft', 'hardDrop']);
+    });
+
+    it('should follow the engine: playing the path locks the piece in the target cells', () => {
+      const engine = new GameEngine(GameMode.CLASSIC, {
+        generator: new FixedSequenceGenerator([TetrominoType.O, TetrominoType.I]),
+      });
+      const board = engine.getState().board;
+      fill(board, [
+        [0, BOTTOM_ROW - 2],
+        [1, BOTTOM_ROW - 2],
+        [2, BOTTOM_ROW - 2],
+      ]);
+      const piece = engine.getState().currentPiece;
+      if (!piece) throw new Error('No current piece');
+      const target = moveTetromino(piece, -piece.position.x - 1, BOTTOM_ROW - 2 - piece.position.y);
+
+      for (const action of findShortestPath(board, piece, target) ?? []) {
+        engine.dispatch(action);
+      }
+
+      const locked = engine.getState().board;
+      for (const { x, y } of getTetrominoOccupiedCells(target)) {
+        expect(locked[y]?.[x]).toBe(TETROMINO_COLORS.O);
+      }
+    });
+
+    it('should not reach a sealed cavity', () => {
+      const board = createBoard();
+      const walls: Array<[number, number]> = [];
+      for (let x = 0; x < BOARD_COLS; x++) {
+        if (x > 3) walls.push([x, BOTTOM_ROW - 2]);
+        walls.push([x, BOTTOM_ROW - 3]);
+      }
+      fill(board, walls);
+      const piece = spawn(TetrominoType.I);
+      const target = moveTetromino(piece, -piece.position.x, BOTTOM_ROW - 1 - piece.position.y);
+
+      expect(findShortestPath(board, piece, target)).toBeNull();
+    });
+  });
+});
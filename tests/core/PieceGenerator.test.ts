@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BagGenerator,
+  ClassicGenerator,
+  FixedSequenceGenerator,
+  HistoryGenerator,
+  createPieceGenerator,
+  createSeededRandom,
+} from '../../src/core/PieceGenerator';
+import type { PieceGenerator } from '../../src/core/PieceGenerator';
+import { ALL_TETROMINO_TYPES } from '../../src/core/Tetromino';
+import { RandomizerType, TetrominoType } from '../../src/types/index';
+
+function take(generator: PieceGenerator, count: number): TetrominoType[] {
+  return Array.from({ length: count }, () => generator.next());
+}
+
+describe('PieceGenerator', () => {
+  describe('createSeededRandom', () => {
+    it('should produce the same numbers for the same seed', () => {
+      const a = createSeededRandom(42);
+      const b = createSeededRandom(42);
+
+      for (let i = 0; i < 10; i++) {
+        expect(a()).toBe(b());
+      }
+    });
+
+    it('should produce numbers in [0, 1)', () => {
+      const random = createSeededRandom(7);
+
+      for (let i = 0; i < 1000; i++) {
+        const value = random();
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      }
+    });
+
+    it('should produce different sequences for different seeds', () => {
+      const a = createSeededRandom(1);
+      const b = createSeededRandom(2);
+
+      expect(a()).not.toBe(b());
+    });
+  });
+
+  describe('BagGenerator', () => {
+    it('should deal every piece exactly once per bag', () => {
+      const generator = new BagGenerator(123);
+
+      for (let bag = 0; bag < 5; bag++) {
+        const pieces = take(generator, 7);
+        expect(new Set(pieces).size).toBe(7);
+      }
+    });
+
+    it('should be reproducible from its seed', () => {
+      expect(take(new BagGenerator(99), 21)).toEqual(take(new BagGenerator(99), 21));
+    });
+
+    it('should restart the sequence on reset', () => {
+      const generator = new BagGenerator(5);
+      const first = take(generator, 10);
+
+      generator.reset();
+
+      expect(take(generator, 10)).toEqual(first);
+    });
+
+    it('should use the new seed on reset', () => {
+      const generator = new BagGenerator(5);
+      generator.reset(77);
+
+      expect(generator.getSeed()).toBe(77);
+      expect(take(generator, 14)).toEqual(take(new BagGenerator(77), 14));
+    });
+  });
+
+  describe('ClassicGenerator', () => {
+    it('should only deal valid tetromino types', () => {
+      const pieces = take(new ClassicGenerator(3), 100);
+      pieces.forEach((type) => expect(ALL_TETROMINO_TYPES).toContain(type));
+    });
+
+    it('should be reproducible from its seed', () => {
+      expect(take(new ClassicGenerator(8), 30)).toEqual(take(new ClassicGenerator(8), 30));
+    });
+  });
+
+  describe('HistoryGenerator', () => {
+    it('should never start with S, Z or O', () => {
+      for (let seed = 0; seed < 50; seed++) {
+        const first = new HistoryGenerator(seed).next();
+        expect([TetrominoType.S, TetrominoType.Z, TetrominoType.O]).not.toContain(first);
+      }
+    });
+
+    it('should repeat pieces less often than a memoryless roll', () => {
+      const countRepeats = (pieces: TetrominoType[]): number =>
+        pieces.filter((type, i) => i > 0 && pieces[i - 1] === type).length;
+
+      const history = countRepeats(take(new HistoryGenerator(11), 700));
+      const classic = countRepeats(take(new ClassicGenerator(11), 700));
+
+      expect(history).toBeLessThan(classic);
+    });
+
+    it('should be reproducible from its seed', () => {
+      expect(take(new HistoryGenerator(4), 30)).toEqual(take(new HistoryGenerator(4), 30));
+    });
+  });
+
+  describe('FixedSequenceGenerator', () => {
+    const sequence = [TetrominoType.T, TetrominoType.O, TetrominoType.I];
+
+    it('should deal its sequence once, in order', () => {
+      const generator = new FixedSequenceGenerator(sequence);
+
+      expect(take(generator, 3)).toEqual(sequence);
+      expect(generator.hasNext()).toBe(false);
+      expect(() => generator.next()).toThrow();
+    });
+
+    it('should deal the sequence again after reset', () => {
+      const generator = new FixedSequenceGenerator(sequence);
+      take(generator, 2);
+
+      generator.reset();
+
+      expect(generator.hasNext()).toBe(true);
+      expect(take(generator, 3)).toEqual(sequence);
+    });
+  });
+
+  describe('createPieceGenerator', () => {
+    it('should create the requested randomizer', () => {
+      expect(createPieceGenerator(RandomizerType.BAG, 1).type).toBe(RandomizerType.BAG);
+      expect(createPieceGenerator(RandomizerType.CLASSIC, 1).type).toBe(RandomizerType.CLASSIC);
+      expect(createPieceGenerator(RandomizerType.HISTORY, 1).type).toBe(RandomizerType.HISTORY);
+    });
+
+    it('should not create a fixed generator without its sequence', () => {
+      expect(() => createPieceGenerator(RandomizerType.FIXED)).toThrow();
+    });
+
+    it('should default to a 7-bag', () => {
+      expect(createPieceGenerator().type).toBe(RandomizerType.BAG);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { PuzzleGoalTracker, getBuiltInPuzzles, parsePuzzle } from '../../src/core/Puzzle';
+import { createBoardFromRows } from '../../src/core/Board';
+import { GameEventType, PuzzleGoalType, TSpinType, TetrominoType } from '../../src/types/index';
+import type { GameEvent } from '../../src/types/index';
+
+const validPuzzle = {
+  id: 'test',
+  board: ['GGGGGGGGG.'],
+  pieces: ['I'],
+  goal: { type: 'clear_lines', lines: 1 },
+};
+
+function event(type: GameEventType, data?: unknown): GameEvent {
+  return { type, data };
+}
+
+describe('Puzzle', () => {
+  describe('parsePuzzle', () => {
+    it('should read a valid puzzle', () => {
+      expect(parsePuzzle(validPuzzle)).toEqual({
+        id: 'test',
+        board: ['GGGGGGGGG.'],
+        pieces: [TetrominoType.I],
+        goal: { type: PuzzleGoalType.CLEAR_LINES, lines: 1, tSpin: undefined },
+      });
+    });
+
+    it('should reject a puzzle without an id or pieces', () => {
+      expect(() => parsePuzzle({ ...validPuzzle, id: '' })).toThrow();
+      expect(() => parsePuzzle({ ...validPuzzle, pieces: [] })).toThrow();
+      expect(() => parsePuzzle({ ...validPuzzle, pieces: ['X'] })).toThrow();
+      expect(() => parsePuzzle(null)).toThrow();
+    });
+
+    it('should reject goals that cannot be checked', () => {
+      expect(() => parsePuzzle({ ...validPuzzle, goal: { type: 'win' } })).toThrow();
+      expect(() => parsePuzzle({ ...validPuzzle, goal: { type: 'clear_lines' } })).toThrow();
+      expect(() => parsePuzzle({ ...validPuzzle, goal: { type: 't_spin', lines: 2 } })).toThrow();
+      expect(() =>
+        parsePuzzle({ ...validPuzzle, goal: { type: 't_spin', tSpin: 'huge' } })
+      ).toThrow();
+    });
+  });
+
+  describe('getBuiltInPuzzles', () => {
+    it('should bundle puzzles with unique ids and loadable boards', () => {
+      const puzzles = getBuiltInPuzzles();
+      const ids = puzzles.map((puzzle) => puzzle.id);
+
+      expect(puzzles.length).toBeGreaterThan(0);
+      expect(new Set(ids).size).toBe(ids.length);
+      puzzles.forEach((puzzle) => {
+        expect(() => createBoardFromRows(puzzle.board)).not.toThrow();
+      });
+    });
+  });
+
+  describe('PuzzleGoalTracker', () => {
+    it('should add up cleared lines', () => {
+      const tracker = new PuzzleGoalTracker({ type: PuzzleGoalType.CLEAR_LINES, lines: 4 });
+
+      tracker.handleEvent(event(GameEventType.LINE_CLEARED, { count: 2 }));
+      expect(tracker.isSolved()).toBe(false);
+
+      tracker.handleEvent(event(GameEventType.LINE_CLEARED, { count: 2 }));
+      expect(tracker.isSolved()).toBe(true);
+    });
+
+    it('should only accept the requested T-spin', () => {
+      const tracker = new PuzzleGoalTracker({
+        type: PuzzleGoalType.T_SPIN,
+        tSpin: TSpinType.FULL,
+        lines: 2,
+      });
+
+      tracker.handleEvent(event(GameEventType.T_SPIN, { type: TSpinType.MINI, lines: 2 }));
+      tracker.handleEvent(event(GameEventType.T_SPIN, { type: TSpinType.FULL, lines: 1 }));
+      expect(tracker.isSolved()).toBe(false);
+
+      tracker.handleEvent(event(GameEventType.T_SPIN, { type: TSpinType.FULL, lines: 2 }));
+      expect(tracker.isSolved()).toBe(true);
+    });
+
+    it('should be solved by a perfect clear and forget it on reset', () => {
+      const tracker = new PuzzleGoalTracker({ type: PuzzleGoalType.PERFECT_CLEAR });
+
+      tracker.handleEvent(event(GameEventType.LINE_CLEARED, { count: 2 }));
+      expect(tracker.isSolved()).toBe(false);
+
+      tracker.handleEvent(event(GameEventType.PERFECT_CLEAR, { lines: 2, bonus: 0 }));
+      expect(tracker.isSolved()).toBe(true);
+
+      tracker.reset();
+      expect(tracker.isSolved()).toBe(false);
+    });
+  });
+});
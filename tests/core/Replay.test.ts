@@ -0,0 +1,303 @@
+import { describe, it, expect } from 'vitest';
+import { GameEngine } from '../../src/core/GameEngine';
+import { FixedStepClock } from '../../src/core/GameClock';
+import { BagGenerator } from '../../src/core/PieceGenerator';
+import {
+  ReplayPlayer,
+  ReplayRecorder,
+  createReplayEngine,
+  parseReplay,
+} from '../../src/core/Replay';
+import {
+  createCustomModeConfig,
+  getGameModeConfig,
+  setCustomModeConfig,
+} from '../../src/core/GameModes';
+import { getBuiltInPuzzles } from '../../src/core/Puzzle';
+import {
+  DEFAULT_CUSTOM_MODE_SETTINGS,
+  FRAME_TIME,
+  REPLAY_VERSION,
+} from '../../src/constants/config';
+import { GameMode } from '../../src/types/index';
+import type { GameAction, Replay } from '../../src/types/index';
+
+const SCRIPT: GameAction[] = [
+  'moveLeft',
+  'moveLeft',
+  'hardDrop',
+  'rotate',
+  'moveRight',
+  'hardDrop',
+  'hold',
+  'rotateCCW',
+  'moveDown',
+  'hardDrop',
+  'rotate180',
+  'moveRight',
+  'moveRight',
+  'moveRight',
+  'hardDrop',
+];
+
+/**
+ * Record a scripted game: one action every few ticks, with gravity running in between
+ */
+function recordScriptedGame(
+  mode: GameMode,
+  seed: number,
+  ticks: number
+): {
+  engine: GameEngine;
+  replay: Replay;
+} {
+  const engine = new GameEngine(mode, {
+    generator: new BagGenerator(seed),
+    clock: new FixedStepClock(),
+  });
+  const recorder = new ReplayRecorder(engine);
+
+  for (let tick = 0; tick < ticks && !engine.getState().isGameOver; tick++) {
+    if (tick % 7 === 0) {
+      const action = SCRIPT[(tick / 7) % SCRIPT.length];
+      if (action) engine.dispatch(action);
+    }
+    engine.update(FRAME_TIME);
+  }
+
+  return { engine, replay: recorder.getReplay() };
+}
+
+function playToEnd(player: ReplayPlayer): void {
+  while (player.step()) {
+    // keep stepping until every tick has been played
+  }
+}
+
+describe('Replay', () => {
+  describe('parseReplay', () => {
+    const valid: Replay = {
+      version: REPLAY_VERSION,
+      mode: GameMode.CLASSIC,
+      seed: 42,
+      startLevel: 0,
+      ticks: 10,
+      actions: [
+        { tick: 0, action: 'moveLeft' },
+        { tick: 3, action: 'hardDrop' },
+      ],
+    };
+
+    it('should accept a well-formed replay', () => {
+      expect(parseReplay(JSON.parse(JSON.stringify(valid)))).toEqual({
+        ...valid,
+        customSettings: undefined,
+        puzzleId: undefined,
+      });
+    });
+
+    it('should reject other versions, unknown modes and unknown actions', () => {
+      expect(() => parseReplay({ ...valid, version: REPLAY_VERSION + 1 })).toThrow();
+      expect(() => parseReplay({ ...valid, mode: 'nope' })).toThrow();
+      expect(() => parseReplay({ ...valid, actions: [{ tick: 0, action: 'teleport' }] })).toThrow();
+      expect(() => parseReplay({ ...valid, seed: -1 })).toThrow();
+      expect(() => parseReplay('junk')).toThrow();
+    });
+
+    it('should reject actions out of tick order', () => {
+      expect(() =>
+        parseReplay({
+          ...valid,
+          actions: [
+            { tick: 5, action: 'moveLeft' },
+            { tick: 2, action: 'hardDrop' },
+          ],
+        })
+      ).toThrow('tick order');
+    });
+
+    it('should reject actions after the last tick', () => {
+      expect(() =>
+        parseReplay({ ...valid, actions: [{ tick: valid.ticks + 1, action: 'hardDrop' }] })
+      ).toThrow('after its last tick');
+    });
+
+    it('should clamp custom settings', () => {
+      const replay = parseReplay({
+        ...valid,
+        mode: GameMode.CUSTOM,
+        customSettings: { ...DEFAULT_CUSTOM_MODE_SETTINGS, boardWidth: 500 },
+      });
+
+      expect(replay.customSettings?.boardWidth).toBeLessThan(500);
+    });
+  });
+
+  describe('ReplayRecorder', () => {
+    it('should record dispatched actions with the tick they happened on', () => {
+      const engine = new GameEngine(GameMode.CLASSIC, {
+        generator: new BagGenerator(7),
+        clock: new FixedStepClock(),
+      });
+      const recorder = new ReplayRecorder(engine);
+
+      engine.dispatch('moveLeft');
+      engine.update(FRAME_TIME);
+      engine.update(FRAME_TIME);
+      engine.dispatch('hardDrop');
+
+      const replay = recorder.getReplay();
+      expect(replay.seed).toBe(7);
+      expect(replay.ticks).toBe(2);
+      expect(replay.actions).toEqual([
+        { tick: 0, action: 'moveLeft' },
+        { tick: 2, action: 'hardDrop' },
+      ]);
+    });
+
+    it('should not record actions while paused', () => {
+      const engine = new GameEngine(GameMode.CLASSIC, { clock: new FixedStepClock() });
+      const recorder = new ReplayRecorder(engine);
+
+      engine.pause();
+      expect(engine.dispatch('moveLeft')).toBe(false);
+      expect(recorder.getReplay().actions).toEqual([]);
+    });
+  });
+
+  describe('ReplayPlayer', () => {
+    it.each([GameMode.CLASSIC, GameMode.SURVIVAL])(
+      'should reproduce the recorded %s game exactly',
+      (mode) => {
+        const { engine, replay } = recordScriptedGame(mode, 1234, 1500);
+        const player = new ReplayPlayer(parseReplay(JSON.parse(JSON.stringify(replay))));
+
+        playToEnd(player);
+
+        const played = player.getEngine().getState();
+        const recorded = engine.getState();
+        expect(player.isFinished()).toBe(true);
+        expect(played.board).toEqual(recorded.board);
+        expect(played.score).toBe(recorded.score);
+        expect(played.lines).toBe(recorded.lines);
+        expect(played.currentPiece).toEqual(recorded.currentPiece);
+      }
+    );
+
+    it('should put the custom mode config back once closed', () => {
+      const own = createCustomModeConfig({ ...DEFAULT_CUSTOM_MODE_SETTINGS, boardWidth: 6 });
+      setCustomModeConfig(own);
+      const player = new ReplayPlayer({
+        version: REPLAY_VERSION,
+        mode: GameMode.CUSTOM,
+        seed: 1,
+        startLevel: 0,
+        customSettings: { ...DEFAULT_CUSTOM_MODE_SETTINGS, boardWidth: 12 },
+        ticks: 0,
+        actions: [],
+      });
+
+      expect(getGameModeConfig(GameMode.CUSTOM).boardWidth).toBe(12);
+
+      player.close();
+
+      expect(getGameModeConfig(GameMode.CUSTOM)).toBe(own);
+      setCustomModeConfig(null);
+    });
+
+    it('should play faster or slower with the speed', () => {
+      const { replay } = recordScriptedGame(GameMode.CLASSIC, 99, 300);
+      const player = new ReplayPlayer(replay);
+
+      player.setSpeed(2);
+      player.update(FRAME_TIME * 4);
+      expect(player.getEngine().getTick()).toBe(8);
+
+      player.setSpeed(0.5);
+      player.update(FRAME_TIME * 4);
+      expect(player.getEngine().getTick()).toBe(10);
+    });
+
+    it('should clamp the speed between 0.5x and 4x', () => {
+      const player = new ReplayPlayer(recordScriptedGame(GameMode.CLASSIC, 1, 10).replay);
+
+      player.setSpeed(10);
+      expect(player.getSpeed()).toBe(4);
+      player.setSpeed(0.1);
+      expect(player.getSpeed()).toBe(0.5);
+    });
+
+    it('should not advance while paused, but still step one tick at a time', () => {
+      const player = new ReplayPlayer(recordScriptedGame(GameMode.CLASSIC, 1, 100).replay);
+
+      player.pause();
+      player.update(FRAME_TIME * 10);
+      expect(player.getEngine().getTick()).toBe(0);
+
+      player.step();
+      expect(player.getEngine().getTick()).toBe(1);
+      expect(player.getProgress()).toBeCloseTo(1 / 100);
+    });
+
+    it('should stop once every recorded tick has been played', () => {
+      const player = new ReplayPlayer(recordScriptedGame(GameMode.CLASSIC, 1, 30).replay);
+
+      playToEnd(player);
+
+      expect(player.getEngine().getTick()).toBe(30);
+      expect(player.step()).toBe(false);
+      expect(player.getProgress()).toBe(1);
+    });
+
+    it('should end a hand-made replay whose actions run past its last tick', () => {
+      const player = new ReplayPlayer({
+        version: REPLAY_VERSION,
+        mode: GameMode.CLASSIC,
+        seed: 1,
+        startLevel: 0,
+        ticks: 5,
+        actions: [
+          { tick: 5, action: 'moveLeft' },
+          { tick: 50, action: 'hardDrop' },
+        ],
+      });
+
+      player.skipToEnd();
+
+      expect(player.getEngine().getTick()).toBe(5);
+      expect(player.isFinished()).toBe(true);
+      expect(player.step()).toBe(false);
+    });
+  });
+
+  describe('createReplayEngine', () => {
+    it('should load the recorded puzzle', () => {
+      const puzzle = getBuiltInPuzzles()[0];
+      const engine = createReplayEngine({
+        version: REPLAY_VERSION,
+        mode: GameMode.PUZZLE,
+        seed: 0,
+        startLevel: 0,
+        puzzleId: puzzle?.id,
+        ticks: 0,
+        actions: [],
+      });
+
+      expect(engine.getPuzzle()?.id).toBe(puzzle?.id);
+    });
+
+    it('should throw for a puzzle that no longer exists', () => {
+      expect(() =>
+        createReplayEngine({
+          version: REPLAY_VERSION,
+          mode: GameMode.PUZZLE,
+          seed: 0,
+          startLevel: 0,
+          puzzleId: 'missing',
+          ticks: 0,
+          actions: [],
+        })
+      ).toThrow('missing');
+    });
+  });
+});
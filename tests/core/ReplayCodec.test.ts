@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  decodeReplayCode,
+  encodeReplayCode,
+  importReplayData,
+  serializeReplay,
+} from '../../src/core/ReplayCodec';
+import {
+  DEFAULT_CUSTOM_MODE_SETTINGS,
+  REPLAY_URL_PARAM,
+  REPLAY_VERSION,
+} from '../../src/constants/config';
+import { GameMode } from '../../src/types/index';
+import type { GameAction, Replay } from '../../src/types/index';
+
+const ACTIONS: GameAction[] = ['moveLeft', 'rotate', 'hardDrop', 'hold', 'moveDown', 'rotate180'];
+
+function createReplay(overrides: Partial<Replay> = {}): Replay {
+  return {
+    version: REPLAY_VERSION,
+    mode: GameMode.CLASSIC,
+    seed: 0xdeadbeef,
+    startLevel: 3,
+    customSettings: undefined,
+    puzzleId: undefined,
+    ticks: 5000,
+    actions: Array.from({ length: 300 }, (_, i) => ({
+      tick: i * 15 + (i % 4 === 0 ? 0 : 1),
+      action: ACTIONS[i % ACTIONS.length] ?? 'hardDrop',
+    })),
+    ...overrides,
+  };
+}
+
+describe('ReplayCodec', () => {
+  describe('replay codes', () => {
+    it('should round-trip a replay through a code', async () => {
+      const replay = createReplay();
+
+      expect(await decodeReplayCode(await encodeReplayCode(replay))).toEqual(replay);
+    });
+
+    it('should keep custom settings and puzzle ids', async () => {
+      const custom = createReplay({
+        mode: GameMode.CUSTOM,
+        customSettings: { ...DEFAULT_CUSTOM_MODE_SETTINGS, lineGoal: 25 },
+      });
+      const puzzle = createReplay({ mode: GameMode.PUZZLE, puzzleId: 'tsd-1' });
+
+      expect(await decodeReplayCode(await encodeReplayCode(custom))).toEqual(custom);
+      expect(await decodeReplayCode(await encodeReplayCode(puzzle))).toEqual(puzzle);
+    });
+
+    it('should keep several actions on the same tick in order', async () => {
+      const replay = createReplay({
+        actions: [
+          { tick: 4, action: 'moveRight' },
+          { tick: 4, action: 'rotateCCW' },
+          { tick: 4, action: 'hardDrop' },
+        ],
+      });
+
+      expect((await decodeReplayCode(await encodeReplayCode(replay))).actions).toEqual(
+        replay.actions
+      );
+    });
+
+    it('should be URL safe and much smaller than the JSON file', async () => {
+      const replay = createReplay();
+      const code = await encodeReplayCode(replay);
+
+      expect(code).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(code.length * 5).toBeLessThan(serializeReplay(replay).length);
+    });
+
+    it('should compress repetitive inputs', async () => {
+      const actions = Array.from({ length: 300 }, (_, i) => ({
+        tick: i * 10,
+        action: 'hardDrop' as const,
+      }));
+      const repetitive = await encodeReplayCode(createReplay({ actions }));
+
+      expect(repetitive.length).toBeLessThan(100);
+    });
+
+    it('should reject an unknown version', async () => {
+      const code = await encodeReplayCode({ ...createReplay(), version: REPLAY_VERSION + 1 });
+
+      await expect(decodeReplayCode(code)).rejects.toThrow(
+        `Unsupported replay version: ${REPLAY_VERSION + 1}`
+      );
+    });
+
+    it('should reject truncated, padded or garbled codes', async () => {
+      const code = await encodeReplayCode(createReplay());
+
+      await expect(decodeReplayCode(code.slice(0, -6))).rejects.toThrow('corrupted');
+      await expect(decodeReplayCode(`${code}AAAA`)).rejects.toThrow('corrupted');
+      await expect(decodeReplayCode('not a code!')).rejects.toThrow('corrupted');
+    });
+  });
+
+  describe('importReplayData', () => {
+    it('should read a JSON replay file', async () => {
+      const replay = createReplay();
+
+      expect(await importReplayData(serializeReplay(replay))).toEqual(replay);
+    });
+
+    it('should read a code or a share link', async () => {
+      const replay = createReplay();
+      const code = await encodeReplayCode(replay);
+
+      expect(await importReplayData(`  ${code}\n`)).toEqual(replay);
+      expect(await importReplayData(`https://example.com/#${REPLAY_URL_PARAM}=${code}`)).toEqual(
+        replay
+      );
+    });
+
+    it('should explain why a file was rejected', async () => {
+      await expect(importReplayData('{ broken')).rejects.toThrow('not valid JSON');
+      await expect(
+        importReplayData(JSON.stringify({ ...createReplay(), version: 0 }))
+      ).rejects.toThrow('Unsupported replay version: 0');
+      await expect(
+        importReplayData(JSON.stringify({ ...createReplay(), mode: 'versus' }))
+      ).rejects.toThrow('unknown game mode');
+    });
+  });
+});
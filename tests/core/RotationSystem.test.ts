@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { getWallKickOffsets } from '../../src/core/RotationSystem';
+import { calculateWallKick } from '../../src/core/CollisionDetector';
+import { createBoard } from '../../src/core/Board';
+import { createTetromino, rotateTetromino } from '../../src/core/Tetromino';
+import { BOARD_BUFFER_ROWS, BOARD_ROWS } from '../../src/constants/config';
+import { RotationDirection, TetrominoType } from '../../src/types/index';
+
+describe('RotationSystem', () => {
+  describe('getWallKickOffsets', () => {
+    it('should never kick the O piece', () => {
+      expect(getWallKickOffsets(TetrominoType.O, 0, 0)).toEqual([{ x: 0, y: 0 }]);
+    });
+
+    it('should return five tests for JLSTZ quarter turns', () => {
+      const kicks = getWallKickOffsets(TetrominoType.T, 0, 1);
+
+      expect(kicks).toHaveLength(5);
+      expect(kicks[0]).toEqual({ x: 0, y: 0 });
+      expect(kicks[1]).toEqual({ x: -1, y: 0 });
+      // SRS tables point y up, the board points y down
+      expect(kicks[2]).toEqual({ x: -1, y: -1 });
+      expect(kicks[3]).toEqual({ x: 0, y: 2 });
+    });
+
+    it('should use the dedicated I piece table', () => {
+      const kicks = getWallKickOffsets(TetrominoType.I, 0, 1);
+
+      expect(kicks[1]).toEqual({ x: -2, y: 0 });
+      expect(kicks[2]).toEqual({ x: 1, y: 0 });
+    });
+
+    it('should mirror kicks between opposite rotations', () => {
+      const forward = getWallKickOffsets(TetrominoType.J, 0, 1);
+      const backward = getWallKickOffsets(TetrominoType.J, 1, 0);
+
+      forward.forEach((kick, index) => {
+        expect(backward[index]).toEqual({ x: -kick.x || 0, y: -kick.y || 0 });
+      });
+    });
+
+    it('should provide kicks for 180° rotations', () => {
+      const kicks = getWallKickOffsets(TetrominoType.T, 0, 2);
+
+      expect(kicks.length).toBeGreaterThan(1);
+      expect(kicks[0]).toEqual({ x: 0, y: 0 });
+    });
+  });
+
+  describe('calculateWallKick', () => {
+    it('should rotate in place when nothing is in the way', () => {
+      const board = createBoard();
+      const piece = createTetromino(TetrominoType.T, { x: 4, y: 5 });
+
+      const kick = calculateWallKick(board, piece, rotateTetromino(piece));
+
+      expect(kick).toEqual({ offset: { x: 0, y: 0 }, index: 0 });
+    });
+
+    it('should kick upward off the floor', () => {
+      const board = createBoard();
+      // T resting on the floor in spawn orientation
+      const piece = createTetromino(TetrominoType.T, {
+        x: 4,
+        y: BOARD_BUFFER_ROWS + BOARD_ROWS - 2,
+      });
+
+      const kick = calculateWallKick(board, piece, rotateTetromino(piece));
+
+      expect(kick).toEqual({ offset: { x: -1, y: -1 }, index: 2 });
+    });
+
+    it('should kick the I piece away from the left wall', () => {
+      const board = createBoard();
+      // Vertical I (L state) hugging the left wall
+      const piece = {
+        ...rotateTetromino(
+          createTetromino(TetrominoType.I, { x: -1, y: 5 }),
+          RotationDirection.COUNTER_CLOCKWISE
+        ),
+      };
+
+      const kick = calculateWallKick(board, piece, rotateTetromino(piece));
+
+      expect(kick).not.toBeNull();
+      expect(kick?.offset.x).toBeGreaterThan(0);
+    });
+
+    it('should return null when every test collides', () => {
+      const board = createBoard().map((row) => row.map(() => 'red'));
+      const piece = createTetromino(TetrominoType.T, { x: 4, y: 5 });
+
+      expect(calculateWallKick(board, piece, rotateTetromino(piece))).toBeNull();
+    });
+  });
+});
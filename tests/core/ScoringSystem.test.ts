@@ -4,11 +4,27 @@ import {
   calculateSoftDropBonus,
   calculateHardDropBonus,
   calculateLevel,
+  getFirstLevelUpLines,
   shouldLevelUp,
   getDropSpeed,
   getLinesUntilNextLevel,
+  updateScoreAfterLineClear,
+  calculateGameStatistics,
+  isDifficultClear,
+  calculateComboBonus,
+  applyBackToBack,
+  calculatePerfectClearBonus,
 } from '../../src/core/ScoringSystem';
-import { LINES_PER_LEVEL } from '../../src/constants/config';
+import {
+  LINES_PER_LEVEL,
+  MARATHON_LINES_PER_LEVEL,
+  SCORE_BASE,
+  COMBO_BONUS,
+  BACK_TO_BACK_MULTIPLIER,
+  PERFECT_CLEAR_BONUSES,
+  SPEED_CURVES,
+} from '../../src/constants/config';
+import { SpeedCurvePreset, TSpinType } from '../../src/types/index';
 
 describe('ScoringSystem', () => {
   describe('calculateLineScore', () => {
@@ -38,6 +54,130 @@ describe('ScoringSystem', () => {
 
       expect(scoreLevel5).toBeGreaterThan(scoreLevel0);
     });
+
+    it('should score a T-spin without lines', () => {
+      expect(calculateLineScore(0, 0, TSpinType.FULL)).toBe(SCORE_BASE * 4);
+      expect(calculateLineScore(0, 0, TSpinType.MINI)).toBe(SCORE_BASE);
+    });
+
+    it('should score T-spins above regular clears', () => {
+      expect(calculateLineScore(1, 0, TSpinType.FULL)).toBeGreaterThan(calculateLineScore(1, 0));
+      expect(calculateLineScore(2, 0, TSpinType.FULL)).toBeGreaterThan(calculateLineScore(4, 0));
+      expect(calculateLineScore(3, 0, TSpinType.FULL)).toBe(SCORE_BASE * 16);
+    });
+
+    it('should score mini T-spins below full T-spins', () => {
+      expect(calculateLineScore(1, 0, TSpinType.MINI)).toBeLessThan(
+        calculateLineScore(1, 0, TSpinType.FULL)
+      );
+      expect(calculateLineScore(2, 0, TSpinType.MINI)).toBe(SCORE_BASE * 4);
+    });
+
+    it('should add level bonus to T-spin score', () => {
+      expect(calculateLineScore(2, 3, TSpinType.FULL)).toBe(SCORE_BASE * 12 + 3 * SCORE_BASE);
+    });
+  });
+
+  describe('isDifficultClear', () => {
+    it('should treat tetrises and T-spins with lines as difficult', () => {
+      expect(isDifficultClear(4)).toBe(true);
+      expect(isDifficultClear(1, TSpinType.FULL)).toBe(true);
+      expect(isDifficultClear(2, TSpinType.MINI)).toBe(true);
+    });
+
+    it('should not treat regular clears or empty T-spins as difficult', () => {
+      expect(isDifficultClear(3)).toBe(false);
+      expect(isDifficultClear(0, TSpinType.FULL)).toBe(false);
+    });
+  });
+
+  describe('calculateComboBonus', () => {
+    it('should not reward the first clear of a chain', () => {
+      expect(calculateComboBonus(-1, 0)).toBe(0);
+      expect(calculateComboBonus(0, 5)).toBe(0);
+    });
+
+    it('should grow with combo and level', () => {
+      expect(calculateComboBonus(1, 0)).toBe(COMBO_BONUS);
+      expect(calculateComboBonus(3, 0)).toBe(COMBO_BONUS * 3);
+      expect(calculateComboBonus(2, 1)).toBe(COMBO_BONUS * 2 * 2);
+    });
+  });
+
+  describe('applyBackToBack', () => {
+    it('should multiply the line score', () => {
+      expect(applyBackToBack(320)).toBe(320 * BACK_TO_BACK_MULTIPLIER);
+    });
+  });
+
+  describe('calculatePerfectClearBonus', () => {
+    it('should tier the bonus by lines cleared', () => {
+      expect(calculatePerfectClearBonus(1, 0)).toBe(PERFECT_CLEAR_BONUSES[1]);
+      expect(calculatePerfectClearBonus(2, 0)).toBeGreaterThan(calculatePerfectClearBonus(1, 0));
+      expect(calculatePerfectClearBonus(3, 0)).toBeGreaterThan(calculatePerfectClearBonus(2, 0));
+      expect(calculatePerfectClearBonus(4, 0)).toBeGreaterThan(calculatePerfectClearBonus(3, 0));
+    });
+
+    it('should scale with level', () => {
+      expect(calculatePerfectClearBonus(4, 2)).toBe((PERFECT_CLEAR_BONUSES[4] ?? 0) * 3);
+    });
+
+    it('should give nothing without lines', () => {
+      expect(calculatePerfectClearBonus(0, 5)).toBe(0);
+    });
+  });
+
+  describe('updateScoreAfterLineClear', () => {
+    it('should leave the score unchanged without lines or T-spin', () => {
+      expect(updateScoreAfterLineClear(100, 5, 1, 0)).toEqual({
+        points: 100,
+        linesCleared: 5,
+        level: 1,
+        bonus: 0,
+      });
+    });
+
+    it('should add back-to-back and combo bonuses', () => {
+      const tetris = calculateLineScore(4, 0);
+      const result = updateScoreAfterLineClear(0, 0, 0, 4, TSpinType.NONE, 2, true);
+
+      expect(result.bonus).toBe(applyBackToBack(tetris) + calculateComboBonus(2, 0));
+      expect(result.points).toBe(result.bonus);
+    });
+
+    it('should score a T-spin with no lines without adding lines', () => {
+      const result = updateScoreAfterLineClear(100, 5, 0, 0, TSpinType.FULL);
+
+      expect(result.points).toBe(100 + SCORE_BASE * 4);
+      expect(result.linesCleared).toBe(5);
+      expect(result.bonus).toBe(SCORE_BASE * 4);
+    });
+
+    it('should keep the level from the start level', () => {
+      const result = updateScoreAfterLineClear(
+        0,
+        0,
+        15,
+        4,
+        TSpinType.NONE,
+        -1,
+        false,
+        15,
+        MARATHON_LINES_PER_LEVEL,
+        true
+      );
+
+      expect(result.level).toBe(15);
+    });
+  });
+
+  describe('calculateGameStatistics', () => {
+    it('should report the level from the start level', () => {
+      expect(calculateGameStatistics(0, 20, 60, 15, MARATHON_LINES_PER_LEVEL, true).level).toBe(15);
+      expect(calculateGameStatistics(0, 160, 60, 15, MARATHON_LINES_PER_LEVEL, true).level).toBe(
+        16
+      );
+    });
   });
 
   describe('calculateSoftDropBonus', () => {
@@ -72,6 +212,37 @@ describe('ScoringSystem', () => {
     it('should not exceed max level', () => {
       expect(calculateLevel(1000)).toBeLessThanOrEqual(25);
     });
+
+    it('should stay on the start level until the first level-up', () => {
+      const L = MARATHON_LINES_PER_LEVEL;
+
+      expect(calculateLevel(0, 12, L, true)).toBe(12);
+      expect(calculateLevel(129, 12, L, true)).toBe(12);
+      expect(calculateLevel(130, 12, L, true)).toBe(13);
+      expect(calculateLevel(140, 12, L, true)).toBe(14);
+    });
+
+    it('should level up every level worth of lines without the NES rule', () => {
+      expect(calculateLevel(0, 12)).toBe(12);
+      expect(calculateLevel(LINES_PER_LEVEL, 12)).toBe(13);
+    });
+  });
+
+  describe('getFirstLevelUpLines', () => {
+    const L = MARATHON_LINES_PER_LEVEL;
+
+    it('should follow the NES rule', () => {
+      expect(getFirstLevelUpLines(0, L, true)).toBe(100);
+      expect(getFirstLevelUpLines(5, L, true)).toBe(100);
+      expect(getFirstLevelUpLines(9, L, true)).toBe(100);
+      expect(getFirstLevelUpLines(10, L, true)).toBe(110);
+      expect(getFirstLevelUpLines(15, L, true)).toBe(160);
+      expect(getFirstLevelUpLines(19, L, true)).toBe(200);
+    });
+
+    it('should match the regular progression from level 0', () => {
+      expect(getFirstLevelUpLines()).toBe(LINES_PER_LEVEL);
+    });
   });
 
   describe('shouldLevelUp', () => {
@@ -108,6 +279,15 @@ describe('ScoringSystem', () => {
     it('should handle level beyond max', () => {
       expect(() => getDropSpeed(100)).not.toThrow();
     });
+
+    it('should read the given speed curve', () => {
+      const relaxed = SPEED_CURVES[SpeedCurvePreset.RELAXED];
+      const fast = SPEED_CURVES[SpeedCurvePreset.FAST];
+
+      expect(getDropSpeed(5, relaxed)).toBe(relaxed[5]);
+      expect(getDropSpeed(5, fast)).toBeLessThan(getDropSpeed(5));
+      expect(getDropSpeed(5, relaxed)).toBeGreaterThan(getDropSpeed(5));
+    });
   });
 
   describe('getLinesUntilNextLevel', () => {
@@ -117,5 +297,10 @@ describe('ScoringSystem', () => {
       expect(getLinesUntilNextLevel(LINES_PER_LEVEL - 1)).toBe(1);
       expect(getLinesUntilNextLevel(LINES_PER_LEVEL)).toBe(LINES_PER_LEVEL);
     });
+
+    it('should count down to the first level-up from a later start level', () => {
+      expect(getLinesUntilNextLevel(30, 15, MARATHON_LINES_PER_LEVEL, true)).toBe(130);
+      expect(getLinesUntilNextLevel(164, 15, MARATHON_LINES_PER_LEVEL, true)).toBe(6);
+    });
   });
 });
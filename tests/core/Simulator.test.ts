@@ -0,0 +1,88 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { Simulator } from '../../src/core/Simulator';
+import { BOARD_BUFFER_ROWS, BOARD_ROWS, VACANT_COLOR } from '../../src/constants/config';
+import { GameMode } from '../../src/types/index';
+import type { GameAction } from '../../src/types/index';
+
+const BOTTOM_ROW = BOARD_BUFFER_ROWS + BOARD_ROWS - 1;
+
+describe('Simulator', () => {
+  it('should run without a DOM', () => {
+    expect(typeof window).toBe('undefined');
+
+    const simulator = new Simulator({ seed: 1 });
+
+    expect(simulator.getObservation().isGameOver).toBe(false);
+  });
+
+  it('should give the same game for the same seed and inputs', () => {
+    const inputs: GameAction[] = ['moveLeft', 'rotate', 'hardDrop', 'moveRight', 'hold'];
+    const play = (): ReturnType<Simulator['getObservation']> => {
+      const simulator = new Simulator({ seed: 77 });
+      for (let tick = 0; tick < 600; tick++) {
+        simulator.step(tick % 10 === 0 ? inputs[(tick / 10) % inputs.length] : undefined);
+      }
+      return simulator.getObservation();
+    };
+
+    expect(play()).toEqual(play());
+  });
+
+  it('should let gravity act only through steps', () => {
+    const simulator = new Simulator({ seed: 5 });
+    const startY = simulator.getObservation().currentPiece?.position.y ?? 0;
+
+    for (let tick = 0; tick < 120; tick++) simulator.step();
+
+    const observation = simulator.getObservation();
+    expect(observation.tick).toBe(120);
+    expect(observation.currentPiece?.position.y).toBeGreaterThan(startY);
+  });
+
+  it('should place a whole piece at once and report what it did', () => {
+    const simulator = new Simulator({ seed: 9 });
+
+    const result = simulator.place(0, 0);
+
+    expect(result.accepted).toBe(true);
+    expect(result.scoreGained).toBeGreaterThan(0);
+    expect(result.observation.board[BOTTOM_ROW]?.some((cell) => cell !== VACANT_COLOR)).toBe(true);
+    expect(simulator.place(-5, 0).accepted).toBe(false);
+  });
+
+  it('should play until top out by stacking in one column', () => {
+    const simulator = new Simulator({ seed: 3 });
+
+    let pieces = 0;
+    while (!simulator.getObservation().isGameOver && pieces < 100) {
+      simulator.place(4, 0);
+      pieces++;
+    }
+
+    expect(simulator.getObservation().isGameOver).toBe(true);
+    expect(simulator.place(4, 0).accepted).toBe(false);
+  });
+
+  it('should reset to the same game for the same seed', () => {
+    const simulator = new Simulator({ mode: GameMode.DIG, seed: 11 });
+    const first = simulator.getObservation();
+    simulator.place(3, 1);
+
+    expect(simulator.reset(11)).toEqual(first);
+  });
+
+  it('should hand out observations the caller can modify', () => {
+    const simulator = new Simulator({ seed: 2 });
+    const observation = simulator.getObservation();
+
+    const row = observation.board[BOTTOM_ROW];
+    if (row) row[0] = 'red';
+
+    expect(simulator.getObservation().board[BOTTOM_ROW]?.[0]).toBe(VACANT_COLOR);
+  });
+
+  it('should not simulate puzzles without a puzzle', () => {
+    expect(() => new Simulator({ mode: GameMode.PUZZLE })).toThrow('Puzzle');
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { detectTSpin } from '../../src/core/TSpinDetector';
+import { createBoard } from '../../src/core/Board';
+import { createTetromino, rotateTetromino } from '../../src/core/Tetromino';
+import { BOARD_BUFFER_ROWS, BOARD_ROWS } from '../../src/constants/config';
+import { RotationDirection, TSpinType, TetrominoType } from '../../src/types/index';
+import type { BoardGrid, Tetromino } from '../../src/types/index';
+
+// Bottom row of a default board, below the hidden buffer
+const BOTTOM_ROW = BOARD_BUFFER_ROWS + BOARD_ROWS - 1;
+
+function fill(board: BoardGrid, cells: Array<[number, number]>): BoardGrid {
+  cells.forEach(([x, y]) => {
+    const row = board[y];
+    if (row) row[x] = 'red';
+  });
+  return board;
+}
+
+/** T pointing down into a one-cell hole at the bottom of the board */
+function createDownwardT(x: number): Tetromino {
+  return rotateTetromino(
+    createTetromino(TetrominoType.T, { x, y: BOTTOM_ROW - 2 }),
+    RotationDirection.HALF_TURN
+  );
+}
+
+describe('TSpinDetector', () => {
+  const bottom = BOTTOM_ROW;
+  const top = BOTTOM_ROW - 2;
+
+  it('should ignore pieces other than T', () => {
+    const board = fill(createBoard(), [
+      [3, top],
+      [5, top],
+      [3, bottom],
+      [5, bottom],
+    ]);
+    const piece = createTetromino(TetrominoType.L, { x: 3, y: top });
+
+    expect(detectTSpin(board, piece, 0)).toBe(TSpinType.NONE);
+  });
+
+  it('should need at least three blocked corners', () => {
+    const board = fill(createBoard(), [
+      [3, bottom],
+      [5, bottom],
+    ]);
+
+    expect(detectTSpin(board, createDownwardT(3), 0)).toBe(TSpinType.NONE);
+  });
+
+  it('should detect a full T-spin when both front corners are blocked', () => {
+    const board = fill(createBoard(), [
+      [3, top],
+      [3, bottom],
+      [5, bottom],
+    ]);
+
+    expect(detectTSpin(board, createDownwardT(3), 0)).toBe(TSpinType.FULL);
+  });
+
+  it('should detect a mini T-spin when a front corner is open', () => {
+    const board = fill(createBoard(), [
+      [3, top],
+      [5, top],
+      [3, bottom],
+    ]);
+
+    expect(detectTSpin(board, createDownwardT(3), 0)).toBe(TSpinType.MINI);
+  });
+
+  it('should upgrade a mini T-spin reached with the last kick test', () => {
+    const board = fill(createBoard(), [
+      [3, top],
+      [5, top],
+      [3, bottom],
+    ]);
+
+    expect(detectTSpin(board, createDownwardT(3), 4)).toBe(TSpinType.FULL);
+  });
+
+  it('should not upgrade a mini T-spin reached with a 180° kick', () => {
+    const board = fill(createBoard(), [
+      [3, top],
+      [5, top],
+      [3, bottom],
+    ]);
+
+    expect(detectTSpin(board, createDownwardT(3), 4, true)).toBe(TSpinType.MINI);
+  });
+
+  it('should count walls and floor as blocked corners', () => {
+    // T pointing left against the left wall, resting on the floor
+    const piece = rotateTetromino(
+      createTetromino(TetrominoType.T, { x: -1, y: top }),
+      RotationDirection.COUNTER_CLOCKWISE
+    );
+    const board = fill(createBoard(), [[1, top]]);
+
+    expect(detectTSpin(board, piece, 0)).toBe(TSpinType.FULL);
+  });
+});
@@ -3,11 +3,15 @@ import {
   createTetromino,
   createRandomTetromino,
   rotateTetromino,
+  setTetrominoRotation,
+  getRotationCount,
   moveTetromino,
   getTetrominoOccupiedCells,
+  getSpawnPosition,
   TETROMINO_SHAPES,
 } from '../../src/core/Tetromino';
-import { TetrominoType } from '../../src/types/index';
+import { RotationDirection, TetrominoType } from '../../src/types/index';
+import { BOARD_BUFFER_ROWS } from '../../src/constants/config';
 
 describe('Tetromino', () => {
   describe('createTetromino', () => {
@@ -20,7 +24,7 @@ describe('Tetromino', () => {
     it('should create tetromino at spawn position by default', () => {
       const tetromino = createTetromino(TetrominoType.O);
       expect(tetromino.position.x).toBe(3);
-      expect(tetromino.position.y).toBe(-2);
+      expect(tetromino.position.y).toBe(BOARD_BUFFER_ROWS - 2);
     });
 
     it('should create tetromino at custom position', () => {
@@ -35,6 +39,19 @@ describe('Tetromino', () => {
     });
   });
 
+  describe('getSpawnPosition', () => {
+    it('should keep pieces centered on other board widths', () => {
+      const spawnColumns = (width: number): number[] =>
+        getTetrominoOccupiedCells(createTetromino(TetrominoType.I, getSpawnPosition(width))).map(
+          (cell) => cell.x
+        );
+
+      expect(spawnColumns(10)).toEqual([3, 4, 5, 6]);
+      expect(spawnColumns(4)).toEqual([0, 1, 2, 3]);
+      expect(spawnColumns(20)).toEqual([8, 9, 10, 11]);
+    });
+  });
+
   describe('createRandomTetromino', () => {
     it('should create a valid tetromino', () => {
       const tetromino = createRandomTetromino();
@@ -61,6 +78,38 @@ describe('Tetromino', () => {
       expect(rotated.shape).not.toEqual(tetromino.shape);
     });
 
+    it('should rotate tetromino counter-clockwise', () => {
+      const tetromino = createTetromino(TetrominoType.T);
+      const rotated = rotateTetromino(tetromino, RotationDirection.COUNTER_CLOCKWISE);
+
+      expect(rotated.rotation).toBe(3);
+      expect(rotated.shape).toEqual(TETROMINO_SHAPES[TetrominoType.T].shape[3]);
+    });
+
+    it('should rotate tetromino by 180°', () => {
+      const tetromino = createTetromino(TetrominoType.L);
+      const rotated = rotateTetromino(tetromino, RotationDirection.HALF_TURN);
+
+      expect(rotated.rotation).toBe(2);
+    });
+
+    it('should undo a clockwise rotation with a counter-clockwise one', () => {
+      const tetromino = createTetromino(TetrominoType.J);
+      const rotated = rotateTetromino(
+        rotateTetromino(tetromino),
+        RotationDirection.COUNTER_CLOCKWISE
+      );
+
+      expect(rotated.rotation).toBe(0);
+      expect(rotated.shape).toEqual(tetromino.shape);
+    });
+
+    it('should keep the O piece in its only orientation', () => {
+      const tetromino = createTetromino(TetrominoType.O);
+
+      expect(rotateTetromino(tetromino, RotationDirection.COUNTER_CLOCKWISE).rotation).toBe(0);
+    });
+
     it('should cycle through all rotations', () => {
       let tetromino = createTetromino(TetrominoType.T);
       const shapes = TETROMINO_SHAPES[TetrominoType.T].shape;
@@ -81,6 +130,21 @@ describe('Tetromino', () => {
     });
   });
 
+  describe('setTetrominoRotation', () => {
+    it('should match turning clockwise from spawn', () => {
+      const piece = createTetromino(TetrominoType.T);
+
+      expect(setTetrominoRotation(piece, 2)).toEqual(rotateTetromino(rotateTetromino(piece)));
+    });
+
+    it('should wrap rotation states around', () => {
+      const piece = createTetromino(TetrominoType.J);
+
+      expect(setTetrominoRotation(piece, -1).rotation).toBe(3);
+      expect(setTetrominoRotation(piece, getRotationCount(TetrominoType.J)).rotation).toBe(0);
+    });
+  });
+
   describe('moveTetromino', () => {
     it('should move tetromino horizontally', () => {
       const tetromino = createTetromino(TetrominoType.S);
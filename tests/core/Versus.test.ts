@@ -0,0 +1,125 @@
+import { describe, it, expect, vi } from 'vitest';
+import { VersusMatch, getAttack } from '../../src/core/Versus';
+import { FixedStepClock } from '../../src/core/GameClock';
+import { GameEngine } from '../../src/core/GameEngine';
+import { BagGenerator, FixedSequenceGenerator } from '../../src/core/PieceGenerator';
+import { BOARD_BUFFER_ROWS, BOARD_COLS, BOARD_ROWS } from '../../src/constants/config';
+import { GameMode, TSpinType, TetrominoType } from '../../src/types/index';
+
+const BOTTOM_ROW = BOARD_BUFFER_ROWS + BOARD_ROWS - 1;
+
+function createEngine(): GameEngine {
+  return new GameEngine(GameMode.CLASSIC, {
+    generator: new FixedSequenceGenerator(Array<TetrominoType>(20).fill(TetrominoType.I)),
+    clock: new FixedStepClock(),
+  });
+}
+
+/** Fill the bottom four rows except the first column, then drop the I into it for a Tetris */
+function scoreTetris(engine: GameEngine): void {
+  const board = engine.getState().board;
+  // A leftover block above keeps the Tetris from being a perfect clear
+  const leftover = board[BOTTOM_ROW - 4];
+  if (leftover) leftover[BOARD_COLS - 1] = 'gray';
+  for (let y = BOTTOM_ROW - 3; y <= BOTTOM_ROW; y++) {
+    const row = board[y];
+    if (!row) continue;
+    for (let x = 1; x < BOARD_COLS; x++) {
+      row[x] = 'gray';
+    }
+  }
+  engine.place(-2, 1);
+}
+
+describe('Versus', () => {
+  describe('getAttack', () => {
+    const clear = { count: 1, tSpin: TSpinType.NONE, combo: 0, backToBack: false };
+
+    it('should send lines by clear size', () => {
+      expect([1, 2, 3, 4].map((count) => getAttack({ ...clear, count }))).toEqual([0, 1, 2, 4]);
+    });
+
+    it('should send more for T-spins', () => {
+      expect(getAttack({ ...clear, count: 2, tSpin: TSpinType.FULL })).toBe(4);
+      expect(getAttack({ ...clear, count: 1, tSpin: TSpinType.MINI })).toBe(0);
+    });
+
+    it('should add the combo and back-to-back bonuses', () => {
+      expect(getAttack({ ...clear, count: 4, backToBack: true })).toBe(5);
+      expect(getAttack({ ...clear, combo: 4 })).toBe(2);
+      expect(getAttack({ ...clear, combo: 50 })).toBe(5);
+    });
+
+    it('should send nothing without a clear', () => {
+      expect(getAttack({ ...clear, count: 0, combo: 5 })).toBe(0);
+    });
+  });
+
+  describe('VersusMatch', () => {
+    it('should send the attack to the opponent', () => {
+      const players = [createEngine(), createEngine()] as const;
+      const onAttack = vi.fn();
+      new VersusMatch(players, { onAttack });
+
+      scoreTetris(players[0]);
+
+      expect(players[1].getPendingGarbage()).toBe(4);
+      expect(onAttack).toHaveBeenCalledWith(0, 4);
+    });
+
+    it('should cancel queued garbage before sending any', () => {
+      const players = [createEngine(), createEngine()] as const;
+      new VersusMatch(players);
+      players[1].receiveGarbage(3);
+
+      scoreTetris(players[1]);
+
+      expect(players[1].getPendingGarbage()).toBe(0);
+      expect(players[0].getPendingGarbage()).toBe(1);
+    });
+
+    it('should make the other player win when one tops out', () => {
+      const players = [createEngine(), createEngine()] as const;
+      const onWinner = vi.fn();
+      const match = new VersusMatch(players, { onWinner });
+
+      players[1].receiveGarbage(BOARD_ROWS + BOARD_BUFFER_ROWS);
+      players[1].hardDrop();
+
+      expect(players[1].getState().isGameOver).toBe(true);
+      expect(match.getWinner()).toBe(0);
+      expect(onWinner).toHaveBeenCalledWith(0);
+    });
+
+    it('should stop sending garbage once the match is over', () => {
+      const players = [createEngine(), createEngine()] as const;
+      const match = new VersusMatch(players);
+      players[1].receiveGarbage(BOARD_ROWS + BOARD_BUFFER_ROWS);
+      players[1].hardDrop();
+
+      scoreTetris(players[0]);
+
+      expect(match.isOver()).toBe(true);
+      expect(players[1].getPendingGarbage()).toBe(0);
+    });
+
+    it('should restart both players on the same seed', () => {
+      const players = [
+        new GameEngine(GameMode.CLASSIC, { generator: new BagGenerator(1) }),
+        new GameEngine(GameMode.CLASSIC, { generator: new BagGenerator(2) }),
+      ] as const;
+      const match = new VersusMatch(players);
+      players[1].receiveGarbage(BOARD_ROWS + BOARD_BUFFER_ROWS);
+      players[1].hardDrop();
+
+      match.restart(1234);
+
+      expect(match.getWinner()).toBeNull();
+      expect(players[1].getState().isGameOver).toBe(false);
+      expect(players.map((engine) => engine.getSeed())).toEqual([1234, 1234]);
+      expect(players[0].getState().nextPieces.map(({ type }) => type)).toEqual(
+        players[1].getState().nextPieces.map(({ type }) => type)
+      );
+    });
+  });
+});
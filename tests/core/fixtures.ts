@@ -0,0 +1,49 @@
+/**
+ * Board and game state fixtures shared by the core tests
+ */
+
+import { createBoard } from '../../src/core/Board';
+import { createTetromino, getSpawnPosition } from '../../src/core/Tetromino';
+import { BOARD_BUFFER_ROWS, BOARD_COLS, BOARD_ROWS } from '../../src/constants/config';
+import { GameMode, TetrominoType } from '../../src/types/index';
+import type { BoardGrid, GameState } from '../../src/types/index';
+
+export const BOTTOM_ROW = BOARD_BUFFER_ROWS + BOARD_ROWS - 1;
+
+/** Fill the bottom rows, leaving the given column empty */
+export function createWellBoard(rows: number, wellColumn: number): BoardGrid {
+  const board = createBoard();
+  for (let y = BOTTOM_ROW - rows + 1; y <= BOTTOM_ROW; y++) {
+    const row = board[y];
+    if (!row) continue;
+    for (let x = 0; x < BOARD_COLS; x++) {
+      if (x !== wellColumn) row[x] = 'gray';
+    }
+  }
+  return board;
+}
+
+/** Classic game state on the given board, with the pieces at their spawn */
+export function createState(
+  board: BoardGrid,
+  current: TetrominoType | null,
+  next: TetrominoType
+): GameState {
+  const spawn = getSpawnPosition();
+  return {
+    board,
+    currentPiece: current ? createTetromino(current, spawn) : null,
+    nextPiece: createTetromino(next, spawn),
+    nextPieces: [createTetromino(next, spawn)],
+    holdPiece: null,
+    canHold: true,
+    score: 0,
+    lines: 0,
+    level: 0,
+    combo: -1,
+    backToBack: false,
+    isGameOver: false,
+    isPaused: false,
+    gameMode: GameMode.CLASSIC,
+  };
+}
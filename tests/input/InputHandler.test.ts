@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { InputHandler } from '../../src/input/InputHandler';
+import { DEFAULT_CONTROLS } from '../../src/constants/config';
 
 describe('InputHandler', () => {
   let handler: InputHandler;
@@ -22,12 +23,22 @@ describe('InputHandler', () => {
       expect(controls.rotate).toContain('ArrowUp');
     });
 
+    it('should not bind Ctrl, Alt or Meta, which turn the other keys into browser shortcuts', () => {
+      const keys = Object.values(DEFAULT_CONTROLS).flat();
+
+      expect(keys).not.toContain('Control');
+      expect(keys).not.toContain('Alt');
+      expect(keys).not.toContain('Meta');
+    });
+
     it('should initialize with custom controls', () => {
       const customControls = {
         moveLeft: ['a', 'A'],
         moveRight: ['d', 'D'],
         moveDown: ['s', 'S'],
         rotate: ['w', 'W'],
+        rotateCCW: ['e', 'E'],
+        rotate180: ['f', 'F'],
         hardDrop: [' '],
         hold: ['Shift'],
         pause: ['Escape', 'p', 'P'],
@@ -127,6 +138,26 @@ describe('InputHandler', () => {
       expect(callback).toHaveBeenCalled();
     });
 
+    it('should trigger rotateCCW on Z', () => {
+      const callback = vi.fn();
+      handler.on('rotateCCW', callback);
+
+      const event = new KeyboardEvent('keydown', { key: 'z' });
+      document.dispatchEvent(event);
+
+      expect(callback).toHaveBeenCalled();
+    });
+
+    it('should trigger rotate180 on A', () => {
+      const callback = vi.fn();
+      handler.on('rotate180', callback);
+
+      const event = new KeyboardEvent('keydown', { key: 'a' });
+      document.dispatchEvent(event);
+
+      expect(callback).toHaveBeenCalled();
+    });
+
     it('should trigger hardDrop on Space', () => {
       const callback = vi.fn();
       handler.on('hardDrop', callback);
@@ -146,6 +177,21 @@ describe('InputHandler', () => {
 
       expect(callback).toHaveBeenCalled();
     });
+
+    it('should tell the auto-repeats of a held key from the press', () => {
+      vi.useFakeTimers();
+      const callback = vi.fn();
+      handler.on('moveLeft', callback);
+
+      document.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowLeft' }));
+      vi.advanceTimersByTime(300);
+      document.dispatchEvent(new KeyboardEvent('keyup', { key: 'ArrowLeft' }));
+      vi.useRealTimers();
+
+      expect(callback.mock.calls.length).toBeGreaterThan(1);
+      expect(callback.mock.calls[0]).toEqual([false]);
+      expect(callback.mock.calls.slice(1).every(([repeat]) => repeat === true)).toBe(true);
+    });
   });
 
   describe('Key State Tracking', () => {
@@ -168,6 +214,15 @@ describe('InputHandler', () => {
       expect(handler.isKeyPressed('ArrowLeft')).toBe(false);
     });
 
+    it('should release a key whose value changed with Shift before keyup', () => {
+      document.dispatchEvent(new KeyboardEvent('keydown', { key: 'a', code: 'KeyA' }));
+      expect(handler.isKeyPressed('KeyA')).toBe(true);
+
+      document.dispatchEvent(new KeyboardEvent('keyup', { key: 'A', code: 'KeyA' }));
+
+      expect(handler.isKeyPressed('KeyA')).toBe(false);
+    });
+
     it('should clear all pressed keys', () => {
       const event1 = new KeyboardEvent('keydown', { key: 'ArrowLeft' });
       const event2 = new KeyboardEvent('keydown', { key: 'ArrowRight' });
@@ -189,6 +244,8 @@ describe('InputHandler', () => {
         moveRight: ['d'],
         moveDown: ['s'],
         rotate: ['w'],
+        rotateCCW: ['e'],
+        rotate180: ['f'],
         hardDrop: [' '],
         hold: ['Shift'],
         pause: ['Escape'],
@@ -212,6 +269,8 @@ describe('InputHandler', () => {
         moveRight: ['d'],
         moveDown: ['s'],
         rotate: ['w'],
+        rotateCCW: ['e'],
+        rotate180: ['f'],
         hardDrop: [' '],
         hold: ['Shift'],
         pause: ['Escape'],
@@ -328,8 +387,7 @@ describe('InputHandler', () => {
       const event = new KeyboardEvent('keydown', { key: 'ArrowLeft' });
       document.dispatchEvent(event);
 
-      // Note: bind() creates new function references, so cleanup may not remove exact listeners
-      // This test verifies destroy completes without errors
+      expect(callback).not.toHaveBeenCalled();
       expect(() => handler.destroy()).not.toThrow();
     });
 
@@ -185,6 +185,34 @@ describe('AnimationEngine', () => {
     });
   });
 
+  describe('Perfect Clear Animation', () => {
+    it('should cover the whole board with particles', () => {
+      engine.animatePerfectClear(canvas);
+
+      expect(engine.isAnimating('perfect_clear')).toBe(true);
+      expect(engine.getParticleCount()).toBeGreaterThanOrEqual(50);
+    });
+
+    it('should glow over the board while playing', () => {
+      const flash = vi.spyOn(engine, 'flash');
+      engine.animatePerfectClear(canvas);
+
+      engine.render(ctx);
+
+      expect(flash).toHaveBeenCalledWith(ctx, expect.any(String), expect.any(Number));
+    });
+
+    it('should complete perfect clear animation after duration', () => {
+      engine.animatePerfectClear(canvas);
+
+      for (let i = 0; i < 100; i++) {
+        engine.update(50);
+      }
+
+      expect(engine.isAnimating('perfect_clear')).toBe(false);
+    });
+  });
+
   describe('Flash Effect', () => {
     it('should render flash effect', () => {
       expect(() => engine.flash(ctx)).not.toThrow();
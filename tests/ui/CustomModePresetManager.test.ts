@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CustomModePresetManager } from '../../src/ui/CustomModePresetManager';
+import {
+  DEFAULT_CUSTOM_MODE_SETTINGS,
+  MAX_CUSTOM_PRESETS,
+  STORAGE_KEYS,
+} from '../../src/constants/config';
+
+describe('CustomModePresetManager', () => {
+  let manager: CustomModePresetManager;
+
+  beforeEach(() => {
+    localStorage.clear();
+    manager = new CustomModePresetManager();
+  });
+
+  it('should save and load a named preset', () => {
+    const settings = { ...DEFAULT_CUSTOM_MODE_SETTINGS, lineGoal: 20 };
+
+    manager.savePreset('  Sprint 20 ', settings);
+
+    expect(manager.getPresets()).toEqual([{ name: 'Sprint 20', settings }]);
+    expect(new CustomModePresetManager().getPreset('Sprint 20')?.settings).toEqual(settings);
+  });
+
+  it('should replace a preset saved under the same name', () => {
+    manager.savePreset('Mine', DEFAULT_CUSTOM_MODE_SETTINGS);
+    manager.savePreset('Mine', { ...DEFAULT_CUSTOM_MODE_SETTINGS, holdEnabled: false });
+
+    expect(manager.getPresets()).toHaveLength(1);
+    expect(manager.getPreset('Mine')?.settings.holdEnabled).toBe(false);
+  });
+
+  it('should not save a preset without a name', () => {
+    expect(manager.savePreset('  ', DEFAULT_CUSTOM_MODE_SETTINGS)).toBeNull();
+    expect(manager.getPresets()).toEqual([]);
+  });
+
+  it('should keep only the most recent presets', () => {
+    for (let i = 0; i <= MAX_CUSTOM_PRESETS; i++) {
+      manager.savePreset(`Preset ${i}`, DEFAULT_CUSTOM_MODE_SETTINGS);
+    }
+
+    const presets = manager.getPresets();
+    expect(presets).toHaveLength(MAX_CUSTOM_PRESETS);
+    expect(presets[0]?.name).toBe(`Preset ${MAX_CUSTOM_PRESETS}`);
+  });
+
+  it('should delete a preset by name', () => {
+    manager.savePreset('Mine', DEFAULT_CUSTOM_MODE_SETTINGS);
+
+    expect(manager.deletePreset('Mine')).toBe(true);
+    expect(manager.deletePreset('Mine')).toBe(false);
+    expect(manager.getPresets()).toEqual([]);
+  });
+
+  it('should drop malformed stored presets and clamp their settings', () => {
+    localStorage.setItem(
+      STORAGE_KEYS.CUSTOM_MODE_PRESETS,
+      JSON.stringify([{ name: 'Wide', settings: { boardWidth: 500 } }, { settings: {} }, 'junk'])
+    );
+
+    const presets = manager.getPresets();
+
+    expect(presets).toHaveLength(1);
+    expect(presets[0]?.settings.boardWidth).toBeLessThan(500);
+  });
+});
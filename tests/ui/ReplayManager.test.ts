@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ReplayManager } from '../../src/ui/ReplayManager';
+import { getReplayResult } from '../../src/core/Replay';
+import { encodeReplayCode } from '../../src/core/ReplayCodec';
+import { MAX_SAVED_REPLAYS, REPLAY_VERSION, STORAGE_KEYS } from '../../src/constants/config';
+import { GameMode } from '../../src/types/index';
+import type { Replay } from '../../src/types/index';
+
+function createReplay(seed: number): Replay {
+  return {
+    version: REPLAY_VERSION,
+    mode: GameMode.CLASSIC,
+    seed,
+    startLevel: 0,
+    ticks: 120,
+    actions: [{ tick: 10, action: 'hardDrop' }],
+  };
+}
+
+describe('ReplayManager', () => {
+  let manager: ReplayManager;
+
+  beforeEach(() => {
+    localStorage.clear();
+    manager = new ReplayManager();
+  });
+
+  it('should save a replay with its result and load it back', () => {
+    const saved = manager.saveReplay(createReplay(1), 800, 4);
+
+    const loaded = new ReplayManager().getReplay(saved.id);
+    expect(loaded?.score).toBe(800);
+    expect(loaded?.lines).toBe(4);
+    expect(loaded?.replay.seed).toBe(1);
+    expect(loaded?.replay.actions).toEqual([{ tick: 10, action: 'hardDrop' }]);
+  });
+
+  it('should list the most recent replays first and keep only the limit', () => {
+    for (let i = 0; i <= MAX_SAVED_REPLAYS; i++) {
+      manager.saveReplay(createReplay(i), i, 0);
+    }
+
+    const replays = manager.getReplays();
+    expect(replays).toHaveLength(MAX_SAVED_REPLAYS);
+    expect(replays[0]?.replay.seed).toBe(MAX_SAVED_REPLAYS);
+  });
+
+  it('should delete a replay by id', () => {
+    const saved = manager.saveReplay(createReplay(1), 0, 0);
+
+    expect(manager.deleteReplay(saved.id)).toBe(true);
+    expect(manager.deleteReplay(saved.id)).toBe(false);
+    expect(manager.getReplays()).toEqual([]);
+  });
+
+  it('should import a shared replay with the result it reaches', async () => {
+    const replay = createReplay(5);
+
+    const saved = await manager.importReplay(await encodeReplayCode(replay));
+
+    expect(saved.replay).toEqual({ ...replay, customSettings: undefined, puzzleId: undefined });
+    expect(saved.score).toBe(getReplayResult(replay).score);
+    expect(saved.score).toBeGreaterThan(0);
+    expect(manager.getReplays()).toHaveLength(1);
+  });
+
+  it('should refuse to import corrupted data', async () => {
+    await expect(manager.importReplay('@@@')).rejects.toThrow('corrupted');
+    expect(manager.getReplays()).toEqual([]);
+  });
+
+  it('should drop malformed stored replays', () => {
+    const good = { id: 'a', savedAt: 1, score: 0, lines: 0, replay: createReplay(3) };
+    localStorage.setItem(
+      STORAGE_KEYS.REPLAYS,
+      JSON.stringify([
+        good,
+        { ...good, id: 'b', replay: { ...createReplay(4), version: 99 } },
+        { id: 'c' },
+        'junk',
+      ])
+    );
+
+    expect(manager.getReplays().map((saved) => saved.id)).toEqual(['a']);
+  });
+});
@@ -14,6 +14,7 @@ describe('UIManager', () => {
       <div id="level">0</div>
       <div id="timer">0:00</div>
       <div id="mode">CLASSIC</div>
+      <div id="combo-stat" style="display: none"><span id="combo">0</span></div>
       <canvas id="next-canvas"></canvas>
       <canvas id="hold-canvas"></canvas>
       <div id="game-over-modal" class="modal">
@@ -77,6 +78,11 @@ describe('UIManager', () => {
       const linesElement = document.getElementById('lines');
       expect(linesElement?.textContent).toBe('42');
     });
+
+    it('should show progress towards a line goal', () => {
+      manager.updateLines(12, 40);
+      expect(document.getElementById('lines')?.textContent).toBe('12/40');
+    });
   });
 
   describe('Level Updates', () => {
@@ -100,6 +106,11 @@ describe('UIManager', () => {
       const text = timerElement?.textContent;
       expect(text).toMatch(/\d+:\d{2}/); // Matches M:SS format
     });
+
+    it('should show hundredths when precise', () => {
+      manager.updateTimer(65.437, true);
+      expect(document.getElementById('timer')?.textContent).toBe('1:05.43');
+    });
   });
 
   describe('Mode Updates', () => {
@@ -122,11 +133,14 @@ describe('UIManager', () => {
         board: [],
         currentPiece: null,
         nextPiece: null,
+        nextPieces: [],
         holdPiece: null,
         canHold: true,
         score: 5000,
         lines: 25,
         level: 3,
+        combo: 2,
+        backToBack: false,
         isGameOver: false,
         isPaused: false,
         gameMode: GameMode.ULTRA,
@@ -138,6 +152,29 @@ describe('UIManager', () => {
       expect(document.getElementById('lines')?.textContent).toBe('25');
       expect(document.getElementById('level')?.textContent).toBe('3');
       expect(document.getElementById('mode')?.textContent).toBe('ULTRA');
+      expect(document.getElementById('combo')?.textContent).toBe('2');
+    });
+  });
+
+  describe('Combo Counter', () => {
+    it('should show the combo counter while a combo is running', () => {
+      manager.updateCombo(3);
+
+      expect(document.getElementById('combo')?.textContent).toBe('3');
+      expect(document.getElementById('combo-stat')?.style.display).toBe('');
+    });
+
+    it('should hide the combo counter when the combo breaks', () => {
+      manager.updateCombo(3);
+      manager.updateCombo(-1);
+
+      expect(document.getElementById('combo-stat')?.style.display).toBe('none');
+    });
+
+    it('should hide the counter on the first clear of a chain', () => {
+      manager.updateCombo(0);
+
+      expect(document.getElementById('combo-stat')?.style.display).toBe('none');
     });
   });
 
@@ -271,6 +308,12 @@ describe('UIManager', () => {
       expect(notification).toBeTruthy();
     });
 
+    it('should announce achievements as success notifications', () => {
+      manager.showAchievement('T-SPIN DOUBLE!');
+      const notification = document.querySelector('.notification-success');
+      expect(notification?.textContent).toBe('T-SPIN DOUBLE!');
+    });
+
     it('should auto-remove notification after duration', (done) => {
       manager.showNotification('Test', 'info', 100);
 